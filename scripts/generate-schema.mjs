@@ -0,0 +1,5 @@
+// Writes schema/autofix.schema.json from the compiled config schema. Run via `npm run schema`.
+import { writeFile } from "node:fs/promises";
+import { configSchema } from "../dist/config/schema.js";
+
+await writeFile(new URL("../schema/autofix.schema.json", import.meta.url), `${JSON.stringify(configSchema, null, 2)}\n`);
@@ -1,17 +1,26 @@
 #!/usr/bin/env node
 
 import path from "node:path";
+import { writeFile } from "node:fs/promises";
 import { randomBytes } from "node:crypto";
-import { loadConfig } from "./config/loadConfig.js";
-import { runAutoFix } from "./core/run.js";
-import { renderSummary, renderQuietSummary } from "./report/renderSummary.js";
+import { stringify } from "yaml";
+import { describeOrigins, loadConfig, readConfig } from "./config/loadConfig.js";
+import type { ConfigOrigin } from "./config/loadConfig.js";
+import { formatConfigIssue } from "./config/validate.js";
+import { renderInitConfig, suggestInitAnswers } from "./config/init.js";
+import { detectEnvironment } from "./core/detectEnvironment.js";
+import { resolveSnapshotDir, resumeAutoFix, runAutoFix } from "./core/run.js";
+import { renderGcResult, renderHistory, renderSummary, renderQuietSummary } from "./report/renderSummary.js";
+import { listRunReports, reportPathFor, toHistoryEntry } from "./report/history.js";
 import { writeRunReport } from "./report/writeReport.js";
 import { isInteractive } from "./utils/tty.js";
-import type { CliFlags, CommandContext } from "./types.js";
-import { readJsonFile } from "./utils/fs.js";
-import { undoLatest } from "./core/undo.js";
+import type { CliFlags, Command, CommandContext, RunReport } from "./types.js";
+import { fileExists, readJsonFile } from "./utils/fs.js";
+import { buildUndoReport, undoLatest } from "./core/undo.js";
+import { collectGarbage } from "./core/gc.js";
 import { createRenderer } from "./ui/renderer.js";
-import { runShellCommand } from "./utils/process.js";
+import { killRunningCommands, runCommand } from "./utils/process.js";
+import { formatCommand } from "./core/commands.js";
 
 function makeRunId(): string {
   return `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`;
@@ -36,7 +45,15 @@ COMMANDS
   doctor       Diagnosis only — no changes, collects facts + recommendations
   plan         Print the exact plan that would run (no changes)
   report       Show the last run's report (use --json for machine-readable)
-  undo         Best-effort rollback of the last run
+  history      List past runs recorded in the report directory
+  gc           Prune old reports and snapshots per output.retention (--dry-run to preview)
+  undo         Best-effort rollback of the last run (--dry-run previews a diff)
+  redo         Re-apply what the most recent undo rolled back
+  resume       Continue an interrupted run from its first unfinished step
+  init         Write a commented .autofix.yml from detected settings (--yes: no questions)
+  config validate   Check .autofix.yml against the schema (exit 1 on errors)
+  config show       Print the values your config layers set (--resolved: merged with defaults,
+                    --origin: every value with the layer that set it)
   clear-npm-cache   Clear global npm package cache
   clear-yarn-cache  Clear global yarn package cache
   clear-pnpm-cache  Clear global pnpm package cache
@@ -50,6 +67,8 @@ SAFETY & CONTROL
   --focus <subsystem>      Restrict to: node | python | docker | all (default: all)
   --checks <list>          Run checks phase: lint,test,format (comma-separated)
   --kill-ports [ports]     Enable port cleanup. Optional comma-separated ports
+  --package <name|glob>    Restrict to matching workspace packages (name or path)
+  --jobs <n>               Run up to n independent steps at once (default: execution.jobs, 4)
 
 OUTPUT & REPORTING
   --verbose                Print executed commands + stdout/stderr
@@ -58,6 +77,10 @@ OUTPUT & REPORTING
   --json                   Print JSON report to stdout
   --report-path <path>     Override where to write reports
   --run                    With 'report' command: run fresh instead of reading latest
+  --run-id <id>            With 'report', 'undo' or 'resume': use a specific earlier run
+  --resolved               With 'config show': print the effective config, defaults included
+  --origin                 With 'config show': print which layer set each value
+  --yes                    With 'init': accept the detected answers without prompting
 
 EXAMPLES
   auto-fix                 Run safe fixes for detected project
@@ -65,8 +88,15 @@ EXAMPLES
   auto-fix plan            Preview what would run
   auto-fix --deep          Run with destructive cleanup enabled
   auto-fix --kill-ports    Kill processes on default ports first
+  auto-fix --package "apps/*"  Fix only workspace packages under apps/
   auto-fix report --json   Print last run report as JSON
   auto-fix undo            Rollback the last run (best-effort)
+  auto-fix history         List previous runs and their run ids
+  auto-fix gc --dry-run    Preview which old reports/snapshots would be pruned
+  auto-fix undo --run-id <id>  Rollback a specific earlier run
+  auto-fix undo --dry-run  Preview what undo would restore
+  auto-fix resume          Finish a run that was stopped with Ctrl-C
+  auto-fix init            Generate .autofix.yml for this project
   auto-fix clear-npm-cache Clear npm cache
   auto-fix clear-yarn-cache Clear yarn cache
   auto-fix clear-pnpm-cache Clear pnpm cache
@@ -74,22 +104,34 @@ EXAMPLES
 CONFIG
   Place .autofix.yml in your project root for custom settings.
   auto-fix works out-of-the-box without any config file.
+  Layers, lowest precedence first: ~/.config/auto-fix/config.yml, .autofix.yml,
+  .autofix.local.yml, AUTOFIX_* environment variables (e.g. AUTOFIX_EXECUTION__JOBS=2), flags.
+  The file is validated against schema/autofix.schema.json; invalid files stop the run.
 `.trim());
 }
 
-function parseArgs(argv: string[]): { command: CommandContext["command"]; flags: CliFlags; help: boolean } {
+interface ParsedArgs {
+  command: CommandContext["command"];
+  /** `config validate` / `config show`. */
+  subcommand?: string;
+  flags: CliFlags;
+  help: boolean;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
   if (argv.length === 0) return { command: "run", flags: defaultFlags(), help: false };
 
   const hasHelp = argv.includes("--help") || argv.includes("-h") || argv[0] === "help";
   if (hasHelp) return { command: "run", flags: defaultFlags(), help: true };
 
   const [first, ...rest] = argv;
-  const knownCommands = ["doctor", "plan", "report", "undo", "clear-npm-cache", "clear-yarn-cache", "clear-pnpm-cache", "run"];
+  const knownCommands: CommandContext["command"][] = [
+    "doctor", "plan", "report", "history", "gc", "undo", "redo", "resume", "config", "init", "clear-npm-cache", "clear-yarn-cache", "clear-pnpm-cache", "run",
+  ];
   let command: CommandContext["command"];
 
-  if (first === "doctor" || first === "plan" || first === "report" || first === "undo" ||
-    first === "clear-npm-cache" || first === "clear-yarn-cache" || first === "clear-pnpm-cache") {
-    command = first;
+  if (first !== "run" && (knownCommands as string[]).includes(first)) {
+    command = first as CommandContext["command"];
   } else if (first === "run" || first.startsWith("-")) {
     command = "run";
   } else {
@@ -97,7 +139,8 @@ function parseArgs(argv: string[]): { command: CommandContext["command"]; flags:
     console.error(`Unknown command: "${first}"\nAvailable commands: ${knownCommands.join(", ")}\nRun 'auto-fix --help' for usage information.`);
     process.exit(1);
   }
-  const args = command === "run" ? argv : rest;
+  const subcommand = command === "config" && rest[0] && !rest[0].startsWith("-") ? rest[0] : undefined;
+  const args = command === "run" ? argv : subcommand ? rest.slice(1) : rest;
 
   const flags = defaultFlags();
 
@@ -112,6 +155,9 @@ function parseArgs(argv: string[]): { command: CommandContext["command"]; flags:
     else if (arg === "--no-color") flags.noColor = true;
     else if (arg === "--json") flags.json = true;
     else if (arg === "--run") flags.run = true;
+    else if (arg === "--resolved") flags.resolved = true;
+    else if (arg === "--origin") flags.origin = true;
+    else if (arg === "--yes" || arg === "-y") flags.yes = true;
     else if (arg === "--focus" && args[i + 1]) {
       const f = args[i + 1];
       if (f === "node" || f === "python" || f === "docker" || f === "all") flags.focus = f;
@@ -128,6 +174,16 @@ function parseArgs(argv: string[]): { command: CommandContext["command"]; flags:
       } else {
         flags.killPorts = [];
       }
+    } else if (arg === "--package" && args[i + 1]) {
+      flags.package = args[i + 1];
+      i += 1;
+    } else if (arg === "--jobs" && args[i + 1]) {
+      const jobs = Number(args[i + 1]);
+      if (Number.isInteger(jobs) && jobs > 0) flags.jobs = jobs;
+      i += 1;
+    } else if (arg === "--run-id" && args[i + 1]) {
+      flags.runId = args[i + 1];
+      i += 1;
     } else if (arg === "--report-path" && args[i + 1]) {
       flags.reportPath = args[i + 1];
       i += 1;
@@ -135,19 +191,19 @@ function parseArgs(argv: string[]): { command: CommandContext["command"]; flags:
   }
 
   if (command === "plan") flags.dryRun = true;
-  return { command, flags, help: false };
+  return { command, subcommand, flags, help: false };
 }
 
 async function runCacheCommand(command: CommandContext["command"], cwd: string): Promise<boolean> {
-  const shellCommand =
+  const cacheCommand: Command =
     command === "clear-npm-cache"
-      ? "npm cache clean --force"
+      ? { bin: "npm", args: ["cache", "clean", "--force"] }
       : command === "clear-yarn-cache"
-        ? "yarn cache clean"
-        : "pnpm store prune";
+        ? { bin: "yarn", args: ["cache", "clean"] }
+        : { bin: "pnpm", args: ["store", "prune"] };
 
-  console.log(`Running: ${shellCommand}`);
-  const result = await runShellCommand(shellCommand, cwd);
+  console.log(`Running: ${formatCommand(cacheCommand)}`);
+  const result = await runCommand(cacheCommand, cwd);
 
   if (result.stdout.trim()) console.log(result.stdout.trim());
   if (result.stderr.trim()) console.error(result.stderr.trim());
@@ -161,6 +217,125 @@ async function runCacheCommand(command: CommandContext["command"], cwd: string):
   return true;
 }
 
+/**
+ * `init`: detect the project, ask for the settings worth pinning (pre-filled from detection) and write
+ * a commented `.autofix.yml`. `--yes` takes the detected answers as-is. An existing file is never overwritten.
+ */
+async function runInitCommand(cwd: string, flags: CliFlags, interactive: boolean): Promise<void> {
+  const target = path.join(cwd, ".autofix.yml");
+  if (await fileExists(target)) {
+    console.error(".autofix.yml already exists. Edit it directly, or remove it and run 'auto-fix init' again.");
+    process.exitCode = 1;
+    return;
+  }
+  if (!flags.yes && !interactive) {
+    console.error("auto-fix init needs an interactive terminal to ask questions. Use 'auto-fix init --yes' to accept the detected settings.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const { config } = await readConfig(cwd, { flags });
+  const detection = await detectEnvironment(cwd, config);
+  const { pythonTools, ...suggested } = await suggestInitAnswers(cwd, detection);
+  let answers = suggested;
+  if (!flags.yes) {
+    const ui = createRenderer(flags, interactive);
+    ui.intro("init");
+    ui.showDetection(detection);
+    answers = await ui.promptInit(suggested, detection);
+  }
+
+  await writeFile(target, renderInitConfig(answers, pythonTools), "utf8");
+  if (flags.json) console.log(JSON.stringify({ path: target, answers }, null, 2));
+  else console.log(`Wrote ${path.relative(cwd, target)}. Check it with 'auto-fix config validate'.`);
+}
+
+function formatOrigin(origin: ConfigOrigin): string {
+  return origin.source ? `${origin.layer} (${origin.source})` : origin.layer;
+}
+
+/**
+ * `config validate` and `config show [--resolved | --origin]`. These read the config leniently so
+ * they can report its errors.
+ */
+async function runConfigCommand(subcommand: string | undefined, cwd: string, flags: CliFlags): Promise<void> {
+  const loaded = await readConfig(cwd, { flags });
+  const errors = loaded.issues.filter((issue) => issue.level === "error");
+  const sources = [
+    ...loaded.files.map((file) => (path.relative(cwd, file).startsWith("..") ? file : path.relative(cwd, file))),
+    ...new Set(Object.values(loaded.origins).filter((o) => o.layer === "env" || o.layer === "cli").map((o) => o.source ?? o.layer)),
+  ];
+
+  if (subcommand === "validate") {
+    if (flags.json) {
+      console.log(JSON.stringify({ files: loaded.files, valid: errors.length === 0, issues: loaded.issues }, null, 2));
+    } else {
+      for (const issue of loaded.issues) console.log(formatConfigIssue(issue));
+      const checked = sources.length > 0 ? sources.join(", ") : "no config files found; using built-in defaults";
+      console.log(errors.length > 0 ? `${errors.length} error(s) in: ${checked}` : `Valid: ${checked}`);
+    }
+    if (errors.length > 0) process.exitCode = 1;
+    return;
+  }
+
+  if (subcommand === "show") {
+    for (const issue of loaded.issues) console.error(formatConfigIssue(issue));
+    if (errors.length > 0) {
+      process.exitCode = 1;
+      return;
+    }
+    if (flags.origin) {
+      const entries = describeOrigins(loaded);
+      if (flags.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      const lines = entries.map((e) => [`${e.path}: ${JSON.stringify(e.value)}`, formatOrigin(e.origin)]);
+      const width = Math.max(...lines.map(([left]) => left.length));
+      console.log(lines.map(([left, right]) => `${left.padEnd(width)}  # ${right}`).join("\n"));
+      return;
+    }
+    const value = flags.resolved ? loaded.config : loaded.overrides;
+    if (flags.json) {
+      console.log(JSON.stringify({ files: loaded.files, resolved: Boolean(flags.resolved), config: value }, null, 2));
+      return;
+    }
+    const layers = flags.resolved ? ["built-in defaults", ...sources] : sources;
+    const header = layers.length > 0 ? `# Sources (lowest precedence first): ${layers.join(", ")}` : "# No config files or overrides; built-in defaults apply";
+    console.log(`${header}\n${Object.keys(value).length > 0 ? stringify(value) : ""}`.trimEnd());
+    return;
+  }
+
+  console.error(`Unknown config command: "${subcommand ?? ""}"\nAvailable: config validate, config show [--resolved | --origin]`);
+  process.exitCode = 1;
+}
+
+/**
+ * The first SIGINT/SIGTERM aborts the run: the running command's process tree is killed, the step
+ * is recorded as `partial` and the report is still written. A second signal exits immediately.
+ */
+function installInterruptHandler(controller: AbortController, forceQuit: () => Promise<void>): () => void {
+  let quitting = false;
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      // Children run in their own process groups, so exiting alone would leave them running.
+      killRunningCommands("SIGKILL");
+      if (quitting) return;
+      quitting = true;
+      void forceQuit().catch(() => undefined).finally(() => process.exit(signal === "SIGTERM" ? 143 : 130));
+      return;
+    }
+    controller.abort(signal);
+    console.error(`\n${signal} received: stopping the current step and saving a partial report (repeat to force quit)`);
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+  return () => {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+  };
+}
+
 function defaultFlags(): CliFlags {
   return {
     dryRun: false,
@@ -177,7 +352,7 @@ function defaultFlags(): CliFlags {
 }
 
 async function main() {
-  const { command, flags, help } = parseArgs(process.argv.slice(2));
+  const { command, subcommand, flags, help } = parseArgs(process.argv.slice(2));
 
   if (help) {
     printHelp();
@@ -186,7 +361,6 @@ async function main() {
 
   const cwd = process.cwd();
   const interactive = isInteractive();
-  const ui = createRenderer(flags, interactive);
 
   const ctx: CommandContext = {
     command,
@@ -196,7 +370,24 @@ async function main() {
     interactive,
   };
 
-  const { config } = await loadConfig(cwd);
+  if (command === "config") {
+    await runConfigCommand(subcommand, cwd, flags);
+    return;
+  }
+
+  if (command === "init") {
+    await runInitCommand(cwd, flags, interactive);
+    return;
+  }
+
+  const { config, issues } = await loadConfig(cwd, { flags });
+  for (const issue of issues) console.error(`Warning: ${formatConfigIssue(issue)}`);
+  // output.verbosity is the default when neither --verbose nor --quiet is given.
+  if (!flags.verbose && !flags.quiet) {
+    flags.verbose = config.output.verbosity === "verbose";
+    flags.quiet = config.output.verbosity === "quiet";
+  }
+  const ui = createRenderer(flags, interactive);
   const reportDir = path.resolve(cwd, flags.reportPath ?? config.output.report_dir);
 
   // ── cache clear commands ──
@@ -206,19 +397,94 @@ async function main() {
     return;
   }
 
-  // ── undo ──
-  if (command === "undo") {
-    ui.intro("undo");
-    ui.startTask("Reading latest report\u2026");
-    const { report, entries } = await undoLatest(path.join(reportDir, "latest.json"), cwd);
+  // ── history ──
+  if (command === "history") {
+    ui.intro("history");
+    const entries = (await listRunReports(reportDir)).map(toHistoryEntry);
+    if (flags.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+    if (entries.length === 0) {
+      ui.showReportInfo(`No runs recorded in ${reportDir}`);
+      if (!ui.isRich) console.log(`No runs recorded in ${reportDir}`);
+      ui.outro("auto-fix");
+      return;
+    }
+    if (ui.isRich) ui.showHistory(renderHistory(entries, false));
+    else console.log(renderHistory(entries, !flags.noColor));
+    ui.outro("auto-fix report --run-id <id>");
+    return;
+  }
+
+  // ── gc ──
+  if (command === "gc") {
+    ui.intro("gc");
+    const snapshotDir = path.resolve(cwd, config.output.snapshot_dir);
+    const result = await collectGarbage(reportDir, snapshotDir, config.output.retention, {
+      dryRun: flags.dryRun,
+      logDir: path.resolve(cwd, config.output.log_dir),
+    });
+    if (flags.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+    if (ui.isRich) ui.showGcResults(renderGcResult(result, false));
+    else console.log(renderGcResult(result, !flags.noColor));
+    ui.outro(result.dryRun && result.removed.length > 0 ? "auto-fix gc" : "auto-fix history");
+    return;
+  }
+
+  // ── undo / redo ──
+  if (command === "undo" || command === "redo") {
+    ui.intro(command);
+    const startedAt = new Date().toISOString();
+    let sourceRunId = flags.runId;
+    if (command === "redo" && !sourceRunId) {
+      sourceRunId = (await listRunReports(reportDir)).find((r) => r.command === "undo")?.runId;
+      if (!sourceRunId) {
+        ui.showReportInfo("No undo run found to redo");
+        if (!ui.isRich) console.error("No undo run found to redo.");
+        process.exitCode = 1;
+        return;
+      }
+    }
+    ui.startTask(sourceRunId ? `Reading report ${sourceRunId}\u2026` : "Reading latest report\u2026");
+    const storage = flags.dryRun ? null : await resolveSnapshotDir(ctx, config);
+    const { report, entries } = await undoLatest(reportPathFor(reportDir, sourceRunId), cwd, {
+      dryRun: flags.dryRun,
+      preUndoStore: storage?.snapshotDir,
+    });
     if (!report) {
       ui.stopTask("\u2717  No previous report found");
-      if (!ui.isRich) console.error("No previous report found for undo.");
+      if (!ui.isRich) console.error(sourceRunId ? `No report found for run ${sourceRunId}.` : "No previous report found for undo.");
       process.exitCode = 1;
       return;
     }
     ui.stopTask("\u2714  Report loaded");
-    ui.showDetection(report.detection);
+    if (report.detection) ui.showDetection(report.detection);
+
+    for (const entry of entries) {
+      for (const target of entry.modifiedSinceRun ?? []) {
+        const message = flags.dryRun
+          ? `${path.relative(cwd, target)} changed after run ${report.runId}; undo would overwrite those edits`
+          : `${path.relative(cwd, target)} changed after run ${report.runId}; your edits were saved before restoring`;
+        ui.showWarning(message);
+        if (!ui.isRich) console.error(`Warning: ${message}`);
+      }
+    }
+
+    if (flags.dryRun) {
+      const preview = entries.flatMap((e) => e.preview ?? []);
+      const text = preview.length > 0 ? preview.join("\n") : "Nothing to restore.";
+      // With --json, stdout holds only the JSON document.
+      if (flags.json) console.log(JSON.stringify(entries, null, 2));
+      else if (ui.isRich) ui.showUndoPreview(text);
+      else console.log(text);
+      ui.outro(`auto-fix ${command}${sourceRunId ? ` --run-id ${sourceRunId}` : ""}`);
+      return;
+    }
+
     const failed = entries.reduce((acc, e) => acc + e.failed.length, 0);
     const restored = entries.reduce((acc, e) => acc + e.restored.length, 0);
     const missing = entries.reduce((acc, e) => acc + e.missingSnapshot.length, 0);
@@ -227,6 +493,20 @@ async function main() {
     if (!ui.isRich) {
       console.log(`Restored: ${restored}, Skipped: ${skipped}, Missing snapshot: ${missing}, Failed: ${failed}`);
     }
+
+    if (storage && (restored > 0 || failed > 0)) {
+      const undoReport = await buildUndoReport(ctx, report, entries, {
+        reportDir,
+        snapshotDir: storage.snapshotDir,
+        fallbackToTemp: !storage.writable,
+      }, startedAt);
+      await writeRunReport(undoReport, reportDir, { updateLatest: false });
+      const revert = command === "undo" ? "auto-fix redo" : `auto-fix undo --run-id ${ctx.runId}`;
+      ui.showReportInfo(`Recorded as run ${ctx.runId}; revert with: ${revert}`);
+      if (!ui.isRich) console.log(`Recorded as run ${ctx.runId}; revert with: ${revert}`);
+      if (flags.json) console.log(JSON.stringify(undoReport, null, 2));
+    }
+
     const next = entries.find((e) => e.nextBestAction)?.nextBestAction ?? "Run auto-fix doctor to validate";
     ui.outro(next);
     if (!ui.isRich) console.log(`Next: ${next}`);
@@ -236,10 +516,11 @@ async function main() {
   // ── report (read-only) ──
   if (command === "report" && !flags.run) {
     ui.intro("report");
-    const latest = await readJsonFile(path.join(reportDir, "latest.json"));
+    const reportPath = reportPathFor(reportDir, flags.runId);
+    const latest = await readJsonFile(reportPath);
     if (!latest) {
-      ui.showReportInfo("No report found at latest.json");
-      if (!ui.isRich) console.error("No report found at latest.json");
+      ui.showReportInfo(`No report found at ${path.basename(reportPath)}`);
+      if (!ui.isRich) console.error(`No report found at ${path.basename(reportPath)}`);
       process.exitCode = 1;
       return;
     }
@@ -253,23 +534,61 @@ async function main() {
     return;
   }
 
-  // ── run / doctor / plan ──
+  // ── resume: load the interrupted run ──
+  let source: RunReport | null = null;
+  if (command === "resume") {
+    source = await readJsonFile<RunReport>(reportPathFor(reportDir, flags.runId));
+    const message = !source
+      ? (flags.runId ? `No report found for run ${flags.runId}.` : "No previous report found to resume.")
+      : !source.interrupted || source.interrupted.remainingStepIds.length === 0
+        ? `Run ${source.runId} was not interrupted; nothing to resume.`
+        : null;
+    if (message) {
+      ui.intro("resume");
+      ui.showReportInfo(message);
+      if (!ui.isRich) console.error(message);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  // ── run / doctor / plan / resume ──
   const effectiveCommand = command === "report" ? "run" : command;
   ui.intro(effectiveCommand);
+  const executes = effectiveCommand === "run" || effectiveCommand === "resume";
 
+  let currentReport: (() => RunReport) | undefined;
+  const onExecutionStart = (build: () => RunReport) => {
+    currentReport = build;
+  };
   const callbacks = ui.isRich
     ? {
+      onExecutionStart,
       onDetection: (det: import("./types.js").EnvDetection) => ui.showDetection(det),
       onPlanReady: (steps: import("./types.js").FixStep[]) => {
         if (effectiveCommand === "plan" || effectiveCommand === "doctor") {
           ui.showPlan(steps, effectiveCommand === "doctor" ? "Diagnosis" : undefined);
+        } else if (source) {
+          ui.showPlan(steps, `Resuming run ${source.runId} \u2014 ${steps.length} step(s)`);
         }
       },
-      stepHooks: effectiveCommand === "run" ? ui.createStepHooks() : undefined,
+      stepHooks: executes ? ui.createStepHooks(flags.jobs ?? config.execution.jobs) : undefined,
     }
-    : undefined;
-
-  const result = await runAutoFix({ ...ctx, command: effectiveCommand }, config, reportDir, callbacks);
+    : { onExecutionStart };
+
+  const controller = new AbortController();
+  const forceQuit = async () => {
+    const partial = currentReport?.();
+    if (!partial) return;
+    await writeRunReport(partial, reportDir);
+    console.error(`Force quit: partial report saved for run ${partial.runId}; \`auto-fix resume\` continues it.`);
+  };
+  const removeInterruptHandler = executes ? installInterruptHandler(controller, forceQuit) : () => {};
+  const runCtx: CommandContext = { ...ctx, command: effectiveCommand, signal: controller.signal };
+  const result = source
+    ? await resumeAutoFix(runCtx, config, reportDir, source, callbacks)
+    : await runAutoFix(runCtx, config, reportDir, callbacks);
+  removeInterruptHandler();
   const report = result.report;
   await writeRunReport(report, reportDir);
 
@@ -294,6 +613,9 @@ async function main() {
   if (effectiveCommand === "doctor" && report.detection.issues.length > 0) {
     process.exitCode = 1;
   }
+  if (report.interrupted) {
+    process.exitCode = report.interrupted.signal === "SIGTERM" ? 143 : 130;
+  }
 }
 
 main().catch((error) => {
@@ -31,9 +31,13 @@ export const defaultConfig: Config = {
   },
   docker: {
     compose_file: "auto",
+    profiles: [],
+    runtime: "auto",
     safe_down: true,
     rebuild: true,
     prune: false,
+    snapshot_volumes: false,
+    volume_snapshot_max_bytes: 1024 * 1024 * 1024,
   },
   checks: {
     default: ["lint", "format", "test"],
@@ -41,6 +45,28 @@ export const defaultConfig: Config = {
   output: {
     report_dir: ".autofix/reports",
     snapshot_dir: ".autofix/snapshots",
+    log_dir: ".autofix/logs",
     verbosity: "normal",
+    snapshot_policy: {
+      max_bytes: 50 * 1024 * 1024,
+      archive_directories: true,
+    },
+    retention: {
+      max_runs: 50,
+      max_age_days: 30,
+      max_total_bytes: 0,
+    },
+  },
+  timeouts: {
+    default_seconds: 900,
+    subsystems: {
+      docker: 1800,
+    },
+    steps: {},
+  },
+  execution: {
+    jobs: 4,
   },
+  plugins: [],
+  steps: [],
 };
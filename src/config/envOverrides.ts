@@ -0,0 +1,90 @@
+import { parse } from "yaml";
+import type { JsonSchema, JsonType } from "./schema.js";
+import { closestMatch } from "./validate.js";
+import type { KeyPath } from "./validate.js";
+
+/** `AUTOFIX_OUTPUT__VERBOSITY=quiet` sets `output.verbosity`: nested keys are joined with `__`. */
+const ENV_PREFIX = "AUTOFIX_";
+const NESTING = "__";
+
+export interface EnvOverride {
+  /** Environment variable name. */
+  name: string;
+  keyPath: KeyPath;
+  value: unknown;
+  /** Schema of the setting, for validation. */
+  schema: JsonSchema;
+}
+
+export interface UnknownEnvSetting {
+  name: string;
+  suggestion?: string;
+}
+
+/** Schema for a key path, following `properties` and then `additionalProperties`. */
+export function schemaAt(schema: JsonSchema, keyPath: KeyPath): JsonSchema | undefined {
+  let current: JsonSchema | undefined = schema;
+  for (const key of keyPath) {
+    const next: JsonSchema | undefined = current?.properties?.[String(key)]
+      ?? (typeof current?.additionalProperties === "object" ? current.additionalProperties : undefined);
+    if (!next) return undefined;
+    current = next;
+  }
+  return current;
+}
+
+function envNames(schema: JsonSchema, prefix: string[] = []): string[] {
+  return Object.entries(schema.properties ?? {}).flatMap(([key, child]) => {
+    const keyPath = [...prefix, key];
+    return [`${ENV_PREFIX}${keyPath.join(NESTING).toUpperCase()}`, ...envNames(child, keyPath)];
+  });
+}
+
+function types(schema: JsonSchema): JsonType[] {
+  if (!schema.type) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+/**
+ * Convert a variable's text to the setting's type. Lists are comma-separated (or YAML flow syntax),
+ * mappings use YAML flow syntax. Text that does not convert is returned as-is so validation reports it.
+ */
+function convert(raw: string, schema: JsonSchema): unknown {
+  const kinds = types(schema);
+  try {
+    if (kinds.includes("object") || (kinds.includes("array") && raw.trim().startsWith("["))) return parse(raw) as unknown;
+  } catch {
+    return raw;
+  }
+  if (kinds.includes("array")) {
+    const items = raw.split(",").map((item) => item.trim()).filter(Boolean);
+    return schema.items ? items.map((item) => convert(item, schema.items as JsonSchema)) : items;
+  }
+  if (kinds.includes("integer") || kinds.includes("number")) {
+    const value = Number(raw);
+    return raw.trim() !== "" && !Number.isNaN(value) ? value : raw;
+  }
+  if (kinds.includes("boolean")) {
+    if (/^(true|1|yes|on)$/i.test(raw)) return true;
+    if (/^(false|0|no|off)$/i.test(raw)) return false;
+  }
+  return raw;
+}
+
+/** Read `AUTOFIX_*` variables as config overrides. Names that match no setting are returned separately. */
+export function readEnvOverrides(env: NodeJS.ProcessEnv, schema: JsonSchema): { overrides: EnvOverride[]; unknown: UnknownEnvSetting[] } {
+  const overrides: EnvOverride[] = [];
+  const unknown: UnknownEnvSetting[] = [];
+  for (const name of Object.keys(env).filter((key) => key.startsWith(ENV_PREFIX)).sort()) {
+    const raw = env[name];
+    if (raw === undefined) continue;
+    const keyPath = name.slice(ENV_PREFIX.length).toLowerCase().split(NESTING).filter(Boolean);
+    const setting = keyPath.length > 0 ? schemaAt(schema, keyPath) : undefined;
+    if (!setting) {
+      unknown.push({ name, suggestion: closestMatch(name, envNames(schema)) });
+      continue;
+    }
+    overrides.push({ name, keyPath, value: convert(raw, setting), schema: setting });
+  }
+  return { overrides, unknown };
+}
@@ -0,0 +1,141 @@
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import { stringify } from "yaml";
+import type { CheckKind, Config, EnvDetection } from "../types.js";
+import { defaultConfig } from "./defaults.js";
+import { fileExists } from "../utils/fs.js";
+
+/** Settings `auto-fix init` asks about. */
+export interface InitAnswers {
+  packageManager: Config["node"]["package_manager"];
+  venvPath: string;
+  pythonInstaller: Config["python"]["install"]["prefer"];
+  composeFile: string;
+  ports: number[];
+  checks: CheckKind[];
+}
+
+/** Python tool commands derived from `pyproject.toml`; written to the file but not asked about. */
+type PythonTools = Config["python"]["tools"];
+
+const VENV_CANDIDATES = [".venv", "venv", "env"];
+const CHECK_ORDER: CheckKind[] = ["lint", "format", "test"];
+
+/** `[tool.<name>]` sections in `pyproject.toml`. */
+async function pyprojectTools(cwd: string): Promise<Set<string>> {
+  try {
+    const text = await readFile(path.join(cwd, "pyproject.toml"), "utf8");
+    return new Set([...text.matchAll(/^\[tool\.([a-z0-9_-]+)/gim)].map((m) => m[1].toLowerCase()));
+  } catch {
+    return new Set();
+  }
+}
+
+/** Ports named in package.json scripts (`--port 4000`, `-p 4000`, `PORT=4000`) plus framework defaults. */
+function detectPorts(detection: EnvDetection, scripts: string[]): number[] {
+  const ports = new Set<number>();
+  for (const script of scripts) {
+    for (const match of script.matchAll(/(?:--port[= ]|-p |PORT=)(\d{2,5})\b/g)) ports.add(Number(match[1]));
+  }
+  if (detection.node.hasNext) ports.add(3000);
+  if (detection.node.hasVite) ports.add(5173);
+  if (detection.python.detected) ports.add(8000);
+  const valid = [...ports].filter((port) => port > 0 && port <= 65535).sort((a, b) => a - b);
+  return valid.length > 0 ? valid : defaultConfig.ports.default;
+}
+
+function detectChecks(detection: EnvDetection, tools: Set<string>): CheckKind[] {
+  const found = new Set<CheckKind>();
+  for (const kind of CHECK_ORDER) if (detection.node.packageScripts.includes(kind)) found.add(kind);
+  if (tools.has("ruff") || tools.has("mypy") || tools.has("pylint") || tools.has("flake8")) found.add("lint");
+  if (tools.has("ruff") || tools.has("black") || tools.has("isort")) found.add("format");
+  if (tools.has("pytest") || (detection.python.detected && tools.has("coverage"))) found.add("test");
+  return found.size > 0 ? CHECK_ORDER.filter((kind) => found.has(kind)) : defaultConfig.checks.default;
+}
+
+function detectPythonTools(tools: Set<string>): PythonTools | undefined {
+  const format = [...(tools.has("ruff") ? ["ruff format"] : []), ...(tools.has("black") ? ["black ."] : [])];
+  const lint = [...(tools.has("ruff") ? ["ruff check ."] : []), ...(tools.has("mypy") ? ["mypy ."] : []), ...(tools.has("pylint") ? ["pylint ."] : [])];
+  const test = tools.has("pytest") ? ["pytest -q"] : [];
+  if (format.length + lint.length + test.length === 0) return undefined;
+  return { format, lint, test };
+}
+
+/** Answers pre-filled from detection (lockfiles, the Python dependency manager), `pyproject.toml` tool sections and `package.json` scripts. */
+export async function suggestInitAnswers(cwd: string, detection: EnvDetection): Promise<InitAnswers & { pythonTools?: PythonTools }> {
+  const tools = await pyprojectTools(cwd);
+  let scripts: string[] = [];
+  try {
+    const pkg = JSON.parse(await readFile(path.join(cwd, "package.json"), "utf8")) as { scripts?: Record<string, string> };
+    scripts = Object.values(pkg.scripts ?? {});
+  } catch {
+    // No package.json or malformed: no script ports.
+  }
+  let venvPath = defaultConfig.python.venv_path;
+  for (const candidate of VENV_CANDIDATES) {
+    if (await fileExists(path.join(cwd, candidate, "pyvenv.cfg"))) {
+      venvPath = candidate;
+      break;
+    }
+  }
+  return {
+    packageManager: detection.node.packageManager === "unknown" ? "auto" : detection.node.packageManager,
+    venvPath,
+    pythonInstaller: detection.python.manager ?? (detection.python.hasRequirements ? "pip" : defaultConfig.python.install.prefer),
+    composeFile: detection.docker.composeFile ?? "auto",
+    ports: detectPorts(detection, scripts),
+    checks: detectChecks(detection, tools),
+    pythonTools: detectPythonTools(tools),
+  };
+}
+
+/** Parse a comma-separated port list; null when any entry is not a valid port. */
+export function parsePortList(text: string): number[] | null {
+  const parts = text.split(",").map((part) => part.trim()).filter(Boolean);
+  const ports = parts.map(Number);
+  return ports.every((port) => Number.isInteger(port) && port > 0 && port <= 65535) ? ports : null;
+}
+
+function scalar(value: string | number): string {
+  return stringify(value).trimEnd();
+}
+
+function flowList(values: (string | number)[]): string {
+  return `[${values.map(scalar).join(", ")}]`;
+}
+
+/** A commented `.autofix.yml` for the given answers. */
+export function renderInitConfig(answers: InitAnswers, pythonTools: PythonTools = defaultConfig.python.tools): string {
+  return `# auto-fix configuration, generated by \`auto-fix init\`. Every option is described in the README.
+# Check it with \`auto-fix config validate\`. Personal overrides belong in .autofix.local.yml.
+version: 1
+
+ports:
+  # Ports freed by \`auto-fix --kill-ports\` when no list is given.
+  default: ${flowList(answers.ports)}
+
+node:
+  # npm, pnpm or yarn; auto picks the one matching the lockfile.
+  package_manager: ${scalar(answers.packageManager)}
+
+python:
+  # Virtual environment directory, relative to the project root.
+  venv_path: ${scalar(answers.venvPath)}
+  install:
+    # uv, pip, poetry, pdm, pipenv or auto. Projects with a uv, Poetry, PDM or Pipenv lockfile or config use that tool.
+    prefer: ${scalar(answers.pythonInstaller)}
+  # Commands for the checks phase. No shell syntax; the first word must be a known dev tool.
+  tools:
+    format: ${flowList(pythonTools.format)}
+    lint: ${flowList(pythonTools.lint)}
+    test: ${flowList(pythonTools.test)}
+
+docker:
+  # Compose file to use; auto follows COMPOSE_FILE, else compose.yaml / docker-compose.yml plus its override file. A list is merged in order.
+  compose_file: ${scalar(answers.composeFile)}
+
+checks:
+  # Checks run by \`--checks\` when no list is given.
+  default: ${flowList(answers.checks)}
+`;
+}
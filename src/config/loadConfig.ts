@@ -1,31 +1,53 @@
 import path from "node:path";
+import os from "node:os";
 import { readFile } from "node:fs/promises";
-import { parse } from "yaml";
-import type { Config } from "../types.js";
+import type { CliFlags, Config } from "../types.js";
 import { defaultConfig } from "./defaults.js";
+import { configSchema } from "./schema.js";
+import { ConfigError, formatKeyPath, parseConfigFile, validateValue } from "./validate.js";
+import type { ConfigIssue, KeyPath, ParsedConfigFile } from "./validate.js";
+import { readEnvOverrides } from "./envOverrides.js";
 import { fileExists } from "../utils/fs.js";
+import { isSafeConfigPath, parseConfigCommand } from "../core/commands.js";
 
-function mergeDeep<T>(target: T, source: Partial<T>): T {
-  const output = { ...target } as Record<string, unknown>;
-  for (const [key, value] of Object.entries(source as Record<string, unknown>)) {
-    if (Array.isArray(value)) {
-      output[key] = value;
-      continue;
-    }
-    if (value && typeof value === "object") {
-      const current = output[key];
-      output[key] = mergeDeep((current ?? {}) as Record<string, unknown>, value as Record<string, unknown>);
+export type ConfigLayer = "default" | "user" | "project" | "local" | "env" | "cli";
+
+export interface ConfigOrigin {
+  layer: ConfigLayer;
+  /** File, environment variable or flag that set the value. */
+  source?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Deep-merge one layer over `target`. Lists replace wholesale; each replaced leaf records `origin`. */
+function mergeLayer(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  origin: ConfigOrigin,
+  origins: Record<string, ConfigOrigin>,
+  prefix: KeyPath = [],
+): Record<string, unknown> {
+  const output = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    const keyPath = [...prefix, key];
+    if (isPlainObject(value)) {
+      output[key] = mergeLayer(isPlainObject(output[key]) ? output[key] : {}, value, origin, origins, keyPath);
       continue;
     }
     output[key] = value;
+    origins[formatKeyPath(keyPath)] = origin;
   }
-  return output as T;
+  return output;
 }
 
-async function findConfigPath(cwd: string): Promise<string | null> {
+/** Walk up from `cwd` to the git root looking for `name`. */
+async function findUpward(cwd: string, name: string): Promise<string | null> {
   let current = cwd;
   while (true) {
-    const candidate = path.join(current, ".autofix.yml");
+    const candidate = path.join(current, name);
     if (await fileExists(candidate)) return candidate;
 
     const gitDir = path.join(current, ".git");
@@ -36,50 +58,162 @@ async function findConfigPath(cwd: string): Promise<string | null> {
     current = parent;
   }
 }
-/** Allowlist pattern for safe characters in config command/path strings */
-const SAFE_CHARS_RE = /^[a-zA-Z0-9._\-/@:=*\s]+$/;
-
-/** Known dev tool binaries that are safe to auto-execute */
-const KNOWN_TOOL_BINARIES = new Set([
-  "ruff", "black", "autopep8", "yapf", "isort", "pyink",
-  "flake8", "pylint", "pyflakes", "pydocstyle", "pycodestyle", "bandit", "vulture",
-  "mypy", "pyright", "pytype", "pyre",
-  "pytest", "unittest", "nose2", "tox", "nox", "coverage",
-  "pip", "uv", "poetry", "pipenv", "pdm",
-  "python", "python3", "pre-commit", "sphinx-build",
-  "npm", "npx", "pnpm", "yarn",
-]);
-
-function isSafeConfigCommand(cmd: string): boolean {
-  if (!SAFE_CHARS_RE.test(cmd)) return false;
-  const binary = cmd.trim().split(/\s+/)[0].replace(/^.*\//, "");
-  return KNOWN_TOOL_BINARIES.has(binary);
+
+interface RemovedValue {
+  keyPath: KeyPath;
+  value: string;
+  reason: string;
 }
 
 /**
  * REL-004: Defense-in-depth — strip unsafe values from config at load time.
  * Uses character allowlist + known binary allowlist to prevent arbitrary command execution.
+ * Returns every value that was removed so it can be reported.
  */
-function sanitizeConfig(config: Config): Config {
+function sanitizeConfig(config: Config): { config: Config; removed: RemovedValue[] } {
+  const removed: RemovedValue[] = [];
+  const keep = (keyPath: KeyPath, values: string[], check: (value: string) => string | null): string[] =>
+    values.filter((value, index) => {
+      const reason = check(value);
+      if (reason) removed.push({ keyPath: [...keyPath, index], value, reason });
+      return !reason;
+    });
+  const commandProblem = (cmd: string) => {
+    const { command, reason } = parseConfigCommand(cmd);
+    return command ? null : reason;
+  };
+
   // Sanitize python tool command arrays
   if (config.python?.tools) {
-    config.python.tools.format = config.python.tools.format.filter(isSafeConfigCommand);
-    config.python.tools.lint = config.python.tools.lint.filter(isSafeConfigCommand);
-    config.python.tools.test = config.python.tools.test.filter(isSafeConfigCommand);
+    for (const kind of ["format", "lint", "test"] as const) {
+      config.python.tools[kind] = keep(["python", "tools", kind], config.python.tools[kind], commandProblem);
+    }
   }
   // Sanitize node cache directory names (path-only, no binary check needed)
   if (config.node?.caches?.directories) {
-    config.node.caches.directories = config.node.caches.directories.filter((d) => SAFE_CHARS_RE.test(d) && !d.includes(".."));
+    config.node.caches.directories = keep(["node", "caches", "directories"], config.node.caches.directories, (dir) =>
+      isSafeConfigPath(dir) ? null : "not a safe relative path");
   }
-  return config;
+  return { config, removed };
+}
+
+export interface ConfigSources {
+  /** Source of `AUTOFIX_*` overrides and `XDG_CONFIG_HOME`. Defaults to `process.env`. */
+  env?: NodeJS.ProcessEnv;
+  /** Directory holding the user-wide `config.yml`. Defaults to `$XDG_CONFIG_HOME/auto-fix` or `~/.config/auto-fix`. */
+  userConfigDir?: string;
+  /** Flags that override config values (`--jobs`, `--report-path`, `--verbose`, `--quiet`). */
+  flags?: CliFlags;
+}
+
+export interface LoadedConfig {
+  config: Config;
+  /** The repo `.autofix.yml` that was applied, or null when there is none. */
+  path: string | null;
+  /** Every config file applied, lowest precedence first. */
+  files: string[];
+  /** Values set by config files, environment variables and flags (everything except the defaults). */
+  overrides: Partial<Config>;
+  /** Which layer set each value, keyed by key path (`node.package_manager`). Lists count as one value. */
+  origins: Record<string, ConfigOrigin>;
+  /** Parse and schema errors, plus a warning for each value dropped by sanitization. */
+  issues: ConfigIssue[];
+}
+
+export function userConfigDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"), "auto-fix");
+}
+
+function flagOverrides(flags: CliFlags | undefined): { flag: string; keyPath: KeyPath; value: unknown }[] {
+  if (!flags) return [];
+  const out: { flag: string; keyPath: KeyPath; value: unknown }[] = [];
+  if (flags.jobs !== undefined) out.push({ flag: "--jobs", keyPath: ["execution", "jobs"], value: flags.jobs });
+  if (flags.reportPath !== undefined) out.push({ flag: "--report-path", keyPath: ["output", "report_dir"], value: flags.reportPath });
+  if (flags.verbose) out.push({ flag: "--verbose", keyPath: ["output", "verbosity"], value: "verbose" });
+  else if (flags.quiet) out.push({ flag: "--quiet", keyPath: ["output", "verbosity"], value: "quiet" });
+  return out;
+}
+
+function nest(keyPath: KeyPath, value: unknown): Record<string, unknown> {
+  return keyPath.reduceRight<unknown>((acc, key) => ({ [key]: acc }), value) as Record<string, unknown>;
+}
+
+/**
+ * Load the layered configuration without failing on errors; see `loadConfig` for the strict variant.
+ * Precedence, lowest first: built-in defaults, `~/.config/auto-fix/config.yml`, the repo `.autofix.yml`,
+ * `.autofix.local.yml`, `AUTOFIX_*` environment variables, then CLI flags. A layer with errors is not applied.
+ */
+export async function readConfig(cwd: string, sources: ConfigSources = {}): Promise<LoadedConfig> {
+  const env = sources.env ?? process.env;
+  const issues: ConfigIssue[] = [];
+  const origins: Record<string, ConfigOrigin> = {};
+  const parsedFiles = new Map<string, ParsedConfigFile>();
+  const files: string[] = [];
+  let merged = mergeLayer({}, defaultConfig as unknown as Record<string, unknown>, { layer: "default" }, origins);
+  let overrides: Record<string, unknown> = {};
+  const apply = (values: Record<string, unknown>, origin: ConfigOrigin) => {
+    merged = mergeLayer(merged, values, origin, origins);
+    overrides = mergeLayer(overrides, values, origin, {});
+  };
+
+  const projectPath = await findUpward(cwd, ".autofix.yml");
+  const fileLayers: [ConfigLayer, string | null][] = [
+    ["user", path.join(sources.userConfigDir ?? userConfigDir(env), "config.yml")],
+    ["project", projectPath],
+    ["local", await findUpward(cwd, ".autofix.local.yml")],
+  ];
+  for (const [layer, file] of fileLayers) {
+    if (!file || !(await fileExists(file))) continue;
+    const relative = path.relative(cwd, file);
+    const display = relative.startsWith("..") ? file : relative;
+    const parsed = parseConfigFile(await readFile(file, "utf8"), display, configSchema);
+    issues.push(...parsed.issues);
+    parsedFiles.set(display, parsed);
+    files.push(file);
+    if (parsed.issues.length === 0 && isPlainObject(parsed.value)) apply(parsed.value, { layer, source: display });
+  }
+
+  const fromEnv = readEnvOverrides(env, configSchema);
+  // A stray variable (set for another tool, or a typo) is ignored with a warning rather than blocking every command.
+  for (const { name, suggestion } of fromEnv.unknown) {
+    issues.push({ level: "warning", path: "", file: name, message: `unknown setting, ignored${suggestion ? ` (did you mean ${suggestion}?)` : ""}` });
+  }
+  for (const override of fromEnv.overrides) {
+    const violations = validateValue(override.value, override.schema, override.keyPath);
+    issues.push(...violations.map((v): ConfigIssue => ({ level: "error", path: formatKeyPath(v.keyPath), message: v.message, file: override.name })));
+    if (violations.length === 0) apply(nest(override.keyPath, override.value), { layer: "env", source: override.name });
+  }
+
+  for (const { flag, keyPath, value } of flagOverrides(sources.flags)) apply(nest(keyPath, value), { layer: "cli", source: flag });
+
+  const { config, removed } = sanitizeConfig(merged as unknown as Config);
+  for (const r of removed) {
+    const origin = origins[formatKeyPath(r.keyPath.slice(0, -1))];
+    const message = `removed '${r.value}' (${r.reason})`;
+    const parsed = origin?.source ? parsedFiles.get(origin.source) : undefined;
+    issues.push(parsed ? parsed.issueAt(r.keyPath, "warning", message) : { level: "warning", path: formatKeyPath(r.keyPath), message, file: origin?.source });
+  }
+  return { config, path: projectPath, files, overrides: overrides as Partial<Config>, origins, issues };
+}
+
+/** Every resolved value with the layer that set it, in key order. */
+export function describeOrigins(loaded: LoadedConfig): { path: string; value: unknown; origin: ConfigOrigin }[] {
+  const out: { path: string; value: unknown; origin: ConfigOrigin }[] = [];
+  const walk = (value: unknown, keyPath: KeyPath) => {
+    if (isPlainObject(value)) {
+      for (const [key, child] of Object.entries(value)) walk(child, [...keyPath, key]);
+      return;
+    }
+    const key = formatKeyPath(keyPath);
+    out.push({ path: key, value, origin: loaded.origins[key] ?? { layer: "default" } });
+  };
+  walk(loaded.config, []);
+  return out;
 }
 
-export async function loadConfig(cwd: string): Promise<{ config: Config; path: string | null }> {
-  const cfgPath = await findConfigPath(cwd);
-  if (!cfgPath) return { config: defaultConfig, path: null };
-  const raw = await readFile(cfgPath, "utf8");
-  const user = parse(raw) as Partial<Config> | null;
-  if (!user || typeof user !== "object") return { config: defaultConfig, path: cfgPath };
-  const merged = mergeDeep(defaultConfig, user);
-  return { config: sanitizeConfig(merged), path: cfgPath };
+/** Load the layered config. Throws `ConfigError` when any layer is invalid. */
+export async function loadConfig(cwd: string, sources: ConfigSources = {}): Promise<LoadedConfig> {
+  const loaded = await readConfig(cwd, sources);
+  if (loaded.issues.some((issue) => issue.level === "error")) throw new ConfigError(loaded.issues);
+  return loaded;
 }
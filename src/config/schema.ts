@@ -0,0 +1,106 @@
+import type { Config, CustomStepConfig, CustomStepCondition } from "../types.js";
+
+/** The subset of JSON Schema (draft-07) used for `.autofix.yml`. */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export type JsonType = "object" | "array" | "string" | "integer" | "number" | "boolean";
+
+/** One schema per key of `T`; a key added to the `Config` types without a schema entry fails to compile. */
+type Properties<T> = { [K in keyof T]-?: JsonSchema };
+
+function object<T>(properties: Properties<T>, extra: JsonSchema = {}): JsonSchema {
+  return { type: "object", properties, additionalProperties: false, ...extra };
+}
+
+function list(items: JsonSchema, description?: string): JsonSchema {
+  return { type: "array", items, ...(description ? { description } : {}) };
+}
+
+const str: JsonSchema = { type: "string" };
+const bool: JsonSchema = { type: "boolean" };
+const count: JsonSchema = { type: "integer", minimum: 0 };
+const port: JsonSchema = { type: "integer", minimum: 1, maximum: 65535 };
+const pathList: JsonSchema = { type: ["string", "array"], items: str };
+const configCommands = list(str, "Commands without shell syntax whose first word is a known dev tool (ruff, pytest, npm, ...).");
+
+const customStep = object<CustomStepConfig>(
+  {
+    id: { type: "string", description: "Step id; the plan uses `custom-<id>`." },
+    title: str,
+    rationale: str,
+    phase: { enum: ["environment", "engines", "docker", "node", "python", "checks"], description: "Plan phase. Defaults to `checks`." },
+    when: object<CustomStepCondition>({
+      file_exists: pathList,
+      file_missing: pathList,
+      command_fails: { type: "string", description: "Runs while planning; the step applies when it exits non-zero." },
+    }),
+    commands: configCommands,
+    destructive: bool,
+    snapshot: list(str, "Paths snapshotted before the step runs."),
+  },
+  { required: ["id", "commands"] },
+);
+
+/** JSON Schema for `.autofix.yml`, published as `schema/autofix.schema.json` (see `npm run schema`). */
+export const configSchema: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "auto-fix configuration (.autofix.yml)",
+  ...object<Config>({
+    version: { type: "integer", enum: [1] },
+    ports: object<Config["ports"]>({ default: list(port), extra: list(port) }),
+    node: object<Config["node"]>({
+      package_manager: { enum: ["auto", "npm", "pnpm", "yarn"] },
+      deep_cleanup: object<Config["node"]["deep_cleanup"]>({ remove_node_modules: bool, remove_lockfile: bool }),
+      caches: object<Config["node"]["caches"]>({ next: bool, vite: bool, directories: list(str) }),
+    }),
+    python: object<Config["python"]>({
+      venv_path: str,
+      install: object<Config["python"]["install"]>({
+        prefer: { enum: ["uv", "pip", "poetry", "pdm", "pipenv", "auto"], description: "Installer for plain requirements files; projects managed by uv, Poetry, PDM or Pipenv use their own tool." },
+      }),
+      tools: object<Config["python"]["tools"]>({ format: configCommands, lint: configCommands, test: configCommands }),
+    }),
+    docker: object<Config["docker"]>({
+      compose_file: { ...pathList, description: "`auto` (COMPOSE_FILE, else the default file and its override file), or the compose files to use, in merge order." },
+      profiles: list(str, "Compose profiles to enable, in addition to COMPOSE_PROFILES."),
+      runtime: {
+        enum: ["auto", "docker", "docker-compose", "podman", "podman-compose", "nerdctl"],
+        description: "Compose implementation: `auto` probes docker compose, docker-compose, podman compose, podman-compose and nerdctl compose in that order.",
+      },
+      safe_down: bool,
+      rebuild: bool,
+      prune: bool,
+      snapshot_volumes: { type: "boolean", description: "Export named volumes to the snapshot store before a step deletes them, so `auto-fix undo` can re-import them." },
+      volume_snapshot_max_bytes: { ...count, description: "Volumes larger than this in total are not exported and the step is irreversible. 0 disables the limit." },
+    }),
+    checks: object<Config["checks"]>({ default: list({ enum: ["lint", "test", "format"] }) }),
+    output: object<Config["output"]>({
+      report_dir: str,
+      snapshot_dir: str,
+      log_dir: str,
+      verbosity: { enum: ["quiet", "normal", "verbose"] },
+      snapshot_policy: object<Config["output"]["snapshot_policy"]>({ max_bytes: count, archive_directories: bool }),
+      retention: object<Config["output"]["retention"]>({ max_runs: count, max_age_days: count, max_total_bytes: count }),
+    }),
+    timeouts: object<Config["timeouts"]>({
+      default_seconds: count,
+      subsystems: { type: "object", additionalProperties: count, description: "Seconds per subsystem (node, python, docker, plugin:<name>, ...)." },
+      steps: { type: "object", additionalProperties: count, description: "Seconds per step id." },
+    }),
+    execution: object<Config["execution"]>({ jobs: { type: "integer", minimum: 1 } }),
+    plugins: list(str, "Plugin modules: package names or paths relative to the project root."),
+    steps: list(customStep, "Project-specific repairs merged into the plan."),
+  }),
+};
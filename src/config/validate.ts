@@ -0,0 +1,182 @@
+import { LineCounter, isMap, isScalar, parseDocument } from "yaml";
+import type { Document } from "yaml";
+import type { JsonSchema, JsonType } from "./schema.js";
+
+export type KeyPath = (string | number)[];
+
+export interface ConfigIssue {
+  level: "error" | "warning";
+  /** Key path in the file, e.g. `python.install.prefer` or `python.tools.lint[1]`. Empty for file-level problems. */
+  path: string;
+  message: string;
+  /** Config file the issue was found in, relative to the working directory when possible. */
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export class ConfigError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    const errors = issues.filter((i) => i.level === "error");
+    super(`Invalid configuration (${errors.length} error(s)):\n${errors.map((i) => `  ${formatConfigIssue(i)}`).join("\n")}\nRun 'auto-fix config validate' after fixing it.`);
+    this.name = "ConfigError";
+  }
+}
+
+export interface SchemaViolation {
+  keyPath: KeyPath;
+  /** Point at the key itself (unknown keys) rather than its value. */
+  atKey?: boolean;
+  message: string;
+}
+
+export function formatKeyPath(keyPath: KeyPath): string {
+  return keyPath.reduce<string>((out, key) => (typeof key === "number" ? `${out}[${key}]` : out ? `${out}.${key}` : key), "");
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const location = [issue.file, issue.line, issue.column].filter((part) => part !== undefined).join(":");
+  const where = issue.path ? `${issue.path}: ` : "";
+  return `${location ? `${location}: ` : ""}${issue.level}: ${where}${issue.message}`;
+}
+
+/** Optimal string alignment distance: edits, with a swap of adjacent characters counting as one. */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/** The candidate closest to `input`, if it is close enough to be a likely typo. */
+export function closestMatch(input: string, candidates: string[]): string | undefined {
+  const limit = Math.max(1, Math.floor(input.length / 3));
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(input.toLowerCase(), candidate.toLowerCase());
+    if (distance <= limit && (!best || distance < best.distance)) best = { candidate, distance };
+  }
+  return best?.candidate;
+}
+
+function didYouMean(input: string, candidates: string[]): string {
+  const match = closestMatch(input, candidates);
+  return match ? ` (did you mean '${match}'?)` : "";
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+const TYPE_NAMES: Record<JsonType, string> = {
+  object: "a mapping",
+  array: "a list",
+  string: "a string",
+  integer: "an integer",
+  number: "a number",
+  boolean: "true or false",
+};
+
+/** Check `value` against `schema`, collecting every violation. */
+export function validateValue(value: unknown, schema: JsonSchema, keyPath: KeyPath = [], out: SchemaViolation[] = []): SchemaViolation[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      out.push({ keyPath, message: `expected ${types.map((t) => TYPE_NAMES[t]).join(" or ")}, got ${typeOf(value)}` });
+      return out;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    const hint = typeof value === "string" ? didYouMean(value, schema.enum.map(String)) : "";
+    out.push({ keyPath, message: `must be one of ${schema.enum.join(", ")}; got '${String(value)}'${hint}` });
+    return out;
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) out.push({ keyPath, message: `must be at least ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) out.push({ keyPath, message: `must be at most ${schema.maximum}` });
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateValue(item, schema.items as JsonSchema, [...keyPath, index], out));
+  }
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) out.push({ keyPath, message: `missing required key '${key}'` });
+    }
+    const known = Object.keys(schema.properties ?? {});
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) validateValue(child, childSchema, [...keyPath, key], out);
+      else if (schema.additionalProperties === false) out.push({ keyPath: [...keyPath, key], atKey: true, message: `unknown key '${key}'${didYouMean(key, known)}` });
+      else if (typeof schema.additionalProperties === "object") validateValue(child, schema.additionalProperties, [...keyPath, key], out);
+    }
+  }
+  return out;
+}
+
+export interface ParsedConfigFile {
+  /** Parsed document, or null when the file is empty or could not be parsed. */
+  value: unknown;
+  /** YAML syntax errors and schema violations. */
+  issues: ConfigIssue[];
+  /** Build an issue pointing at a key path in this file. */
+  issueAt(keyPath: KeyPath, level: ConfigIssue["level"], message: string, atKey?: boolean): ConfigIssue;
+}
+
+function locate(doc: Document, lineCounter: LineCounter, keyPath: KeyPath, atKey: boolean): { line: number; column: number } | undefined {
+  let node: unknown;
+  if (atKey && keyPath.length > 0) {
+    const parent = keyPath.length > 1 ? doc.getIn(keyPath.slice(0, -1), true) : doc.contents;
+    const key = keyPath[keyPath.length - 1];
+    node = isMap(parent) ? parent.items.find((pair) => isScalar(pair.key) && pair.key.value === key)?.key : undefined;
+  } else {
+    node = keyPath.length > 0 ? doc.getIn(keyPath, true) : doc.contents;
+  }
+  const range = (node as { range?: [number, number, number] } | null | undefined)?.range;
+  if (!range) return undefined;
+  const pos = lineCounter.linePos(range[0]);
+  return { line: pos.line, column: pos.col };
+}
+
+/** Parse a YAML config file and validate it against `schema`, with line/column positions for every issue. */
+export function parseConfigFile(text: string, file: string, schema: JsonSchema): ParsedConfigFile {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter });
+  const issueAt = (keyPath: KeyPath, level: ConfigIssue["level"], message: string, atKey = false): ConfigIssue => ({
+    level,
+    path: formatKeyPath(keyPath),
+    message,
+    file,
+    ...locate(doc, lineCounter, keyPath, atKey),
+  });
+
+  if (doc.errors.length > 0) {
+    const issues = doc.errors.map((error): ConfigIssue => ({
+      level: "error",
+      path: "",
+      message: error.message.split("\n")[0],
+      file,
+      line: error.linePos?.[0].line,
+      column: error.linePos?.[0].col,
+    }));
+    return { value: null, issues, issueAt };
+  }
+
+  const value: unknown = doc.toJS();
+  if (value === null || value === undefined) return { value: null, issues: [], issueAt };
+  const issues = validateValue(value, schema).map((v) => issueAt(v.keyPath, "error", v.message, v.atKey));
+  return { value, issues, issueAt };
+}
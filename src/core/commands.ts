@@ -0,0 +1,97 @@
+import path from "node:path";
+import type { Command, StepCommand } from "../types.js";
+import { shellQuote } from "../utils/process.js";
+
+/** Allowlist pattern for safe characters in config command strings */
+const SAFE_CHARS_RE = /^[a-zA-Z0-9._\-/@:=*\s]+$/;
+
+/**
+ * REL-004: Known dev tool binaries. Config-sourced commands (e.g. `python.tools.*`)
+ * may only start with one of these.
+ */
+export const KNOWN_TOOL_BINARIES = new Set([
+  // Python formatters
+  "ruff", "black", "autopep8", "yapf", "isort", "pyink",
+  // Python linters
+  "flake8", "pylint", "pyflakes", "pydocstyle", "pycodestyle", "bandit", "vulture",
+  // Python type checkers
+  "mypy", "pyright", "pytype", "pyre",
+  // Python test runners
+  "pytest", "unittest", "nose2", "tox", "nox", "coverage",
+  // Python package managers (used as runner)
+  "pip", "uv", "poetry", "pipenv", "pdm",
+  // Python misc
+  "python", "python3", "pre-commit", "sphinx-build",
+  // Node tools
+  "npm", "npx", "pnpm", "yarn",
+]);
+
+/** System binaries used by built-in steps. Never accepted from config. */
+const SYSTEM_BINARIES = new Set(["rm", "lsof", "xargs", "kill", "docker", "docker-compose", "podman", "podman-compose", "nerdctl", "node"]);
+
+export function isPipeline(command: StepCommand): command is { pipe: Command[] } {
+  return "pipe" in command;
+}
+
+export function commandStages(command: StepCommand): Command[] {
+  return isPipeline(command) ? command.pipe : [command];
+}
+
+/** The binary a stage actually runs: the basename of `bin`, or the program `xargs` hands its input to. */
+function effectiveBinaries(stage: Command): string[] {
+  const bin = path.basename(stage.bin);
+  if (bin !== "xargs") return [bin];
+  const target = stage.args.find((arg) => !arg.startsWith("-"));
+  return target ? [bin, path.basename(target)] : [bin];
+}
+
+/**
+ * Check every stage of a command against the executor allowlist, plus any `extra` binaries
+ * the step's owner (a plugin) declared. Returns the first binary that is not allowed, or null when all are.
+ */
+export function findDisallowedBinary(command: StepCommand, extra: string[] = []): string | null {
+  for (const stage of commandStages(command)) {
+    for (const bin of effectiveBinaries(stage)) {
+      if (!KNOWN_TOOL_BINARIES.has(bin) && !SYSTEM_BINARIES.has(bin) && !extra.includes(bin)) return bin;
+    }
+  }
+  return null;
+}
+
+/** Human-readable shell rendering, for reports, verbose output and copy-pasteable hints. */
+export function formatCommand(command: StepCommand | string): string {
+  if (typeof command === "string") return command;
+  return commandStages(command)
+    .map((stage) => {
+      const env = Object.entries(stage.env ?? {}).map(([k, v]) => `${k}=${quoteIfNeeded(v)}`);
+      const line = [...env, stage.bin, ...stage.args.map(quoteIfNeeded)].join(" ");
+      return stage.cwd ? `(cd ${quoteIfNeeded(stage.cwd)} && ${line})` : line;
+    })
+    .join(" | ");
+}
+
+function quoteIfNeeded(value: string): string {
+  return /^[a-zA-Z0-9._\-/@:=+,%]+$/.test(value) ? value : shellQuote(value);
+}
+
+/**
+ * REL-004: Parse a config-sourced command string into argv.
+ * Two checks:
+ * 1. Character allowlist — rejects shell metacharacters (there is no shell to interpret them)
+ * 2. Binary allowlist — first token must be a known dev tool, named bare: a path such as
+ *    `./scripts/npm` would run whatever file is there under an allowlisted name
+ */
+export function parseConfigCommand(cmd: string): { command: Command | null; reason: string } {
+  if (!cmd || cmd.trim().length === 0) return { command: null, reason: "Empty command" };
+  if (!SAFE_CHARS_RE.test(cmd)) return { command: null, reason: "contains shell metacharacters" };
+
+  const [bin, ...args] = cmd.trim().split(/\s+/);
+  if (/[\\/]/.test(bin)) return { command: null, reason: `'${bin}' is a path; name the tool itself (e.g. '${path.basename(bin)}')` };
+  if (!KNOWN_TOOL_BINARIES.has(bin)) return { command: null, reason: `unrecognized tool '${bin}'` };
+  return { command: { bin, args }, reason: "" };
+}
+
+/** Path-only config values (cache directory names) share the character allowlist. */
+export function isSafeConfigPath(value: string): boolean {
+  return SAFE_CHARS_RE.test(value) && !value.includes("..");
+}
@@ -0,0 +1,211 @@
+import type { Command, ComposeResources, ComposeServiceStatus, ComposeStack, EnvDetection } from "../types.js";
+import { runCommand } from "../utils/process.js";
+import { runtimeCommands } from "./containerRuntime.js";
+import { composeCommand } from "./composeProject.js";
+
+/** The runtime is queried during detection, so each call gets a short time limit. */
+const QUERY_TIMEOUT_MS = 15_000;
+
+export interface ComposeContainer {
+  name: string;
+  service: string;
+  state: string;
+  health?: string;
+  exitCode?: number;
+  ports: string[];
+  image?: string;
+}
+
+interface PsEntry {
+  Name?: string;
+  Service?: string;
+  State?: string;
+  Health?: string;
+  ExitCode?: number;
+  Image?: string;
+  Publishers?: { URL?: string; TargetPort?: number; PublishedPort?: number; Protocol?: string }[] | null;
+}
+
+interface ConfigJson {
+  name?: string;
+  services?: Record<string, { ports?: { published?: string | number }[] }>;
+}
+
+async function query(cwd: string, command: Command): Promise<string | null> {
+  const result = await runCommand(command, cwd, { timeoutMs: QUERY_TIMEOUT_MS });
+  return result.success ? result.stdout : null;
+}
+
+/** `--format json` output: one array (Compose before 2.21) or one object per line. */
+function jsonValues(output: string): unknown[] {
+  const text = output.trim();
+  if (!text) return [];
+  if (text.startsWith("[")) return JSON.parse(text) as unknown[];
+  return text.split("\n").filter((line) => line.trim()).map((line) => JSON.parse(line) as unknown);
+}
+
+/** Parse `docker compose ps --format json`. Throws on malformed output. */
+export function parseComposePs(output: string): ComposeContainer[] {
+  return (jsonValues(output) as PsEntry[]).map((entry) => ({
+    name: entry.Name ?? "",
+    service: entry.Service ?? "",
+    state: (entry.State ?? "unknown").toLowerCase(),
+    health: entry.Health || undefined,
+    exitCode: entry.ExitCode,
+    image: entry.Image || undefined,
+    ports: (entry.Publishers ?? [])
+      .filter((publisher) => publisher.PublishedPort)
+      .map((p) => `${p.URL || "0.0.0.0"}:${p.PublishedPort}->${p.TargetPort}/${p.Protocol ?? "tcp"}`),
+  }));
+}
+
+function diagnose(service: string, container: ComposeContainer, published: number[], outdated: boolean): ComposeServiceStatus {
+  const status: ComposeServiceStatus = {
+    service,
+    container: container.name,
+    state: container.state,
+    health: container.health,
+    exitCode: container.exitCode,
+    ports: container.ports,
+    diagnosis: container.state,
+  };
+  switch (container.state) {
+    case "running": {
+      const unbound = published.filter((port) => !container.ports.some((binding) => binding.includes(`:${port}->`)));
+      if (container.health === "unhealthy") return { ...status, problem: "unhealthy", diagnosis: "running, health check failing" };
+      if (outdated) return { ...status, problem: "outdated-image", diagnosis: `running an outdated ${container.image} image` };
+      if (unbound.length > 0) return { ...status, problem: "port-unbound", diagnosis: `running, port ${unbound.join(", ")} not published` };
+      return { ...status, diagnosis: container.health ? `running, ${container.health}` : "running" };
+    }
+    case "restarting":
+      return { ...status, problem: "restarting", diagnosis: `restarting (last exit code ${container.exitCode ?? "unknown"})` };
+    case "exited":
+      // A clean exit is a finished one-off job (migrations, seeders), not a failure.
+      if (container.exitCode === 0) return { ...status, diagnosis: "exited (code 0)" };
+      return { ...status, problem: "stopped", diagnosis: `exited (code ${container.exitCode ?? "unknown"})` };
+    case "created":
+    case "dead":
+      return { ...status, problem: "stopped" };
+    default:
+      return status;
+  }
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12 };
+
+/** Bytes in a size as Docker prints it (`45.6kB`, `1.2GB`, `12kB (virtual 300MB)`); 0 when it does not parse. */
+export function parseDockerSize(text: string): number {
+  const match = /^\s*([\d.]+)\s*([kmgt]?b)\b/i.exec(text);
+  return match ? Math.round(Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()]) : 0;
+}
+
+/** Column lines of a `--format` listing; an unreachable daemon yields none. */
+function rows(output: string | null): string[][] {
+  return (output ?? "").split("\n").filter((line) => line.trim()).map((line) => line.trim().split("\t"));
+}
+
+/**
+ * Everything labelled with the project: containers (with their writable layer size), networks, volumes,
+ * and images carrying the label or Compose's `<project>-<service>` build name.
+ */
+async function projectResources(cwd: string, engine: string, project: string, containerRows: string[][]): Promise<ComposeResources> {
+  const label = `label=com.docker.compose.project=${project}`;
+  const [networks, volumes, labelled, built] = await Promise.all([
+    query(cwd, { bin: engine, args: ["network", "ls", "--filter", label, "--format", "{{.Name}}"] }),
+    query(cwd, { bin: engine, args: ["volume", "ls", "--filter", label, "--format", "{{.Name}}"] }),
+    query(cwd, { bin: engine, args: ["image", "ls", "--filter", label, "--format", "{{.ID}}\t{{.Size}}"] }),
+    query(cwd, { bin: engine, args: ["image", "ls", "--filter", `reference=${project}-*`, "--format", "{{.ID}}\t{{.Size}}"] }),
+  ]);
+  const images = new Map<string, number>();
+  for (const [id, size] of [...rows(labelled), ...rows(built)]) images.set(id, parseDockerSize(size ?? ""));
+  const containerBytes = containerRows.reduce((total, [, , size]) => total + parseDockerSize(size ?? ""), 0);
+  return {
+    containers: containerRows.map(([name]) => name),
+    networks: rows(networks).map(([name]) => name),
+    images: [...images.keys()],
+    volumes: rows(volumes).map(([name]) => name),
+    reclaimableBytes: containerBytes + [...images.values()].reduce((total, size) => total + size, 0),
+  };
+}
+
+/** Container name → image ID for the containers of the project, and image reference → current image ID. */
+async function imageIds(cwd: string, engine: string, containers: ComposeContainer[]): Promise<{ running: Map<string, string>; current: Map<string, string> }> {
+  const running = new Map<string, string>();
+  const current = new Map<string, string>();
+  const names = containers.filter((c) => c.image && !c.image.startsWith("sha256:")).map((c) => c.name);
+  if (names.length === 0) return { running, current };
+  const inspected = await query(cwd, { bin: engine, args: ["inspect", "--format", "{{.Name}}\t{{.Image}}", ...names] });
+  for (const line of inspected?.split("\n") ?? []) {
+    const [name, id] = line.trim().split("\t");
+    if (name && id) running.set(name.replace(/^\//, ""), id);
+  }
+  const refs = [...new Set(containers.map((c) => c.image).filter((image): image is string => Boolean(image)))];
+  await Promise.all(refs.map(async (ref) => {
+    const id = (await query(cwd, { bin: engine, args: ["image", "inspect", "--format", "{{.Id}}", ref] }))?.trim();
+    if (id) current.set(ref, id);
+  }));
+  return { running, current };
+}
+
+/**
+ * Read the live state of a compose project: every service's container state, health check and port
+ * bindings, whether it runs an image that has since been pulled or rebuilt, and containers left over from
+ * services that were removed from the compose files. Queries go through the detected runtime;
+ * `declaredServices` keeps containers of services behind an inactive profile from counting as orphans.
+ * Returns undefined when the runtime cannot be queried or lacks JSON output (`docker-compose` v1).
+ */
+export async function checkComposeHealth(cwd: string, docker: EnvDetection["docker"], declaredServices: string[] = []): Promise<ComposeStack | undefined> {
+  const { engine } = runtimeCommands(docker.runtime);
+  const [configOut, psOut] = await Promise.all([
+    query(cwd, composeCommand(docker, "config", "--format", "json")),
+    query(cwd, composeCommand(docker, "ps", "--all", "--format", "json")),
+  ]);
+  if (configOut === null || psOut === null) return undefined;
+  let config: ConfigJson;
+  let containers: ComposeContainer[];
+  try {
+    config = JSON.parse(configOut) as ConfigJson;
+    containers = parseComposePs(psOut);
+  } catch {
+    return undefined;
+  }
+  const project = config.name ?? "";
+  const defined = config.services ?? {};
+
+  const orphans: string[] = [];
+  let resources: ComposeResources | undefined;
+  if (project) {
+    const listed = rows(await query(cwd, { bin: engine, args: [
+      "ps", "--all", "--filter", `label=com.docker.compose.project=${project}`, "--size",
+      "--format", "{{.Names}}\t{{.Label \"com.docker.compose.service\"}}\t{{.Size}}",
+    ] }));
+    for (const [name, service] of listed) {
+      if (name && service && !(service in defined) && !declaredServices.includes(service)) orphans.push(name);
+    }
+    resources = await projectResources(cwd, engine, project, listed);
+  }
+
+  const { running, current } = await imageIds(cwd, engine, containers.filter((c) => c.state === "running"));
+  const services = Object.entries(defined).map(([service, definition]): ComposeServiceStatus => {
+    const published = (definition.ports ?? []).map((port) => Number(port.published)).filter((port) => Number.isInteger(port) && port > 0);
+    const statuses = containers
+      .filter((container) => container.service === service)
+      .map((container) => {
+        const ref = container.image;
+        const outdated = Boolean(ref && running.get(container.name) && current.get(ref) && running.get(container.name) !== current.get(ref));
+        return diagnose(service, container, published, outdated);
+      });
+    if (statuses.length === 0) return { service, state: "missing", ports: [], problem: "missing", diagnosis: "no container" };
+    return statuses.find((status) => status.problem) ?? statuses[0];
+  });
+  return { project, services, orphans, resources };
+}
+
+/** One issue line per service that needs attention, plus one for orphans. */
+export function composeIssues(stack: ComposeStack): string[] {
+  const issues = stack.services
+    .filter((status) => status.problem)
+    .map((status) => `docker compose service ${status.service}: ${status.diagnosis}`);
+  if (stack.orphans.length > 0) issues.push(`docker compose orphan containers: ${stack.orphans.join(", ")}`);
+  return issues;
+}
@@ -0,0 +1,121 @@
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import type { Command, Config, EnvDetection } from "../types.js";
+import { fileExists } from "../utils/fs.js";
+import { parseEnvValues } from "../utils/envFile.js";
+import { runtimeCommands } from "./containerRuntime.js";
+
+/** Compose's own lookup order for the default file and its override file. */
+const DEFAULT_FILES = ["compose.yaml", "compose.yml", "docker-compose.yml", "docker-compose.yaml"];
+const OVERRIDE_FILES = ["compose.override.yml", "compose.override.yaml", "docker-compose.override.yml", "docker-compose.override.yaml"];
+
+export interface ComposeProject {
+  /** Existing compose files, in the order Compose merges them. */
+  files: string[];
+  /** Configured files that do not exist. */
+  missing: string[];
+  projectName: string;
+  profiles: string[];
+  /** Every service declared in the files, including those behind an inactive profile. */
+  declaredServices: string[];
+}
+
+async function readText(target: string): Promise<string | null> {
+  try {
+    return await readFile(target, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+/** Compose's project name normalization: lowercase, only `a-z0-9_-`, starting with a letter or digit. */
+function normalizeProjectName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_-]/g, "").replace(/^[^a-z0-9]+/, "");
+}
+
+function splitList(value: string | undefined, separator: string): string[] {
+  return (value ?? "").split(separator).map((item) => item.trim()).filter(Boolean);
+}
+
+async function firstExisting(cwd: string, names: string[]): Promise<string | undefined> {
+  for (const name of names) {
+    if (await fileExists(path.join(cwd, name))) return name;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the compose files, project name and profiles the way `docker compose` would from `cwd`:
+ * `docker.compose_file` when it is not `auto`, else `COMPOSE_FILE`, else the default file plus its
+ * override file. The project name comes from `COMPOSE_PROJECT_NAME`, the files' top-level `name`, then the
+ * project directory; profiles from `COMPOSE_PROFILES` and `docker.profiles`. Variables are read from the
+ * environment first, then the project's `.env`. Returns undefined when no compose file exists.
+ */
+export async function resolveComposeProject(cwd: string, config: Config, env: NodeJS.ProcessEnv = process.env): Promise<ComposeProject | undefined> {
+  const dotenv = parseEnvValues((await readText(path.join(cwd, ".env"))) ?? "");
+  const lookup = (key: string): string | undefined => env[key] ?? dotenv[key];
+
+  // Partial configs (as in tests) may have no docker section.
+  const configured = config.docker?.compose_file ?? "auto";
+  const listed = (Array.isArray(configured) ? configured : [configured]).filter((file) => file !== "auto");
+  let candidates: string[];
+  if (listed.length > 0) {
+    candidates = listed;
+  } else if (lookup("COMPOSE_FILE")) {
+    candidates = splitList(lookup("COMPOSE_FILE"), lookup("COMPOSE_PATH_SEPARATOR") || path.delimiter);
+  } else {
+    const main = await firstExisting(cwd, DEFAULT_FILES);
+    if (!main) return undefined;
+    const override = await firstExisting(cwd, OVERRIDE_FILES);
+    candidates = override ? [main, override] : [main];
+  }
+
+  const files: string[] = [];
+  const missing: string[] = [];
+  for (const file of candidates) {
+    if (await fileExists(path.resolve(cwd, file))) files.push(file);
+    else missing.push(file);
+  }
+  if (files.length === 0) return undefined;
+
+  // Later files override the name; a name that still needs interpolation is left to Compose.
+  let declaredName: string | undefined;
+  const declaredServices = new Set<string>();
+  for (const file of files) {
+    let parsed: { name?: unknown; services?: unknown } | null;
+    try {
+      parsed = parseYaml((await readText(path.resolve(cwd, file))) ?? "") as { name?: unknown; services?: unknown } | null;
+    } catch {
+      continue;
+    }
+    if (typeof parsed?.name === "string" && !parsed.name.includes("$")) declaredName = parsed.name;
+    if (parsed?.services && typeof parsed.services === "object") {
+      for (const service of Object.keys(parsed.services)) declaredServices.add(service);
+    }
+  }
+  const projectDir = path.dirname(path.resolve(cwd, files[0]));
+  const projectName = normalizeProjectName(lookup("COMPOSE_PROJECT_NAME") || declaredName || path.basename(projectDir));
+
+  const profiles = [...new Set([...splitList(lookup("COMPOSE_PROFILES"), ","), ...(config.docker?.profiles ?? [])])];
+  return { files, missing, projectName, profiles, declaredServices: [...declaredServices] };
+}
+
+/**
+ * Arguments after the compose program that select the detected project (`-p`, each `-f` and each `--profile`),
+ * led by the runtime's compose subcommand: `compose -p ...` for `docker compose`, just `-p ...` for `docker-compose`.
+ */
+export function composeArgs(docker: EnvDetection["docker"]): string[] {
+  const files = docker.composeFiles ?? (docker.composeFile ? [docker.composeFile] : []);
+  return [
+    ...runtimeCommands(docker.runtime).compose.slice(1),
+    ...(docker.projectName ? ["-p", docker.projectName] : []),
+    ...files.flatMap((file) => ["-f", file]),
+    ...(docker.profiles ?? []).flatMap((profile) => ["--profile", profile]),
+  ];
+}
+
+/** A compose command for the detected project and runtime, e.g. `podman compose -p shop -f compose.yaml up -d`. */
+export function composeCommand(docker: EnvDetection["docker"], ...args: string[]): Command {
+  return { bin: runtimeCommands(docker.runtime).compose[0], args: [...composeArgs(docker), ...args] };
+}
@@ -0,0 +1,46 @@
+import type { Config, ContainerRuntime } from "../types.js";
+import { runCommand } from "../utils/process.js";
+
+interface RuntimeCommands {
+  /** CLI for containers, images and volumes. */
+  engine: string;
+  /** Program and leading arguments that run compose. */
+  compose: string[];
+}
+
+/** In probe order: Docker's plugin first, then the legacy v1 binary, then the Docker-compatible alternatives. */
+const RUNTIMES: Record<ContainerRuntime, RuntimeCommands> = {
+  docker: { engine: "docker", compose: ["docker", "compose"] },
+  "docker-compose": { engine: "docker", compose: ["docker-compose"] },
+  podman: { engine: "podman", compose: ["podman", "compose"] },
+  "podman-compose": { engine: "podman", compose: ["podman-compose"] },
+  nerdctl: { engine: "nerdctl", compose: ["nerdctl", "compose"] },
+};
+
+const PROBE_TIMEOUT_MS = 10_000;
+
+/** Commands for a runtime; reports written before runtimes were detected (or with none installed) use Docker's. */
+export function runtimeCommands(runtime: ContainerRuntime | undefined): RuntimeCommands {
+  return RUNTIMES[runtime ?? "docker"];
+}
+
+/** How a runtime is shown to the user, e.g. `podman compose`. */
+export function runtimeLabel(runtime: ContainerRuntime): string {
+  return RUNTIMES[runtime].compose.join(" ");
+}
+
+/**
+ * The compose implementation to generate steps for: the one `docker.runtime` names, or with `auto` the first
+ * whose `version` subcommand succeeds. Returns undefined when it (or every candidate) is not installed.
+ */
+export async function detectContainerRuntime(cwd: string, config: Config): Promise<ContainerRuntime | undefined> {
+  // Partial configs (as in tests) may have no docker section.
+  const configured = config.docker?.runtime ?? "auto";
+  const candidates = configured === "auto" ? (Object.keys(RUNTIMES) as ContainerRuntime[]) : [configured];
+  for (const runtime of candidates) {
+    const [bin, ...args] = RUNTIMES[runtime].compose;
+    const result = await runCommand({ bin, args: [...args, "version"] }, cwd, { timeoutMs: PROBE_TIMEOUT_MS });
+    if (result.success) return runtime;
+  }
+  return undefined;
+}
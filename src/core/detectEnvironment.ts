@@ -1,8 +1,13 @@
 import path from "node:path";
 import { readFile } from "node:fs/promises";
 import { parse as parseYaml } from "yaml";
-import type { Config, EnvDetection } from "../types.js";
+import type { Config, EnvDetection, PythonManager, WorkspacePackage } from "../types.js";
 import { fileExists } from "../utils/fs.js";
+import { discoverWorkspacePackages } from "./workspaces.js";
+import { checkVenvHealth } from "./venvHealth.js";
+import { checkComposeHealth, composeIssues } from "./composeHealth.js";
+import { resolveComposeProject } from "./composeProject.js";
+import { detectContainerRuntime, runtimeLabel } from "./containerRuntime.js";
 
 async function detectPackageManager(cwd: string): Promise<"npm" | "pnpm" | "yarn" | "unknown"> {
   if (await fileExists(path.join(cwd, "pnpm-lock.yaml"))) return "pnpm";
@@ -11,6 +16,38 @@ async function detectPackageManager(cwd: string): Promise<"npm" | "pnpm" | "yarn
   return "unknown";
 }
 
+/** `pyproject.toml` build backends that imply a dependency manager. */
+const BUILD_BACKEND_MANAGERS: [RegExp, PythonManager][] = [
+  [/^poetry\./, "poetry"],
+  [/^pdm\./, "pdm"],
+  [/^uv_build\b/, "uv"],
+];
+
+/**
+ * The tool managing a Python project's dependencies. Lockfiles win, then `Pipfile`, then
+ * `[tool.poetry]` / `[tool.pdm]` / `[tool.uv]` sections and the build backend.
+ */
+async function detectPythonManager(cwd: string): Promise<{ manager?: PythonManager; lockfile?: string }> {
+  const lockfiles: [string, PythonManager][] = [["uv.lock", "uv"], ["poetry.lock", "poetry"], ["pdm.lock", "pdm"], ["Pipfile.lock", "pipenv"]];
+  for (const [lockfile, manager] of lockfiles) {
+    if (await fileExists(path.join(cwd, lockfile))) return { manager, lockfile };
+  }
+  if (await fileExists(path.join(cwd, "Pipfile"))) return { manager: "pipenv" };
+  let pyproject: string;
+  try {
+    pyproject = await readFile(path.join(cwd, "pyproject.toml"), "utf8");
+  } catch {
+    return {};
+  }
+  const sections = new Set([...pyproject.matchAll(/^\[tool\.(poetry|pdm|uv)[\].]/gm)].map((m) => m[1] as PythonManager));
+  for (const manager of ["poetry", "pdm", "uv"] as const) {
+    if (sections.has(manager)) return { manager };
+  }
+  const backend = /^build-backend\s*=\s*["']([^"']+)["']/m.exec(pyproject)?.[1];
+  const fromBackend = backend ? BUILD_BACKEND_MANAGERS.find(([pattern]) => pattern.test(backend))?.[1] : undefined;
+  return fromBackend ? { manager: fromBackend } : {};
+}
+
 async function detectLockfileCorruption(cwd: string): Promise<boolean> {
   const pkgLock = path.join(cwd, "package-lock.json");
   if (await fileExists(pkgLock)) {
@@ -31,7 +68,8 @@ async function detectLockfileCorruption(cwd: string): Promise<boolean> {
   return false;
 }
 
-export async function detectEnvironment(cwd: string, config: Config): Promise<EnvDetection> {
+/** `env` holds the `COMPOSE_*` variables that apply to this directory; only the invoking directory gets the process's. */
+async function detectDirectory(cwd: string, config: Config, env: NodeJS.ProcessEnv): Promise<EnvDetection> {
   const packageJsonPath = path.join(cwd, "package.json");
   const hasPackage = await fileExists(packageJsonPath);
 
@@ -55,19 +93,28 @@ export async function detectEnvironment(cwd: string, config: Config): Promise<En
     }
   }
 
-  const requirements =
-    (await fileExists(path.join(cwd, "requirements.txt"))) ||
-    (await fileExists(path.join(cwd, "requirements-dev.txt")));
+  const requirementsFiles: string[] = [];
+  for (const name of ["requirements.txt", "requirements-dev.txt"]) {
+    if (await fileExists(path.join(cwd, name))) requirementsFiles.push(name);
+  }
+  const requirements = requirementsFiles.length > 0;
+  const { manager: pythonManager, lockfile: pythonLockfile } = await detectPythonManager(cwd);
   const hasPyproject = await fileExists(path.join(cwd, "pyproject.toml"));
   const venvPath = path.join(cwd, config.python.venv_path);
   const venvExists = await fileExists(venvPath);
 
-  const composeCandidates = ["docker-compose.yml", "compose.yml", "docker-compose.yaml", "compose.yaml"];
-  const composeFile = (
-    await Promise.all(
-      composeCandidates.map(async (name) => ((await fileExists(path.join(cwd, name))) ? name : null)),
-    )
-  ).find((v) => Boolean(v)) ?? undefined;
+  const composeProject = await resolveComposeProject(cwd, config, env);
+  const composeFile = composeProject?.files[0];
+  const docker: EnvDetection["docker"] = composeProject
+    ? {
+      detected: true,
+      composeFile,
+      composeFiles: composeProject.files,
+      projectName: composeProject.projectName,
+      profiles: composeProject.profiles,
+      runtime: await detectContainerRuntime(cwd, config),
+    }
+    : { detected: false };
 
   const lockfileCandidates = ["package-lock.json", "pnpm-lock.yaml", "yarn.lock"];
   const lockfiles = (
@@ -92,8 +139,21 @@ export async function detectEnvironment(cwd: string, config: Config): Promise<En
 
   const issues: string[] = [];
   if (hasPackage && !(await fileExists(path.join(cwd, "node_modules")))) issues.push("node_modules directory missing");
-  if ((hasPyproject || requirements) && !venvExists) issues.push("python virtual environment missing");
-  if (composeFile) issues.push("docker compose project detected (state may require refresh)");
+  const pythonDetected = hasPyproject || requirements || pythonManager === "pipenv";
+  if (pythonDetected && !venvExists) issues.push("python virtual environment missing");
+  const venvProblems = pythonDetected && venvExists ? await checkVenvHealth(cwd, config.python.venv_path) : [];
+  issues.push(...venvProblems.map((problem) => problem.message));
+  for (const file of composeProject?.missing ?? []) issues.push(`compose file ${file} not found`);
+  if (composeProject && !docker.runtime) {
+    const forced = config.docker?.runtime && config.docker.runtime !== "auto" ? config.docker.runtime : undefined;
+    issues.push(forced
+      ? `docker.runtime is ${forced} but \`${runtimeLabel(forced)}\` is not available`
+      : "no container runtime found: install Docker, Podman or nerdctl with compose support, or set docker.runtime");
+  }
+  docker.stack = composeProject && docker.runtime ? await checkComposeHealth(cwd, docker, composeProject.declaredServices) : undefined;
+  const stack = docker.stack;
+  if (stack) issues.push(...composeIssues(stack));
+  else if (composeFile && docker.runtime) issues.push("docker compose project detected (state may require refresh)");
   if (lockfileCorrupted) issues.push("lockfile appears corrupted; frozen installs likely to fail");
   if (hasEnvExample && !hasEnv) issues.push(".env file missing but .env.example exists");
 
@@ -109,15 +169,41 @@ export async function detectEnvironment(cwd: string, config: Config): Promise<En
       packageScripts: scripts,
     },
     python: {
-      detected: hasPyproject || requirements,
+      detected: pythonDetected,
       hasPyproject,
       hasRequirements: requirements,
       venvPath: config.python.venv_path,
       venvExists,
+      manager: pythonManager,
+      lockfile: pythonLockfile,
+      requirementsFiles,
+      venvProblems,
     },
-    docker: { detected: Boolean(composeFile), composeFile },
+    docker,
     environment: { hasEnv, hasEnvExample },
     engines: { nodeVersionFile, pythonVersionFile },
     issues,
   };
 }
+
+/**
+ * Detect the project at `cwd` and every workspace member below it.
+ * Member issues are also surfaced on the root, prefixed with the package name.
+ */
+export async function detectEnvironment(cwd: string, config: Config): Promise<EnvDetection> {
+  const root = await detectDirectory(cwd, config, process.env);
+  const discovered = await discoverWorkspacePackages(cwd, config);
+  if (discovered.length === 0) return root;
+
+  const packages: WorkspacePackage[] = [];
+  for (const pkg of discovered) {
+    // Compose applies COMPOSE_FILE, COMPOSE_PROFILES and COMPOSE_PROJECT_NAME to the directory it runs in,
+    // so members resolve their own compose project from their files and `.env` alone.
+    const detection = await detectDirectory(path.join(cwd, pkg.path), config, {});
+    // Hoisted installs mean members rarely have their own node_modules.
+    if (pkg.managedByRoot) detection.issues = detection.issues.filter((i) => i !== "node_modules directory missing");
+    packages.push({ ...pkg, detection });
+    root.issues.push(...detection.issues.map((issue) => `${pkg.name}: ${issue}`));
+  }
+  return { ...root, packages };
+}
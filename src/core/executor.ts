@@ -1,11 +1,17 @@
 import path from "node:path";
 import readline from "node:readline/promises";
 import { setTimeout as sleep } from "node:timers/promises";
-import type { CommandContext, FixStep } from "../types.js";
+import type { CommandContext, Config, FileChange, FixStep, StepCommand } from "../types.js";
 import type { StepHooks } from "../ui/renderer.js";
-import { runShellCommand } from "../utils/process.js";
+import { runCommand } from "../utils/process.js";
+import { commandStages, findDisallowedBinary, formatCommand } from "./commands.js";
+import { actionTargets, describeAction, runFileAction } from "./fileActions.js";
+import { openStepLog } from "./stepLog.js";
+import { buildDependencyGraph } from "./graph.js";
 import { canAutoRunDestructive, shouldPromptForDestructive } from "./safety.js";
-import { snapshotPathsForStep } from "./snapshots.js";
+import { captureVolumes } from "./volumeSnapshots.js";
+import { captureSnapshot, measureSnapshot } from "./snapshots.js";
+import { formatBytes, hashFile } from "../utils/fs.js";
 
 async function askConfirmation(question: string): Promise<boolean> {
   const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
@@ -15,13 +21,29 @@ async function askConfirmation(question: string): Promise<boolean> {
 }
 
 function snapshotCandidates(step: FixStep): string[] {
-  if (step.id.includes("lockfiles")) return ["package-lock.json", "pnpm-lock.yaml", "yarn.lock"];
+  if (step.id.includes("lockfiles")) {
+    return ["package-lock.json", "pnpm-lock.yaml", "yarn.lock"].map((f) => (step.cwd ? path.posix.join(step.cwd, f) : f));
+  }
   return [];
 }
 
-async function verifyPortsReleased(cwd: string, commands: string[]): Promise<{ ok: boolean; details: string }> {
+async function hashTargets(cwd: string, targets: string[]): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const target of targets) {
+    const hash = await hashFile(path.join(cwd, target));
+    if (hash) hashes[target] = hash;
+  }
+  return hashes;
+}
+
+function lsof(port: string): StepCommand {
+  return { bin: "lsof", args: ["-ti", `:${port}`] };
+}
+
+async function verifyPortsReleased(cwd: string, commands: StepCommand[]): Promise<{ ok: boolean; details: string }> {
   const ports = commands
-    .map((c) => c.match(/:(\d+)/)?.[1])
+    .flatMap((c) => commandStages(c).flatMap((stage) => stage.args))
+    .map((arg) => arg.match(/^:(\d+)$/)?.[1])
     .filter((v): v is string => Boolean(v));
 
   const maxMs = 2000;
@@ -29,7 +51,7 @@ async function verifyPortsReleased(cwd: string, commands: string[]): Promise<{ o
   let elapsed = 0;
 
   while (elapsed <= maxMs) {
-    const checks = await Promise.all(ports.map((p) => runShellCommand(`lsof -ti :${p}`, cwd)));
+    const checks = await Promise.all(ports.map((p) => runCommand(lsof(p), cwd)));
     const busy = checks
       .map((result, idx) => ({ port: ports[idx], pids: result.stdout.trim().split(/\s+/).filter(Boolean) }))
       .filter((x) => x.pids.length > 0);
@@ -42,108 +64,350 @@ async function verifyPortsReleased(cwd: string, commands: string[]): Promise<{ o
     elapsed += intervalMs;
   }
 
-  const remaining = await Promise.all(ports.map((p) => runShellCommand(`lsof -ti :${p}`, cwd)));
+  const remaining = await Promise.all(ports.map((p) => runCommand(lsof(p), cwd)));
   const detail = remaining
     .map((r, i) => `${ports[i]}: ${r.stdout.trim() || "none"}`)
     .join(", ");
   return { ok: false, details: `remaining pid(s) -> ${detail}. Try: lsof -ti :<port> | xargs kill -9` };
 }
 
-export async function executeSteps(
+/** Writes streamed output to stdout, prefixing each line (pass "" to write chunks through as-is). */
+function lineWriter(prefix: string): { write(chunk: string): void; flush(): void } {
+  let pending = "";
+  return {
+    write(chunk) {
+      if (!prefix) {
+        process.stdout.write(chunk);
+        return;
+      }
+      const lines = (pending + chunk).split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines) process.stdout.write(`${prefix}${line}\n`);
+    },
+    flush() {
+      if (pending) process.stdout.write(`${prefix}${pending}\n`);
+      pending = "";
+    },
+  };
+}
+
+function interruptName(signal: AbortSignal | undefined): string {
+  return typeof signal?.reason === "string" ? signal.reason : "signal";
+}
+
+export interface ExecuteOptions {
+  snapshotPolicy?: Config["output"]["snapshot_policy"];
+  /** Absolute log directory; each step's output goes to `<logDir>/<runId>/<stepId>.log`. */
+  logDir?: string;
+  timeouts?: Config["timeouts"];
+  /** Maximum number of steps running at once. Defaults to 1. */
+  jobs?: number;
+  /** Extra allowlisted binaries by subsystem (plugins declare theirs in `AutoFixPlugin.binaries`). */
+  allowedBinaries?: Record<string, string[]>;
+  /** Export `FixStep.volumes` before the step runs (`docker.snapshot_volumes`); unset leaves volumes alone. */
+  volumeSnapshots?: { maxBytes: number };
+  /** Receives each step's state object as the step is picked up; it is updated in place until the step ends. */
+  onStepState?: (step: FixStep) => void;
+}
+
+/** Resolve a step's time limit: step id (with or without its `@package` suffix), then subsystem, then default. */
+function resolveTimeout(step: FixStep, timeouts: Config["timeouts"] | undefined): { seconds: number; source: string } {
+  if (!timeouts) return { seconds: 0, source: "" };
+  const baseId = step.id.split("@")[0];
+  for (const id of [step.id, baseId]) {
+    const value = timeouts.steps?.[id];
+    if (typeof value === "number") return { seconds: value, source: `timeouts.steps.${id}` };
+  }
+  const bySubsystem = timeouts.subsystems?.[step.subsystem];
+  if (typeof bySubsystem === "number") return { seconds: bySubsystem, source: `timeouts.subsystems.${step.subsystem}` };
+  return { seconds: timeouts.default_seconds ?? 0, source: "timeouts.default_seconds" };
+}
+
+async function runStep(
   ctx: CommandContext,
-  steps: FixStep[],
+  step: FixStep,
   snapshotDir: string,
-  hooks?: StepHooks,
-): Promise<FixStep[]> {
-  const output: FixStep[] = [];
-  const confirmFn = hooks?.onConfirm ?? askConfirmation;
+  hooks: StepHooks | undefined,
+  options: ExecuteOptions,
+  confirm: (question: string) => Promise<boolean>,
+): Promise<FixStep> {
+  const { snapshotPolicy } = options;
+  const current = { ...step };
+  options.onStepState?.(current);
 
-  for (const step of steps) {
-    const current = { ...step };
+  if (ctx.flags.verbose) console.log(`[phase:${step.phase}] ${step.title}`);
 
-    if (ctx.flags.verbose) console.log(`[phase:${step.phase}] ${step.title}`);
+  if (ctx.command === "doctor" || ctx.command === "plan" || ctx.flags.dryRun) {
+    current.status = step.status === "proposed" ? "proposed" : "planned";
+    return current;
+  }
 
-    if (ctx.command === "doctor" || ctx.command === "plan" || ctx.flags.dryRun) {
-      current.status = step.status === "proposed" ? "proposed" : "planned";
-      output.push(current);
-      continue;
-    }
+  if (ctx.signal?.aborted) {
+    current.status = "skipped";
+    current.skippedReason = `Not run: interrupted by ${interruptName(ctx.signal)}`;
+    return current;
+  }
 
-    if (step.destructive && !canAutoRunDestructive(ctx)) {
-      if (shouldPromptForDestructive(ctx, step)) {
-        const ok = await confirmFn(`Run destructive step: ${step.title}?`);
-        if (!ok) {
-          current.status = "proposed";
-          current.proposedReason = "Needs explicit approval";
-          hooks?.onStepEnd(current);
-          output.push(current);
-          continue;
-        }
-      } else {
+  // Steps proposed at plan time (advice, rejected config commands, invalid plugin steps) are reported, never run.
+  if (step.status === "proposed") {
+    hooks?.onStepEnd(current);
+    return current;
+  }
+
+  if (step.confirmation) {
+    const ok = ctx.interactive && (await confirm(step.confirmation));
+    if (!ok) {
+      current.status = "proposed";
+      current.proposedReason = ctx.interactive ? "Not confirmed" : "Non-interactive mode: needs confirmation in a terminal";
+      hooks?.onStepEnd(current);
+      return current;
+    }
+  } else if (step.destructive && !canAutoRunDestructive(ctx)) {
+    if (shouldPromptForDestructive(ctx, step)) {
+      const ok = await confirm(`Run destructive step: ${step.title}?`);
+      if (!ok) {
         current.status = "proposed";
-        current.proposedReason = ctx.interactive
-          ? "Needs --deep or --approve"
-          : "Non-interactive mode: destructive step skipped";
+        current.proposedReason = "Needs explicit approval";
         hooks?.onStepEnd(current);
-        output.push(current);
-        continue;
+        return current;
       }
+    } else {
+      current.status = "proposed";
+      current.proposedReason = ctx.interactive
+        ? "Needs --deep or --approve"
+        : "Non-interactive mode: destructive step skipped";
+      hooks?.onStepEnd(current);
+      return current;
     }
+  }
 
-    current.status = "running";
-    hooks?.onStepStart(current);
+  current.status = "running";
+  current.startedAt = new Date().toISOString();
+  hooks?.onStepStart(current);
 
-    if (step.destructive || (step.snapshotPaths && step.snapshotPaths.length > 0)) {
-      const candidates = step.destructive ? snapshotCandidates(step) : step.snapshotPaths ?? [];
-      const snaps = await snapshotPathsForStep(ctx.cwd, path.join(snapshotDir, ctx.runId), step.id, candidates);
-      current.snapshotPaths = snaps;
+  // File actions are snapshotted automatically, including targets that do not exist yet.
+  const actionPaths = (step.actions ?? []).flatMap(actionTargets).map((p) => (step.cwd ? path.posix.join(step.cwd, p) : p));
+  let snapshotTargets: string[] = [];
+  if (step.destructive || (step.snapshotPaths && step.snapshotPaths.length > 0) || actionPaths.length > 0) {
+    snapshotTargets = [...new Set([...(step.snapshotPaths ?? []), ...(step.destructive ? snapshotCandidates(step) : []), ...actionPaths])];
+    const maxBytes = snapshotPolicy?.max_bytes ?? 0;
+    const measured = maxBytes > 0 ? await measureSnapshot(ctx.cwd, snapshotTargets) : 0;
+    if (maxBytes > 0 && measured > maxBytes) {
+      // PRD v1.1 §12.2: over-limit snapshots are skipped and the step is reported as irreversible.
+      current.undoable = false;
+      current.irreversible = true;
+      current.irreversibleReason = `snapshot skipped: ${snapshotTargets.join(", ")} is ${formatBytes(measured)}, over the ${formatBytes(maxBytes)} snapshot limit`;
+      current.snapshotPaths = [];
+      snapshotTargets = [];
+    } else {
+      const manifest = await captureSnapshot(ctx.cwd, snapshotDir, snapshotTargets, {
+        archiveDirectories: snapshotPolicy?.archive_directories ?? true,
+        recordMissing: true,
+      });
+      current.snapshot = manifest;
+      current.snapshotPaths = [...new Set(manifest.entries.map((e) => e.path))];
+      // Undo coverage is what was actually captured, not what the step declared.
+      current.undoable = manifest.entries.length > 0;
+      if (!current.undoable && step.destructive && (step.snapshotPaths?.length ?? 0) > 0) {
+        current.irreversible = true;
+        current.irreversibleReason = `nothing captured for ${step.snapshotPaths?.join(", ")}`;
+      }
     }
+  }
 
-    let failed = false;
-    const commandOutputs: string[] = [];
-    for (const command of step.commands) {
-      if (ctx.flags.verbose) console.log(`  \u25B8 ${command}`);
-      const result = await runShellCommand(command, ctx.cwd);
-      commandOutputs.push(`$ ${command}\n${result.stdout}${result.stderr}`.trim());
-      if (ctx.flags.verbose) {
-        if (result.stdout) console.log(result.stdout.trimEnd());
-        if (result.stderr) console.error(result.stderr.trimEnd());
+  // Volumes are exported before anything deletes them; a failed export stops the step rather than lose data.
+  if (step.volumes?.length && options.volumeSnapshots) {
+    try {
+      const captured = await captureVolumes(ctx.cwd, step.containerEngine ?? "docker", snapshotDir, step.volumes, options.volumeSnapshots.maxBytes);
+      if ("skipped" in captured) {
+        current.undoable = false;
+        current.irreversible = true;
+        current.irreversibleReason = captured.skipped;
+      } else {
+        current.snapshot = { store: snapshotDir, entries: [...(current.snapshot?.entries ?? []), ...captured.entries] };
+        current.undoable = true;
       }
-      if (!result.success) {
+    } catch (error) {
+      current.status = "failed";
+      current.error = `Volume snapshot failed, nothing was removed: ${(error as Error).message}`;
+      current.finishedAt = new Date().toISOString();
+      hooks?.onStepEnd(current);
+      return current;
+    }
+  }
+
+  let failed = false;
+  let blocked: string | null = null;
+  let timedOut = false;
+  let interrupted = false;
+  const commandOutputs: string[] = [];
+  const stepCwd = step.cwd ? path.resolve(ctx.cwd, step.cwd) : ctx.cwd;
+  const timeout = resolveTimeout(step, options.timeouts);
+  const deadline = timeout.seconds > 0 ? Date.now() + timeout.seconds * 1000 : 0;
+  const log = options.logDir && step.commands.length > 0 ? await openStepLog(options.logDir, ctx.runId, step.id) : null;
+  if (log) current.logPath = path.relative(ctx.cwd, log.path).split(path.sep).join("/");
+  // With several steps in flight, verbose output is labelled line by line so it can be told apart.
+  const echo = ctx.flags.verbose ? lineWriter((options.jobs ?? 1) > 1 ? `[${step.id}] ` : "") : null;
+
+  for (const command of step.commands) {
+    if (ctx.flags.verbose) console.log(`  \u25B8 ${formatCommand(command)}`);
+    log?.write(`$ ${formatCommand(command)}\n`);
+    // REL-004: single allowlist gate, checked against the binary each stage actually runs
+    const disallowed = findDisallowedBinary(command, options.allowedBinaries?.[step.subsystem]);
+    if (disallowed) {
+      blocked = disallowed;
+      failed = true;
+      commandOutputs.push(`$ ${formatCommand(command)}\nblocked: '${disallowed}' is not an allowed binary`);
+      log?.write(`blocked: '${disallowed}' is not an allowed binary\n`);
+      break;
+    }
+    const result = await runCommand(command, stepCwd, {
+      timeoutMs: deadline ? Math.max(deadline - Date.now(), 1) : 0,
+      signal: ctx.signal,
+      onOutput: (chunk) => {
+        log?.write(chunk);
+        echo?.write(chunk);
+        hooks?.onStepOutput?.(current, chunk);
+      },
+    });
+    echo?.flush();
+    log?.write(`\n[exit ${result.code}${result.timedOut ? ", timed out" : result.interrupted ? ", interrupted" : ""}]\n\n`);
+    commandOutputs.push(`$ ${formatCommand(command)}\n${result.stdout}${result.stderr}`.trim());
+    if (!result.success) {
+      failed = true;
+      timedOut = Boolean(result.timedOut);
+      interrupted = Boolean(result.interrupted);
+      break;
+    }
+  }
+  await log?.close();
+
+  let actionError: string | null = null;
+  if (!failed && step.actions && step.actions.length > 0) {
+    const changes: FileChange[] = [];
+    for (const action of step.actions) {
+      if (ctx.flags.verbose) console.log(`  \u25B8 ${describeAction(action)}`);
+      try {
+        const change = await runFileAction(stepCwd, action);
+        changes.push(change);
+        const keys = change.keys?.length ? ` (${change.keys.join(", ")})` : "";
+        commandOutputs.push(`~ ${describeAction(action)}\n${change.changed ? `changed ${change.path}${keys}` : `unchanged ${change.path}${change.note ? ` (${change.note})` : ""}`}`);
+      } catch (error) {
+        actionError = (error as Error).message;
+        commandOutputs.push(`~ ${describeAction(action)}\n${actionError}`);
         failed = true;
         break;
       }
     }
+    current.fileChanges = changes;
+  }
 
-    if (!failed && step.id === "ports-cleanup") {
-      const portCheck = await verifyPortsReleased(ctx.cwd, step.commands);
-      if (!portCheck.ok) {
-        current.status = "failed";
-        current.error = portCheck.details;
-        current.output = commandOutputs.join("\n\n");
-        hooks?.onStepEnd(current);
-        output.push(current);
-        continue;
-      }
-      commandOutputs.push(portCheck.details);
+  if (!failed && step.id === "ports-cleanup") {
+    const portCheck = await verifyPortsReleased(ctx.cwd, step.commands);
+    if (!portCheck.ok) {
+      current.status = "failed";
+      current.error = portCheck.details;
+      current.output = commandOutputs.join("\n\n");
+      current.finishedAt = new Date().toISOString();
+      hooks?.onStepEnd(current);
+      return current;
     }
+    commandOutputs.push(portCheck.details);
+  }
 
-    current.output = commandOutputs.join("\n\n");
-    if (failed) {
-      current.status = "failed";
-      const combinedOutput = commandOutputs.join(" ");
-      if (/EPERM|EBUSY|EACCES/.test(combinedOutput) && (step.subsystem === "node" || step.phase === "node")) {
-        current.error = "Permission/lock error (EPERM/EBUSY). Close your IDE, dev servers, or file watchers and retry.";
-      } else {
-        current.error = "One or more commands failed";
-      }
+  current.output = commandOutputs.join("\n\n");
+  if (interrupted) {
+    // The snapshot taken above stays with the step, so undo can still roll back what it started.
+    current.status = "partial";
+    current.error = `Interrupted by ${interruptName(ctx.signal)}`;
+  } else if (failed) {
+    current.status = "failed";
+    const combinedOutput = commandOutputs.join(" ");
+    if (blocked) {
+      current.error = `Blocked: '${blocked}' is not on the command allowlist`;
+    } else if (timedOut) {
+      current.error = `Timed out after ${timeout.seconds}s (${timeout.source})`;
+    } else if (actionError) {
+      current.error = actionError;
+    } else if (/EPERM|EBUSY|EACCES/.test(combinedOutput) && (step.subsystem === "node" || step.phase === "node")) {
+      current.error = "Permission/lock error (EPERM/EBUSY). Close your IDE, dev servers, or file watchers and retry.";
     } else {
-      current.status = "success";
+      current.error = "One or more commands failed";
     }
+  } else {
+    current.status = "success";
+    if (snapshotTargets.length > 0) current.resultHashes = await hashTargets(ctx.cwd, snapshotTargets);
+  }
+  current.finishedAt = new Date().toISOString();
 
-    hooks?.onStepEnd(current);
-    output.push(current);
+  hooks?.onStepEnd(current);
+  return current;
+}
+
+/** One prompt at a time, even when several steps ask for confirmation concurrently. */
+function serializePrompts(ask: (question: string) => Promise<boolean>): (question: string) => Promise<boolean> {
+  let queue: Promise<unknown> = Promise.resolve();
+  return (question) => {
+    const answer = queue.then(() => ask(question));
+    queue = answer.catch(() => undefined);
+    return answer;
+  };
+}
+
+/** A step that threw (e.g. its snapshot could not be written) is reported as failed instead of ending the run. */
+function crashedStep(step: FixStep, error: unknown): FixStep {
+  return { ...step, status: "failed", error: `Step could not run: ${(error as Error).message ?? String(error)}`, finishedAt: new Date().toISOString() };
+}
+
+/**
+ * Run a plan as a dependency graph (see `buildDependencyGraph`): a step starts once everything it
+ * depends on has finished, with at most `options.jobs` steps in flight. Ready steps start in plan
+ * order, and results are returned in plan order. Steps whose prerequisites failed or were skipped
+ * are skipped too.
+ */
+export async function executeSteps(
+  ctx: CommandContext,
+  steps: FixStep[],
+  snapshotDir: string,
+  hooks?: StepHooks,
+  options: ExecuteOptions = {},
+): Promise<FixStep[]> {
+  const confirm = serializePrompts(hooks?.onConfirm ?? askConfirmation);
+  const prerequisites = buildDependencyGraph(steps);
+  const jobs = Math.max(1, options.jobs ?? 1);
+  const results = new Array<FixStep>(steps.length);
+  const finished = new Set<number>();
+  const running = new Map<number, Promise<void>>();
+
+  while (finished.size < steps.length) {
+    for (let index = 0; index < steps.length && running.size < jobs; index += 1) {
+      if (finished.has(index) || running.has(index)) continue;
+      if (!prerequisites[index].every((p) => finished.has(p))) continue;
+      // After an interrupt, runStep records every remaining step as interrupted so `resume` picks it up.
+      const blocker = ctx.signal?.aborted
+        ? undefined
+        : prerequisites[index].find((p) => results[p].status === "failed" || results[p].status === "skipped");
+      if (blocker !== undefined) {
+        results[index] = { ...steps[index], status: "skipped", skippedReason: `Not run: prerequisite ${steps[blocker].id} ${results[blocker].status}` };
+        options.onStepState?.(results[index]);
+        finished.add(index);
+        continue;
+      }
+      const started = runStep(ctx, steps[index], snapshotDir, hooks, options, confirm).catch((error: unknown) => {
+        const failed = crashedStep(steps[index], error);
+        options.onStepState?.(failed);
+        hooks?.onStepEnd(failed);
+        return failed;
+      });
+      running.set(index, started.then((result) => {
+        results[index] = result;
+        finished.add(index);
+        running.delete(index);
+      }));
+    }
+    if (running.size > 0) await Promise.race(running.values());
   }
 
-  return output;
+  return results;
 }
+
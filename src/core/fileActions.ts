@@ -0,0 +1,83 @@
+import path from "node:path";
+import { constants } from "node:fs";
+import { copyFile, readFile, rm, writeFile } from "node:fs/promises";
+import type { FileAction, FileChange } from "../types.js";
+import { ensureDir, fileExists, resolveInsideRoot } from "../utils/fs.js";
+import { parseEnvKeys, sanitizeEnvKey } from "../utils/envFile.js";
+import { applyJsoncMergePatch } from "../utils/jsonc.js";
+
+/** Paths an action writes or removes (relative to the step's cwd), i.e. what must be snapshotted. */
+export function actionTargets(action: FileAction): string[] {
+  return [action.kind === "copy" ? action.to : action.path];
+}
+
+export function describeAction(action: FileAction): string {
+  switch (action.kind) {
+    case "copy":
+      return `copy ${action.from} -> ${action.to}`;
+    case "append-keys":
+      return `append ${action.keys.join(", ")} to ${action.path}`;
+    case "json-merge":
+      return `merge ${Object.keys(action.patch).join(", ")} into ${action.path}`;
+    case "delete":
+      return `delete ${action.path}`;
+  }
+}
+
+function resolve(cwd: string, relativePath: string): string {
+  const target = resolveInsideRoot(cwd, relativePath);
+  if (!target) throw new Error(`${relativePath}: path escapes the project root`);
+  return target;
+}
+
+async function readText(target: string): Promise<string> {
+  return (await fileExists(target)) ? readFile(target, "utf8") : "";
+}
+
+/** Run one file action in-process. Throws with a readable message when the action cannot be applied. */
+export async function runFileAction(cwd: string, action: FileAction): Promise<FileChange> {
+  switch (action.kind) {
+    case "copy": {
+      const from = resolve(cwd, action.from);
+      const to = resolve(cwd, action.to);
+      if (await fileExists(to)) return { path: action.to, action: action.kind, changed: false, note: "already exists" };
+      await ensureDir(path.dirname(to));
+      await copyFile(from, to, constants.COPYFILE_EXCL);
+      return { path: action.to, action: action.kind, changed: true };
+    }
+
+    case "append-keys": {
+      const target = resolve(cwd, action.path);
+      const raw = await readText(target);
+      const present = new Set(parseEnvKeys(raw));
+      const missing = [...new Set(action.keys.map(sanitizeEnvKey))].filter((k) => k && !present.has(k));
+      if (missing.length === 0) return { path: action.path, action: action.kind, changed: false, keys: [] };
+      const separator = raw && !raw.endsWith("\n") ? "\n" : "";
+      await ensureDir(path.dirname(target));
+      await writeFile(target, `${raw}${separator}${missing.map((k) => `${k}=\n`).join("")}`);
+      return { path: action.path, action: action.kind, changed: true, keys: missing };
+    }
+
+    case "json-merge": {
+      const target = resolve(cwd, action.path);
+      const raw = await readText(target);
+      let result: ReturnType<typeof applyJsoncMergePatch>;
+      try {
+        result = applyJsoncMergePatch(raw, action.patch);
+      } catch (error) {
+        throw new Error(`${action.path}: ${(error as Error).message}`);
+      }
+      if (result.changedKeys.length === 0) return { path: action.path, action: action.kind, changed: false, keys: [] };
+      await ensureDir(path.dirname(target));
+      await writeFile(target, result.text);
+      return { path: action.path, action: action.kind, changed: true, keys: result.changedKeys };
+    }
+
+    case "delete": {
+      const target = resolve(cwd, action.path);
+      const existed = await fileExists(target);
+      await rm(target, { recursive: true, force: true });
+      return { path: action.path, action: action.kind, changed: existed };
+    }
+  }
+}
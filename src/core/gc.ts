@@ -0,0 +1,188 @@
+import path from "node:path";
+import { tmpdir } from "node:os";
+import { readdir, rm, stat } from "node:fs/promises";
+import type { Config, RunReport } from "../types.js";
+import { listRunReports } from "../report/history.js";
+import { pathSize } from "../utils/fs.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Fresh blobs may belong to a run that has not written its report yet. */
+const BLOB_GRACE_MS = 60 * 60 * 1000;
+
+export interface GcCandidate {
+  runId: string;
+  reason: "max_runs" | "max_age_days" | "max_total_bytes" | "orphaned" | "unreferenced_blobs";
+  bytes: number;
+  paths: string[];
+}
+
+export interface GcResult {
+  removed: GcCandidate[];
+  keptRunIds: string[];
+  protectedRunId?: string;
+  freedBytes: number;
+  dryRun: boolean;
+}
+
+interface RunFootprint {
+  report: RunReport;
+  paths: string[];
+  bytes: number;
+  ageMs: number;
+}
+
+function limit(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/** Approximate: blobs shared with other runs are counted for each of them. */
+function blobBytes(report: RunReport): number {
+  return (report.steps ?? []).reduce(
+    (acc, step) => acc + (step.snapshot?.entries ?? []).reduce((sum, entry) => sum + entry.size, 0),
+    0,
+  );
+}
+
+/** Derived from config rather than the report, so a tampered report cannot point gc elsewhere. */
+function snapshotDirFor(report: RunReport, snapshotDir: string): string {
+  // Mirrors the temp fallback in runAutoFix.
+  if (report.storage?.fallbackToTemp) return path.join(tmpdir(), "autofix", report.runId);
+  return path.join(snapshotDir, report.runId);
+}
+
+/**
+ * The newest fix run that still has something to undo; its report and snapshots are never pruned.
+ * Undo/redo runs are skipped since a plain `auto-fix undo` never targets them.
+ */
+function findProtectedRun(reports: RunReport[]): RunReport | undefined {
+  return reports.find((r) => r.command !== "undo" && r.command !== "redo" && r.steps?.some((s) => s.undoable && s.status === "success" && (s.snapshotPaths?.length ?? 0) > 0));
+}
+
+async function findUnreferencedBlobs(blobDir: string, referenced: Set<string>, now: number): Promise<{ paths: string[]; bytes: number }> {
+  const paths: string[] = [];
+  let bytes = 0;
+  let prefixes: string[] = [];
+  try {
+    prefixes = await readdir(blobDir);
+  } catch {
+    return { paths, bytes };
+  }
+  for (const prefix of prefixes) {
+    let names: string[] = [];
+    try {
+      names = await readdir(path.join(blobDir, prefix));
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      if (referenced.has(name)) continue;
+      const blob = path.join(blobDir, prefix, name);
+      const info = await stat(blob).catch(() => null);
+      if (!info?.isFile() || now - info.mtimeMs < BLOB_GRACE_MS) continue;
+      paths.push(blob);
+      bytes += info.size;
+    }
+  }
+  return { paths, bytes };
+}
+
+/**
+ * Prune old run reports and their snapshot (and log) directories according to `output.retention`.
+ * Rules apply in order: max_runs, max_age_days, then oldest-first until under max_total_bytes.
+ */
+export async function collectGarbage(
+  reportDir: string,
+  snapshotDir: string,
+  retention: Config["output"]["retention"],
+  options: { dryRun: boolean; now?: number; logDir?: string },
+): Promise<GcResult> {
+  const now = options.now ?? Date.now();
+  const maxRuns = limit(retention?.max_runs);
+  const maxAgeMs = limit(retention?.max_age_days) * DAY_MS;
+  const maxBytes = limit(retention?.max_total_bytes);
+
+  const reports = await listRunReports(reportDir);
+  const protectedRun = findProtectedRun(reports);
+
+  const runs: RunFootprint[] = [];
+  for (const report of reports) {
+    const reportFile = path.join(reportDir, `${report.runId}.json`);
+    const snapDir = snapshotDirFor(report, snapshotDir);
+    const logDir = options.logDir ? [path.join(options.logDir, report.runId)] : [];
+    const startedMs = Date.parse(report.startedAt);
+    let bytes = blobBytes(report);
+    for (const target of [reportFile, snapDir, ...logDir]) bytes += await pathSize(target);
+    runs.push({
+      report,
+      paths: [reportFile, snapDir, ...logDir],
+      bytes,
+      ageMs: Number.isNaN(startedMs) ? 0 : now - startedMs,
+    });
+  }
+
+  const removed: GcCandidate[] = [];
+  const doomed = new Set<string>();
+  const mark = (run: RunFootprint, reason: GcCandidate["reason"]) => {
+    if (run.report.runId === protectedRun?.runId || doomed.has(run.report.runId)) return;
+    doomed.add(run.report.runId);
+    removed.push({ runId: run.report.runId, reason, bytes: run.bytes, paths: run.paths });
+  };
+
+  // runs are newest first
+  if (maxRuns > 0) runs.slice(maxRuns).forEach((run) => mark(run, "max_runs"));
+  if (maxAgeMs > 0) runs.filter((run) => run.ageMs > maxAgeMs).forEach((run) => mark(run, "max_age_days"));
+  if (maxBytes > 0) {
+    let total = runs.filter((run) => !doomed.has(run.report.runId)).reduce((acc, run) => acc + run.bytes, 0);
+    for (const run of [...runs].reverse()) {
+      if (total <= maxBytes) break;
+      if (doomed.has(run.report.runId) || run.report.runId === protectedRun?.runId) continue;
+      mark(run, "max_total_bytes");
+      total -= run.bytes;
+    }
+  }
+
+  // Snapshot and log dirs whose report is gone (e.g. interrupted runs) only expire by age.
+  const known = new Set(reports.map((r) => r.runId));
+  for (const parent of [snapshotDir, ...(options.logDir ? [options.logDir] : [])]) {
+    let entries: string[] = [];
+    try {
+      entries = await readdir(parent);
+    } catch {
+      entries = [];
+    }
+    for (const name of entries) {
+      if (known.has(name) || name === "blobs") continue;
+      const dir = path.join(parent, name);
+      const info = await stat(dir).catch(() => null);
+      if (!info?.isDirectory() || maxAgeMs === 0 || now - info.mtimeMs <= maxAgeMs) continue;
+      removed.push({ runId: name, reason: "orphaned", bytes: await pathSize(dir), paths: [dir] });
+    }
+  }
+
+  // Blobs are shared across runs: drop only those no surviving report references.
+  const referenced = new Set<string>();
+  for (const report of reports) {
+    if (doomed.has(report.runId)) continue;
+    for (const step of report.steps ?? []) {
+      for (const entry of step.snapshot?.entries ?? []) referenced.add(entry.sha256);
+    }
+  }
+  const unreferenced = await findUnreferencedBlobs(path.join(snapshotDir, "blobs"), referenced, now);
+  if (unreferenced.paths.length > 0) {
+    removed.push({ runId: "blobs", reason: "unreferenced_blobs", bytes: unreferenced.bytes, paths: unreferenced.paths });
+  }
+
+  if (!options.dryRun) {
+    for (const candidate of removed) {
+      for (const target of candidate.paths) await rm(target, { recursive: true, force: true });
+    }
+  }
+
+  return {
+    removed,
+    keptRunIds: runs.map((run) => run.report.runId).filter((id) => !doomed.has(id)),
+    protectedRunId: protectedRun?.runId,
+    freedBytes: removed.reduce((acc, c) => acc + c.bytes, 0),
+    dryRun: options.dryRun,
+  };
+}
@@ -0,0 +1,40 @@
+import type { FixStep } from "../types.js";
+
+/**
+ * Step dependency graph. A step `provides` named resources and `dependsOn` resources or step ids.
+ * Each dependency waits for every step that provides it (or has that id); steps providing the
+ * same resource run in plan order. Dependencies nothing in the plan provides are ignored.
+ * Returns, for each step index, the indices of the steps it waits for.
+ */
+export function buildDependencyGraph(steps: FixStep[]): number[][] {
+  const edges = steps.map((step, index) => {
+    const prerequisites = new Set<number>();
+    steps.forEach((other, otherIndex) => {
+      if (otherIndex === index) return;
+      const needed = step.dependsOn?.some((dep) => dep === other.id || other.provides?.includes(dep));
+      const sharesResource = otherIndex < index && step.provides?.some((res) => other.provides?.includes(res));
+      if (needed || sharesResource) prerequisites.add(otherIndex);
+    });
+    return [...prerequisites].sort((a, b) => a - b);
+  });
+  assertAcyclic(steps, edges);
+  return edges;
+}
+
+function assertAcyclic(steps: FixStep[], edges: number[][]): void {
+  const state = new Array<"visiting" | "done" | undefined>(steps.length);
+  const trail: number[] = [];
+  const visit = (index: number) => {
+    if (state[index] === "done") return;
+    if (state[index] === "visiting") {
+      const cycle = [...trail.slice(trail.indexOf(index)), index].map((i) => steps[i].id);
+      throw new Error(`Step dependency cycle: ${cycle.join(" -> ")}`);
+    }
+    state[index] = "visiting";
+    trail.push(index);
+    for (const prerequisite of edges[index]) visit(prerequisite);
+    trail.pop();
+    state[index] = "done";
+  };
+  steps.forEach((_, index) => visit(index));
+}
@@ -1,10 +1,43 @@
-import type { CliFlags, Config, EnvDetection, FixStep } from "../types.js";
+import path from "node:path";
+import type { CliFlags, Config, EnvDetection, FixStep, WorkspacePackage } from "../types.js";
 import { buildNodeSteps } from "../subsystems/node.js";
 import { buildPythonSteps } from "../subsystems/python.js";
 import { buildDockerSteps } from "../subsystems/docker.js";
 import { buildCheckSteps } from "../subsystems/checks.js";
 import { buildEnvSteps } from "../subsystems/environment.js";
 import { buildEngineSteps } from "../subsystems/engines.js";
+import { buildCustomSteps } from "../subsystems/custom.js";
+import { matchesPackageFilter } from "./workspaces.js";
+
+const PHASE_ORDER: FixStep["phase"][] = ["detect", "environment", "engines", "ports", "docker", "node", "python", "plugins", "checks"];
+
+/**
+ * Default dependency edges per phase, used when a step declares no `provides`/`dependsOn` of its own.
+ * Subsystems only wait for the shared setup (env files, engines, ports), so Node, Python and
+ * Docker repairs can run side by side. Plugin and generic checks-phase steps wait for all three.
+ */
+const PHASE_LINKS: Record<FixStep["phase"], { provides: string[]; dependsOn: string[] }> = {
+  detect: { provides: [], dependsOn: [] },
+  environment: { provides: ["env"], dependsOn: [] },
+  engines: { provides: ["engines"], dependsOn: [] },
+  ports: { provides: ["ports"], dependsOn: [] },
+  docker: { provides: ["docker"], dependsOn: ["env", "ports"] },
+  node: { provides: ["node"], dependsOn: ["env", "engines", "ports"] },
+  python: { provides: ["python"], dependsOn: ["env", "engines", "ports"] },
+  plugins: { provides: [], dependsOn: ["env", "engines", "ports", "docker", "node", "python"] },
+  checks: { provides: ["checks"], dependsOn: ["env", "docker", "node", "python"] },
+};
+
+/** Resources shared by the whole workspace; every other resource is scoped per package. */
+const GLOBAL_RESOURCES = new Set(["ports"]);
+
+/** Steps handled once by the root package manager for JS workspace members. */
+const ROOT_MANAGED_STEP_IDS = new Set([
+  "node-install-deps",
+  "node-lockfile-corruption-detected",
+  "node-remove-lockfiles-force-fresh",
+  "node-remove-node-modules",
+]);
 
 export function buildPortSteps(flags: CliFlags, config: Config): FixStep[] {
   if (!flags.killPorts) return [];
@@ -17,7 +50,12 @@ export function buildPortSteps(flags: CliFlags, config: Config): FixStep[] {
       subsystem: "meta",
       phase: "ports",
       rationale: "Port conflict cleanup before subsystem repair.",
-      commands: ports.map((port) => `lsof -ti :${port} | xargs kill -9`),
+      commands: ports.map((port) => ({
+        pipe: [
+          { bin: "lsof", args: ["-ti", `:${port}`] },
+          { bin: "xargs", args: ["kill", "-9"] },
+        ],
+      })),
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -26,25 +64,113 @@ export function buildPortSteps(flags: CliFlags, config: Config): FixStep[] {
   ];
 }
 
-export async function buildPlan(cwd: string, detection: EnvDetection, config: Config, flags: CliFlags): Promise<FixStep[]> {
+async function buildScopeSteps(cwd: string, detection: EnvDetection, config: Config, flags: CliFlags): Promise<FixStep[]> {
   const steps: FixStep[] = [];
 
-  // strict order: env -> engines -> ports -> docker -> node -> python -> checks(format, lint, test)
   steps.push(...await buildEnvSteps(cwd, detection, config, flags));
   steps.push(...await buildEngineSteps(cwd, detection, config, flags));
-  steps.push(...buildPortSteps(flags, config));
 
   if (flags.focus === "all" || flags.focus === "docker") steps.push(...buildDockerSteps(detection, config, flags));
   if (flags.focus === "all" || flags.focus === "node") steps.push(...buildNodeSteps(detection, config, flags));
-  if (flags.focus === "all" || flags.focus === "python") steps.push(...buildPythonSteps(detection, config, flags));
+  if (flags.focus === "all" || flags.focus === "python") steps.push(...buildPythonSteps(detection, config, flags, cwd));
+
+  if (flags.focus === "all" || flags.focus === "node") steps.push(...buildCheckSteps(detection, config, flags, "node"));
+  if (flags.focus === "all" || flags.focus === "python") steps.push(...buildCheckSteps(detection, config, flags, "python"));
+
+  return withDefaultLinks(steps);
+}
+
+function withDefaultLinks(steps: FixStep[]): FixStep[] {
+  return steps.map((s) => ({
+    ...s,
+    provides: s.provides ?? PHASE_LINKS[s.phase].provides,
+    dependsOn: s.dependsOn ?? PHASE_LINKS[s.phase].dependsOn,
+  }));
+}
+
+/**
+ * Custom steps can run anything (e.g. `npx prisma generate`), so by default they wait for every
+ * phase ahead of theirs rather than only the shared setup.
+ */
+function withCustomLinks(steps: FixStep[]): FixStep[] {
+  return steps.map((s) => ({
+    ...s,
+    provides: s.provides ?? PHASE_LINKS[s.phase].provides,
+    dependsOn: s.dependsOn ?? [...new Set(PHASE_ORDER.slice(0, PHASE_ORDER.indexOf(s.phase)).flatMap((p) => PHASE_LINKS[p].provides))],
+  }));
+}
+
+function packageSlug(name: string): string {
+  return name.replace(/^@/, "").replace(/[^a-z0-9._-]/gi, "-");
+}
+
+/**
+ * Rewrite a member's steps so they run in, and snapshot relative to, the member directory.
+ * Resources are suffixed like step ids, so members do not wait on each other; members whose
+ * dependencies the root installs also wait for the root's Node steps.
+ */
+export function scopeStepsToPackage(steps: FixStep[], pkg: WorkspacePackage): FixStep[] {
+  const slug = packageSlug(pkg.name);
+  const scope = (resource: string) => (GLOBAL_RESOURCES.has(resource) ? resource : `${resource}@${slug}`);
+  return steps
+    .filter((s) => !(pkg.managedByRoot && ROOT_MANAGED_STEP_IDS.has(s.id)))
+    .map((s) => ({
+      ...s,
+      id: `${s.id}@${slug}`,
+      title: `[${pkg.name}] ${s.title}`,
+      cwd: pkg.path,
+      package: pkg.name,
+      snapshotPaths: s.snapshotPaths?.map((p) => path.posix.join(pkg.path, p)),
+      provides: s.provides?.map(scope),
+      dependsOn: s.dependsOn && [
+        ...s.dependsOn.map(scope),
+        ...(pkg.managedByRoot && s.dependsOn.includes("node") ? ["node"] : []),
+      ],
+    }));
+}
+
+/**
+ * Plugin steps (see `buildPluginSteps`) belong to the root scope and only run with `--focus all`.
+ * Custom steps from `.autofix.yml` also belong to the root scope and join the phase they declare;
+ * `probeConditions` is off when nothing will run, so their `command_fails` probes are skipped.
+ */
+export async function buildPlan(
+  cwd: string,
+  detection: EnvDetection,
+  config: Config,
+  flags: CliFlags,
+  pluginSteps: FixStep[] = [],
+  probeConditions = true,
+): Promise<FixStep[]> {
+  const steps: FixStep[] = [];
+
+  // A --package filter narrows the plan to matching members; only port cleanup (and the root install
+  // for root-managed members) stays global.
+  if (!flags.package) steps.push(...await buildScopeSteps(cwd, detection, config, flags));
+  if (!flags.package && flags.focus === "all") steps.push(...withDefaultLinks(pluginSteps));
+  if (!flags.package) steps.push(...withCustomLinks(await buildCustomSteps(cwd, config, flags, probeConditions)));
+  steps.push(...buildPortSteps(flags, config));
+
+  const members = (detection.packages ?? []).filter((pkg) => !flags.package || matchesPackageFilter(pkg, flags.package));
+  // Members the root installs for have no install steps of their own, so keep the root's.
+  if (flags.package && members.some((pkg) => pkg.managedByRoot) && (flags.focus === "all" || flags.focus === "node")) {
+    const rootInstall = buildNodeSteps(detection, config, flags).filter((s) => ROOT_MANAGED_STEP_IDS.has(s.id));
+    steps.push(...withDefaultLinks(rootInstall));
+  }
 
-  const checks: FixStep[] = [];
-  if (flags.focus === "all" || flags.focus === "node") checks.push(...buildCheckSteps(detection, config, flags, "node"));
-  if (flags.focus === "all" || flags.focus === "python") checks.push(...buildCheckSteps(detection, config, flags, "python"));
+  for (const pkg of members) {
+    const scoped = await buildScopeSteps(path.join(cwd, pkg.path), pkg.detection, config, flags);
+    steps.push(...scopeStepsToPackage(scoped, pkg));
+  }
 
-  const order = { format: 1, lint: 2, test: 3 } as const;
-  checks.sort((a, b) => (order[a.checkKind ?? "test"] - order[b.checkKind ?? "test"]));
-  steps.push(...checks);
+  // strict order: env -> engines -> ports -> docker -> node -> python -> plugins -> checks(format, lint, test)
+  // Array#sort is stable, so root steps stay ahead of member steps within a phase.
+  const checkOrder = { format: 1, lint: 2, test: 3 } as const;
+  steps.sort((a, b) => {
+    const byPhase = PHASE_ORDER.indexOf(a.phase) - PHASE_ORDER.indexOf(b.phase);
+    if (byPhase !== 0 || a.phase !== "checks") return byPhase;
+    return checkOrder[a.checkKind ?? "test"] - checkOrder[b.checkKind ?? "test"];
+  });
 
   return steps;
 }
@@ -0,0 +1,214 @@
+import path from "node:path";
+import { createRequire } from "node:module";
+import { pathToFileURL } from "node:url";
+import type {
+  AutoFixPlugin,
+  CliFlags,
+  Command,
+  Config,
+  EnvDetection,
+  FixStep,
+  PluginDetection,
+  PluginReport,
+  PluginStep,
+  StepCommand,
+} from "../types.js";
+import { readJsonFile, resolveInsideRoot } from "../utils/fs.js";
+
+/** Packages named like this are loaded automatically when the project depends on them. */
+const PLUGIN_PACKAGE_RE = /^(@[a-z0-9._-]+\/)?auto-fix-plugin-[a-z0-9._-]+$/i;
+const PLUGIN_NAME_RE = /^[a-z0-9][a-z0-9._-]*$/i;
+const BINARY_NAME_RE = /^[a-zA-Z0-9._-]+$/;
+
+export interface LoadedPlugin {
+  plugin: AutoFixPlugin;
+  /** Module specifier from config or package.json. */
+  source: string;
+}
+
+/** Plugin packages listed in the project's package.json dependencies. */
+async function discoverPluginPackages(cwd: string): Promise<string[]> {
+  const pkg = await readJsonFile<{ dependencies?: Record<string, string>; devDependencies?: Record<string, string> }>(
+    path.join(cwd, "package.json"),
+  );
+  if (!pkg) return [];
+  return Object.keys({ ...pkg.dependencies, ...pkg.devDependencies }).filter((name) => PLUGIN_PACKAGE_RE.test(name)).sort();
+}
+
+type PackageExports = string | { [condition: string]: PackageExports | undefined };
+
+function exportEntry(exports: PackageExports | undefined): string | undefined {
+  if (!exports || typeof exports === "string") return exports;
+  for (const key of [".", "import", "default"]) {
+    const entry = exportEntry(exports[key]);
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+/** Resolve a package from the project's node_modules, including ESM-only packages `require.resolve` rejects. */
+async function resolvePackage(cwd: string, name: string): Promise<string> {
+  try {
+    return createRequire(path.join(cwd, "package.json")).resolve(name);
+  } catch {
+    const dir = path.join(cwd, "node_modules", name);
+    const manifest = await readJsonFile<{ exports?: PackageExports; main?: string }>(path.join(dir, "package.json"));
+    if (!manifest) throw new Error(`package '${name}' is not installed`);
+    return path.join(dir, exportEntry(manifest.exports) ?? manifest.main ?? "index.js");
+  }
+}
+
+async function resolveSpecifier(cwd: string, specifier: string): Promise<string> {
+  if (!specifier.startsWith(".") && !path.isAbsolute(specifier)) return resolvePackage(cwd, specifier);
+  const target = resolveInsideRoot(cwd, specifier);
+  if (!target) throw new Error("path is outside the project root");
+  return target;
+}
+
+function validatePlugin(value: unknown): AutoFixPlugin {
+  const candidate = value as Partial<AutoFixPlugin> | null;
+  if (!candidate || typeof candidate !== "object") throw new Error("module does not export a plugin object");
+  if (typeof candidate.name !== "string" || !PLUGIN_NAME_RE.test(candidate.name)) {
+    throw new Error("plugin 'name' must be a non-empty string of letters, digits, '.', '_' or '-'");
+  }
+  if (typeof candidate.detect !== "function") throw new Error(`plugin '${candidate.name}' has no detect() function`);
+  if (typeof candidate.buildSteps !== "function") throw new Error(`plugin '${candidate.name}' has no buildSteps() function`);
+  const badBinary = (candidate.binaries ?? []).find((bin) => typeof bin !== "string" || !BINARY_NAME_RE.test(bin));
+  if (badBinary !== undefined) throw new Error(`plugin '${candidate.name}' lists an invalid binary: ${String(badBinary)}`);
+  return candidate as AutoFixPlugin;
+}
+
+/**
+ * Load plugins from `config.plugins` and from `auto-fix-plugin-*` dependencies. A module may export
+ * the plugin as its default export, as `plugin`, or as a factory function returning it.
+ * Failures never abort the run; they are returned as messages for the detection issues.
+ */
+export async function loadPlugins(cwd: string, config: Config): Promise<{ plugins: LoadedPlugin[]; errors: string[] }> {
+  const specifiers = [...new Set([...(config.plugins ?? []), ...await discoverPluginPackages(cwd)])];
+  const plugins: LoadedPlugin[] = [];
+  const errors: string[] = [];
+  for (const source of specifiers) {
+    try {
+      const mod = (await import(pathToFileURL(await resolveSpecifier(cwd, source)).href)) as Record<string, unknown>;
+      const exported = mod.default ?? mod.plugin;
+      const plugin = validatePlugin(typeof exported === "function" ? await (exported as () => unknown)() : exported);
+      if (plugins.some((p) => p.plugin.name === plugin.name)) throw new Error(`duplicate plugin name '${plugin.name}'`);
+      plugins.push({ plugin, source });
+    } catch (error) {
+      errors.push(`plugin ${source} could not be loaded: ${(error as Error).message}`);
+    }
+  }
+  return { plugins, errors };
+}
+
+/** Run each plugin's `detect`, recording results on `detection.plugins` and issues on `detection.issues`. */
+export async function detectPlugins(loaded: LoadedPlugin[], cwd: string, config: Config, detection: EnvDetection): Promise<void> {
+  if (loaded.length === 0) return;
+  detection.plugins = {};
+  for (const { plugin } of loaded) {
+    try {
+      const result = await plugin.detect(cwd, config);
+      detection.plugins[plugin.name] = result;
+      for (const issue of result.issues ?? []) detection.issues.push(`${plugin.name}: ${issue}`);
+    } catch (error) {
+      detection.plugins[plugin.name] = { detected: false };
+      detection.issues.push(`${plugin.name}: detect failed: ${(error as Error).message}`);
+    }
+  }
+}
+
+function isCommand(value: unknown): value is Command {
+  const c = value as Command;
+  return Boolean(c) && typeof c.bin === "string" && c.bin.length > 0 && Array.isArray(c.args) && c.args.every((a) => typeof a === "string");
+}
+
+function isStepCommand(value: unknown): value is StepCommand {
+  const pipe = (value as { pipe?: unknown }).pipe;
+  return Array.isArray(pipe) ? pipe.length > 0 && pipe.every(isCommand) : isCommand(value);
+}
+
+function problemWith(step: PluginStep, cwd: string): string | null {
+  if (typeof step.id !== "string" || !step.id) return "step has no id";
+  if (!Array.isArray(step.commands ?? [])) return "commands must be an array";
+  if (!(step.commands ?? []).every(isStepCommand)) return "commands must be { bin, args } objects or { pipe: [...] }";
+  if (step.cwd && !resolveInsideRoot(cwd, step.cwd)) return `cwd '${step.cwd}' is outside the project root`;
+  const outside = [...(step.snapshotPaths ?? [])].find((p) => !resolveInsideRoot(cwd, p));
+  if (outside) return `snapshot path '${outside}' is outside the project root`;
+  return null;
+}
+
+/** Turn a plugin step into a regular plan step. Invalid steps are kept as `proposed` so the problem is visible. */
+export function normalizePluginStep(plugin: AutoFixPlugin, step: PluginStep, cwd: string): FixStep {
+  const subsystem = `plugin:${plugin.name}` as const;
+  const id = String(step.id ?? "step");
+  const problem = problemWith(step, cwd);
+  const { proposed, ...fields } = step;
+  const snapshotted = (fields.snapshotPaths?.length ?? 0) > 0 || (fields.actions?.length ?? 0) > 0;
+  return {
+    ...fields,
+    id: id.startsWith(`${plugin.name}-`) ? id : `${plugin.name}-${id}`,
+    title: String(step.title ?? id),
+    rationale: String(step.rationale ?? `Provided by plugin ${plugin.name}.`),
+    subsystem,
+    phase: fields.phase ?? "plugins",
+    commands: problem ? [] : fields.commands ?? [],
+    destructive: fields.destructive ?? false,
+    irreversible: fields.irreversible ?? false,
+    undoable: fields.undoable ?? snapshotted,
+    provides: fields.provides ?? [subsystem],
+    status: problem || proposed ? "proposed" : "planned",
+    proposedReason: problem ? `Invalid step from plugin ${plugin.name}: ${problem}` : fields.proposedReason,
+  };
+}
+
+/** Steps from every plugin whose `detect` reported `detected: true`. */
+export async function buildPluginSteps(
+  loaded: LoadedPlugin[],
+  cwd: string,
+  detection: EnvDetection,
+  config: Config,
+  flags: CliFlags,
+): Promise<FixStep[]> {
+  const steps: FixStep[] = [];
+  for (const { plugin } of loaded) {
+    const result = detection.plugins?.[plugin.name];
+    if (!result?.detected) continue;
+    try {
+      const built = await plugin.buildSteps(result, config, flags);
+      steps.push(...built.map((step) => normalizePluginStep(plugin, step, cwd)));
+    } catch (error) {
+      detection.issues.push(`${plugin.name}: buildSteps failed: ${(error as Error).message}`);
+    }
+  }
+  return steps;
+}
+
+/** Extra allowlisted binaries per plugin subsystem, for `ExecuteOptions.allowedBinaries`. */
+export function pluginBinaries(loaded: LoadedPlugin[]): Record<string, string[]> {
+  return Object.fromEntries(loaded.map(({ plugin }) => [`plugin:${plugin.name}`, plugin.binaries ?? []]));
+}
+
+/** Call `verify` for plugins whose steps ran, and summarize each plugin for the report. */
+export async function verifyPlugins(
+  loaded: LoadedPlugin[],
+  cwd: string,
+  detection: EnvDetection,
+  executed: FixStep[],
+): Promise<PluginReport[]> {
+  const reports: PluginReport[] = [];
+  for (const { plugin, source } of loaded) {
+    const own = executed.filter((s) => s.subsystem === `plugin:${plugin.name}`);
+    const report: PluginReport = { name: plugin.name, source, stepIds: own.map((s) => s.id) };
+    const ran = own.some((s) => s.status === "success" || s.status === "failed" || s.status === "partial");
+    if (plugin.verify && ran) {
+      try {
+        report.verify = await plugin.verify(cwd, detection.plugins?.[plugin.name] ?? { detected: true }, own);
+      } catch (error) {
+        report.verify = { ok: false, message: `verify failed: ${(error as Error).message}` };
+      }
+    }
+    reports.push(report);
+  }
+  return reports;
+}
+
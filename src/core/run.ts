@@ -1,37 +1,58 @@
 import path from "node:path";
 import readline from "node:readline/promises";
 import { tmpdir } from "node:os";
-import type { CommandContext, Config, EnvDetection, FixStep, RunReport } from "../types.js";
+import type { CommandContext, Config, EnvDetection, FixStep, PackageReport, RunInterruption, RunReport } from "../types.js";
 import type { StepHooks } from "../ui/renderer.js";
 import { detectEnvironment } from "./detectEnvironment.js";
 import { buildPlan } from "./planBuilder.js";
 import { executeSteps } from "./executor.js";
+import type { ExecuteOptions } from "./executor.js";
+import { buildPluginSteps, detectPlugins, loadPlugins, pluginBinaries, verifyPlugins } from "./plugins.js";
+import type { LoadedPlugin } from "./plugins.js";
 import { ensureAutofixInGitignore, ensureWritableDir } from "../utils/fs.js";
+import { formatCommand } from "./commands.js";
+import { composeCommand } from "./composeProject.js";
+import { runtimeLabel } from "./containerRuntime.js";
 
 export interface RunCallbacks {
   onDetection?(detection: EnvDetection): void;
   onPlanReady?(steps: FixStep[]): void;
   stepHooks?: StepHooks;
+  /** Called before steps run with a way to build the report as it stands, for a forced quit. */
+  onExecutionStart?(currentReport: () => RunReport): void;
 }
 
 function suggestNextAction(detection: EnvDetection): string {
   if (detection.node.detected) return "npm run dev";
   if (detection.python.detected) return "python -m pytest -q";
-  if (detection.docker.detected) return "docker compose ps";
+  if (detection.docker.detected) return formatCommand(composeCommand(detection.docker, "ps"));
   return "Review project setup and rerun auto-fix doctor";
 }
 
+/** Whether a subsystem was detected at the root or in any workspace member. */
+function detectedAnywhere(detection: EnvDetection, key: "node" | "python" | "docker"): boolean {
+  return detection[key].detected || (detection.packages ?? []).some((p) => p.detection[key].detected);
+}
+
 function summarizeDetection(detection: EnvDetection): string[] {
   const out: string[] = [];
-  if (detection.node.detected) out.push("Node");
-  if (detection.python.detected) out.push("Python");
-  if (detection.docker.detected) out.push("Docker Compose");
+  if (detectedAnywhere(detection, "node")) out.push("Node");
+  if (detectedAnywhere(detection, "python")) out.push("Python");
+  if (detectedAnywhere(detection, "docker")) out.push("Docker Compose");
+  if (detection.packages?.length) out.push(`Workspace (${detection.packages.length} packages)`);
+  for (const [name, result] of Object.entries(detection.plugins ?? {})) {
+    if (result.detected) out.push(`Plugin: ${name}`);
+  }
   if (out.length === 0) out.push("No supported project type detected");
   return out;
 }
 
+function polyglotCount(detection: EnvDetection): number {
+  return (["node", "python", "docker"] as const).filter((key) => detectedAnywhere(detection, key)).length;
+}
+
 async function maybeConfirmPolyglot(ctx: CommandContext, detection: EnvDetection): Promise<boolean> {
-  const count = [detection.node.detected, detection.python.detected, detection.docker.detected].filter(Boolean).length;
+  const count = polyglotCount(detection);
   if (ctx.flags.focus !== "all" || count < 2) return true;
   if (ctx.flags.approve) return true;
   if (!ctx.interactive) return false;
@@ -43,7 +64,7 @@ async function maybeConfirmPolyglot(ctx: CommandContext, detection: EnvDetection
 
 function applyPolyglotGuard(ctx: CommandContext, detection: EnvDetection, steps: FixStep[]): { steps: FixStep[]; warnings: string[] } {
   const warnings: string[] = [];
-  const count = [detection.node.detected, detection.python.detected, detection.docker.detected].filter(Boolean).length;
+  const count = polyglotCount(detection);
   if (count < 2 || ctx.flags.focus !== "all") return { steps, warnings };
 
   if (!ctx.interactive && !ctx.flags.approve) {
@@ -60,7 +81,23 @@ function applyPolyglotGuard(ctx: CommandContext, detection: EnvDetection, steps:
   return { steps, warnings };
 }
 
-function computeSummary(steps: FixStep[], detection: EnvDetection, warnings: string[]) {
+function summarizePackages(steps: FixStep[], detection: EnvDetection): PackageReport[] | undefined {
+  if (!detection.packages?.length) return undefined;
+  return detection.packages.map((pkg) => {
+    const own = steps.filter((s) => s.package === pkg.name);
+    return {
+      name: pkg.name,
+      path: pkg.path,
+      issues: pkg.detection.issues,
+      stepIds: own.map((s) => s.id),
+      succeeded: own.filter((s) => s.status === "success").length,
+      failed: own.filter((s) => s.status === "failed" || s.status === "partial").length,
+      skipped: own.filter((s) => s.status === "skipped" || s.status === "proposed" || s.status === "planned").length,
+    };
+  });
+}
+
+export function computeSummary(steps: FixStep[], detection: EnvDetection, warnings: string[]) {
   const succeeded = steps.filter((s) => s.status === "success").length;
   const failed = steps.filter((s) => s.status === "failed" || s.status === "partial").length;
   const skipped = steps.filter((s) => s.status === "skipped" || s.status === "proposed" || s.status === "planned").length;
@@ -79,48 +116,104 @@ function computeSummary(steps: FixStep[], detection: EnvDetection, warnings: str
   };
 }
 
-export async function runAutoFix(
-  ctx: CommandContext,
-  config: Config,
-  reportDir: string,
-  callbacks?: RunCallbacks,
-): Promise<{ report: RunReport; gitignoreUpdated: boolean }> {
-  const detection = await detectEnvironment(ctx.cwd, config);
-  callbacks?.onDetection?.(detection);
-
-  const runAll = await maybeConfirmPolyglot(ctx, detection);
-  if (!runAll) {
-    ctx.flags.focus = "node";
-  }
-
-  const plan = await buildPlan(ctx.cwd, detection, config, ctx.flags);
-  const guarded = applyPolyglotGuard(ctx, detection, plan);
-  callbacks?.onPlanReady?.(guarded.steps);
-
+/** Use the configured snapshot dir, falling back to a per-run temp dir when it is not writable. */
+export async function resolveSnapshotDir(ctx: CommandContext, config: Config): Promise<{ snapshotDir: string; writable: boolean }> {
   const desiredSnapshotDir = path.resolve(ctx.cwd, config.output.snapshot_dir);
   const writable = await ensureWritableDir(desiredSnapshotDir);
   const snapshotDir = writable ? desiredSnapshotDir : path.join(tmpdir(), "autofix", ctx.runId);
   if (!writable) await ensureWritableDir(snapshotDir);
+  return { snapshotDir, writable };
+}
 
-  const executed = await executeSteps(ctx, guarded.steps, snapshotDir, callbacks?.stepHooks);
-  const gitignoreUpdated = await ensureAutofixInGitignore(ctx.cwd);
-  if (gitignoreUpdated) guarded.warnings.push("Added .autofix/ to .gitignore");
-  if (!writable) guarded.warnings.push(`.autofix not writable; using temp snapshot dir: ${snapshotDir}`);
+function executeOptions(ctx: CommandContext, config: Config, plugins: LoadedPlugin[]): ExecuteOptions {
+  return {
+    snapshotPolicy: config.output.snapshot_policy,
+    logDir: path.resolve(ctx.cwd, config.output.log_dir ?? ".autofix/logs"),
+    timeouts: config.timeouts,
+    jobs: ctx.flags.jobs ?? config.execution?.jobs ?? 1,
+    allowedBinaries: pluginBinaries(plugins),
+    volumeSnapshots: config.docker.snapshot_volumes ? { maxBytes: config.docker.volume_snapshot_max_bytes } : undefined,
+  };
+}
 
-  if (detection.docker.detected && config.docker.safe_down && guarded.steps.some((s) => s.checkKind === "test")) {
-    guarded.warnings.push("Tests may require services; run `docker compose up -d` and re-run tests.");
+/** Summarize plugins for the report; `verify` only runs for plugins whose steps ran, so dry runs skip it. */
+async function reportPlugins(
+  ctx: CommandContext,
+  plugins: LoadedPlugin[],
+  detection: EnvDetection,
+  executed: FixStep[],
+  warnings: string[],
+): Promise<RunReport["plugins"]> {
+  if (plugins.length === 0) return undefined;
+  const reports = await verifyPlugins(plugins, ctx.cwd, detection, executed);
+  for (const { name, verify } of reports) {
+    if (verify && !verify.ok) warnings.push(`Plugin ${name} verification failed${verify.message ? `: ${verify.message}` : ""}`);
   }
+  return reports;
+}
+
+/** Where an interrupted run stopped: the steps that were cut short or never started. */
+function describeInterruption(ctx: CommandContext, steps: FixStep[]): RunInterruption | undefined {
+  if (!ctx.signal?.aborted) return undefined;
+  // Steps run concurrently, so finished steps can follow unfinished ones in plan order.
+  const unfinished = steps.filter((s) => s.status === "partial" || (s.status === "skipped" && s.skippedReason?.startsWith("Not run: interrupted")));
+  if (unfinished.length === 0) return undefined;
+  return {
+    signal: ctx.signal.reason === "SIGTERM" ? "SIGTERM" : "SIGINT",
+    stepId: unfinished.find((s) => s.status === "partial")?.id,
+    remainingStepIds: unfinished.map((s) => s.id),
+  };
+}
+
+/** Steps as they stand at a forced quit: running ones were cut short, ones not yet picked up never ran. */
+function stepsAtForcedQuit(ctx: CommandContext, planned: FixStep[], live: Map<string, FixStep>): FixStep[] {
+  const reason = `interrupted by ${typeof ctx.signal?.reason === "string" ? ctx.signal.reason : "signal"}`;
+  return planned.map((step): FixStep => {
+    const current = live.get(step.id);
+    if (!current || current.status === "planned") return { ...step, status: "skipped", skippedReason: `Not run: ${reason}` };
+    if (current.status !== "running") return { ...current };
+    return { ...current, status: "partial", error: `Force quit: ${reason}`, finishedAt: new Date().toISOString() };
+  });
+}
+
+/** Execute options that record each step's live state and hand the caller a report builder for a forced quit. */
+function trackExecution(
+  ctx: CommandContext,
+  steps: FixStep[],
+  options: ExecuteOptions,
+  callbacks: RunCallbacks | undefined,
+  report: (current: FixStep[]) => RunReport,
+): ExecuteOptions {
+  const live = new Map<string, FixStep>();
+  callbacks?.onExecutionStart?.(() => report(stepsAtForcedQuit(ctx, steps, live)));
+  return { ...options, onStepState: (step) => live.set(step.id, step) };
+}
 
-  const report: RunReport = {
+function assembleReport(
+  ctx: CommandContext,
+  detection: EnvDetection,
+  executed: FixStep[],
+  warnings: string[],
+  startedAt: string,
+  storage: RunReport["storage"],
+): RunReport {
+  const interrupted = describeInterruption(ctx, executed);
+  const summary = computeSummary(executed, detection, warnings);
+  if (interrupted) {
+    summary.warnings.push(`Interrupted by ${interrupted.signal}; ${interrupted.remainingStepIds.length} step(s) not finished`);
+    summary.nextBestAction = "auto-fix resume";
+  }
+  return {
     runId: ctx.runId,
     command: ctx.command,
     cwd: ctx.cwd,
-    startedAt: new Date().toISOString(),
+    startedAt,
     finishedAt: new Date().toISOString(),
     flags: ctx.flags,
+    interrupted,
     detection,
     steps: executed,
-    summary: computeSummary(executed, detection, guarded.warnings),
+    summary,
     undo: executed
       .filter((s) => s.snapshotPaths && s.snapshotPaths.length > 0)
       .map((s) => ({
@@ -132,12 +225,110 @@ export async function runAutoFix(
         failed: [],
         nextBestAction: s.undoHints?.[0]?.command,
       })),
-    storage: {
-      reportDir,
-      snapshotDir,
-      fallbackToTemp: !writable,
-    },
+    packages: summarizePackages(executed, detection),
+    storage,
   };
+}
+
+export async function runAutoFix(
+  ctx: CommandContext,
+  config: Config,
+  reportDir: string,
+  callbacks?: RunCallbacks,
+): Promise<{ report: RunReport; gitignoreUpdated: boolean }> {
+  const startedAt = new Date().toISOString();
+  const detection = await detectEnvironment(ctx.cwd, config);
+  const { plugins, errors } = await loadPlugins(ctx.cwd, config);
+  detection.issues.push(...errors);
+  await detectPlugins(plugins, ctx.cwd, config, detection);
+  callbacks?.onDetection?.(detection);
+
+  const runAll = await maybeConfirmPolyglot(ctx, detection);
+  if (!runAll) {
+    ctx.flags.focus = "node";
+  }
+
+  const pluginSteps = await buildPluginSteps(plugins, ctx.cwd, detection, config, ctx.flags);
+  const executes = !(ctx.command === "plan" || ctx.command === "doctor" || ctx.flags.dryRun);
+  const plan = await buildPlan(ctx.cwd, detection, config, ctx.flags, pluginSteps, executes);
+  const guarded = applyPolyglotGuard(ctx, detection, plan);
+  callbacks?.onPlanReady?.(guarded.steps);
+
+  const { snapshotDir, writable } = await resolveSnapshotDir(ctx, config);
+  const storage = { reportDir, snapshotDir, fallbackToTemp: !writable };
+
+  const options = trackExecution(ctx, guarded.steps, executeOptions(ctx, config, plugins), callbacks, (current) => (
+    assembleReport(ctx, detection, current, guarded.warnings, startedAt, storage)
+  ));
+  const executed = await executeSteps(ctx, guarded.steps, snapshotDir, callbacks?.stepHooks, options);
+  const pluginReports = await reportPlugins(ctx, plugins, detection, executed, guarded.warnings);
+  const ignored = await ensureAutofixInGitignore(ctx.cwd);
+  const gitignoreUpdated = ignored.length > 0;
+  if (gitignoreUpdated) guarded.warnings.push(`Added ${ignored.join(" and ")} to .gitignore`);
+  if (!writable) guarded.warnings.push(`.autofix not writable; using temp snapshot dir: ${snapshotDir}`);
+
+  const tornDown = guarded.steps.some((s) => s.id.split("@")[0] === "docker-compose-down");
+  if (tornDown && guarded.steps.some((s) => s.checkKind === "test")) {
+    guarded.warnings.push(`Tests may require services; run \`${runtimeLabel(detection.docker.runtime ?? "docker")} up -d\` and re-run tests.`);
+  }
 
+  const report = assembleReport(ctx, detection, executed, guarded.warnings, startedAt, storage);
+  report.plugins = pluginReports;
   return { report, gitignoreUpdated };
 }
+
+/** Clear what the interrupted attempt recorded, so the step runs again from its planned state. */
+function resetStep(step: FixStep): FixStep {
+  return {
+    ...step,
+    status: step.proposedReason ? "proposed" : "planned",
+    output: undefined,
+    error: undefined,
+    skippedReason: undefined,
+    snapshot: undefined,
+    resultHashes: undefined,
+    fileChanges: undefined,
+    logPath: undefined,
+  };
+}
+
+/**
+ * Continue an interrupted run from its first unfinished step, reusing the stored plan and flags
+ * (output flags come from the current invocation). The result is recorded as a new run.
+ */
+export async function resumeAutoFix(
+  ctx: CommandContext,
+  config: Config,
+  reportDir: string,
+  source: RunReport,
+  callbacks?: RunCallbacks,
+): Promise<{ report: RunReport; gitignoreUpdated: boolean }> {
+  const startedAt = new Date().toISOString();
+  const remaining = new Set(source.interrupted?.remainingStepIds ?? []);
+  const steps = source.steps.filter((s) => remaining.has(s.id)).map(resetStep);
+  const { verbose, quiet, noColor, json, reportPath, jobs } = ctx.flags;
+  const resumeCtx: CommandContext = {
+    ...ctx,
+    command: "resume",
+    flags: { ...source.flags, dryRun: false, verbose, quiet, noColor, json, reportPath, jobs, runId: undefined },
+  };
+  callbacks?.onDetection?.(source.detection);
+  callbacks?.onPlanReady?.(steps);
+
+  // Plugins are reloaded for their allowlisted binaries and verify hooks; the plan itself comes from the report.
+  const { plugins } = await loadPlugins(ctx.cwd, config);
+  const { snapshotDir, writable } = await resolveSnapshotDir(resumeCtx, config);
+  const storage = { reportDir, snapshotDir, fallbackToTemp: !writable };
+  const warnings = [`Resumed run ${source.runId} at step ${steps[0]?.id ?? "(none)"}`];
+  const options = trackExecution(resumeCtx, steps, executeOptions(resumeCtx, config, plugins), callbacks, (current) => (
+    { ...assembleReport(resumeCtx, source.detection, current, warnings, startedAt, storage), resumeOf: source.runId }
+  ));
+  const executed = await executeSteps(resumeCtx, steps, snapshotDir, callbacks?.stepHooks, options);
+  const pluginReports = await reportPlugins(resumeCtx, plugins, source.detection, executed, warnings);
+  if (!writable) warnings.push(`.autofix not writable; using temp snapshot dir: ${snapshotDir}`);
+
+  const report = assembleReport(resumeCtx, source.detection, executed, warnings, startedAt, storage);
+  report.resumeOf = source.runId;
+  report.plugins = pluginReports;
+  return { report, gitignoreUpdated: false };
+}
@@ -1,22 +1,164 @@
 import path from "node:path";
-import { cp } from "node:fs/promises";
-import { ensureDir, fileExists } from "../utils/fs.js";
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { chmod, copyFile, lstat, readdir, readFile, rename, rm, utimes, writeFile } from "node:fs/promises";
+import type { SnapshotEntry, SnapshotManifest } from "../types.js";
+import { ensureDir, fileExists, pathSize } from "../utils/fs.js";
+import { packDirectory, unpackDirectory } from "../utils/tar.js";
 
-export async function snapshotPathsForStep(
+/**
+ * Content-addressed blob location: `<store>/blobs/<aa>/<sha256>`.
+ * Identical content captured by different runs or steps is stored once.
+ */
+export function blobPath(store: string, sha256: string): string {
+  return path.join(store, "blobs", sha256.slice(0, 2), sha256);
+}
+
+/** Refresh mtime so gc's grace period covers blobs reused by an in-progress run. */
+async function touchExisting(dest: string): Promise<boolean> {
+  if (!(await fileExists(dest))) return false;
+  const now = new Date();
+  await utimes(dest, now, now);
+  return true;
+}
+
+async function storeBlob(store: string, content: Buffer): Promise<string> {
+  const sha256 = createHash("sha256").update(content).digest("hex");
+  const dest = blobPath(store, sha256);
+  if (await touchExisting(dest)) return sha256;
+  await ensureDir(path.dirname(dest));
+  // Write then rename so an interrupted snapshot never leaves a truncated blob under its final hash.
+  const tmp = `${dest}.${process.pid}.tmp`;
+  await writeFile(tmp, content);
+  await rename(tmp, dest);
+  return sha256;
+}
+
+/** sha256 of a file, streamed so large blobs (volume tarballs) are never held in memory. */
+async function hashStream(file: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(file)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+/** Move a finished file (e.g. an exported volume tarball) into the blob store under its hash. */
+export async function storeBlobFile(store: string, file: string): Promise<string> {
+  const sha256 = await hashStream(file);
+  const dest = blobPath(store, sha256);
+  if (await touchExisting(dest)) {
+    await rm(file, { force: true });
+    return sha256;
+  }
+  await ensureDir(path.dirname(dest));
+  await rename(file, dest);
+  return sha256;
+}
+
+async function collectFiles(cwd: string, relativePath: string): Promise<string[]> {
+  const info = await lstat(path.join(cwd, relativePath));
+  if (info.isSymbolicLink()) return [];
+  if (info.isFile()) return [relativePath];
+  if (!info.isDirectory()) return [];
+  const files: string[] = [];
+  for (const name of (await readdir(path.join(cwd, relativePath))).sort()) {
+    files.push(...await collectFiles(cwd, path.posix.join(relativePath, name)));
+  }
+  return files;
+}
+
+export interface CaptureOptions {
+  /** Store each directory candidate as a single gzip-compressed tar instead of one entry per file. */
+  archiveDirectories?: boolean;
+  /** Record candidates that do not exist as `absent` entries, so undo can remove what a step created. */
+  recordMissing?: boolean;
+}
+
+/** Total on-disk size of the candidates that exist, used to apply the snapshot size policy. */
+export async function measureSnapshot(cwd: string, candidates: string[]): Promise<number> {
+  let total = 0;
+  for (const candidate of candidates) {
+    if (candidate === "node_modules") continue;
+    total += await pathSize(path.join(cwd, candidate));
+  }
+  return total;
+}
+
+/**
+ * Capture `candidates` (paths relative to `cwd`, files or directories) into the blob store.
+ * Missing candidates are skipped; directories become one archive entry or one entry per file.
+ */
+export async function captureSnapshot(
   cwd: string,
-  snapshotRoot: string,
-  stepId: string,
+  store: string,
   candidates: string[],
-): Promise<string[]> {
-  const created: string[] = [];
+  options: CaptureOptions = {},
+): Promise<SnapshotManifest> {
+  const entries: SnapshotEntry[] = [];
   for (const candidate of candidates) {
     if (candidate === "node_modules") continue;
-    const source = path.join(cwd, candidate);
-    if (!(await fileExists(source))) continue;
-    const dest = path.join(snapshotRoot, stepId, candidate.replace(/[\\/:]/g, "_"));
-    await ensureDir(path.dirname(dest));
-    await cp(source, dest, { recursive: true, force: true });
-    created.push(dest);
+    const relative = candidate.split(path.sep).join("/");
+    const source = path.join(cwd, relative);
+    if (!(await fileExists(source))) {
+      if (options.recordMissing) entries.push({ path: relative, kind: "absent", sha256: "", size: 0, mode: 0, mtime: new Date(0).toISOString() });
+      continue;
+    }
+
+    const info = await lstat(source);
+    if (info.isDirectory() && options.archiveDirectories) {
+      const archive = await packDirectory(source);
+      entries.push({
+        path: relative,
+        kind: "archive",
+        sha256: await storeBlob(store, archive),
+        size: archive.length,
+        unpackedSize: await pathSize(source),
+        mode: info.mode & 0o7777,
+        mtime: info.mtime.toISOString(),
+      });
+      continue;
+    }
+
+    for (const file of await collectFiles(cwd, relative)) {
+      const fileInfo = await lstat(path.join(cwd, file));
+      entries.push({
+        path: file,
+        sha256: await storeBlob(store, await readFile(path.join(cwd, file))),
+        size: fileInfo.size,
+        mode: fileInfo.mode & 0o7777,
+        mtime: fileInfo.mtime.toISOString(),
+      });
+    }
+  }
+  return { store, entries };
+}
+
+/** Check a blob is present and its content still hashes to `sha256`. */
+export async function verifyBlob(store: string, sha256: string): Promise<"ok" | "missing" | "corrupt"> {
+  const blob = blobPath(store, sha256);
+  if (!(await fileExists(blob))) return "missing";
+  return (await hashStream(blob)) === sha256 ? "ok" : "corrupt";
+}
+
+/**
+ * Write a manifest entry back to `target`, restoring its recorded mode and mtime.
+ * Archive entries replace the whole directory with the archived contents; absent entries remove `target`.
+ */
+export async function restoreBlob(store: string, entry: SnapshotEntry, target: string): Promise<void> {
+  if (entry.kind === "absent") {
+    await rm(target, { recursive: true, force: true });
+    return;
+  }
+  if (entry.kind === "archive") {
+    await rm(target, { recursive: true, force: true });
+    await unpackDirectory(await readFile(blobPath(store, entry.sha256)), target);
+    await chmod(target, entry.mode);
+    const mtime = new Date(entry.mtime);
+    await utimes(target, mtime, mtime);
+    return;
   }
-  return created;
+  await ensureDir(path.dirname(target));
+  await copyFile(blobPath(store, entry.sha256), target);
+  await chmod(target, entry.mode);
+  const mtime = new Date(entry.mtime);
+  await utimes(target, mtime, mtime);
 }
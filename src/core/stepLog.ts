@@ -0,0 +1,48 @@
+import path from "node:path";
+import { createWriteStream } from "node:fs";
+import { ensureDir } from "../utils/fs.js";
+
+export interface StepLog {
+  /** Absolute path of the log file. */
+  path: string;
+  write(text: string): void;
+  close(): Promise<void>;
+}
+
+function logFileName(stepId: string): string {
+  return `${stepId.replace(/[^A-Za-z0-9._@-]/g, "-")}.log`;
+}
+
+/**
+ * Open `<logDir>/<runId>/<stepId>.log` for the full output of one step.
+ * Returns null when the log directory cannot be created; logging never fails a step.
+ */
+export async function openStepLog(logDir: string, runId: string, stepId: string): Promise<StepLog | null> {
+  const dir = path.join(logDir, runId);
+  try {
+    await ensureDir(dir);
+  } catch {
+    return null;
+  }
+  const file = path.join(dir, logFileName(stepId));
+  const stream = createWriteStream(file, { flags: "a" });
+  let broken = false;
+  stream.on("error", () => {
+    broken = true;
+  });
+  return {
+    path: file,
+    write(text: string) {
+      if (!broken) stream.write(text);
+    },
+    close() {
+      return new Promise((resolve) => {
+        if (broken) {
+          resolve();
+          return;
+        }
+        stream.end(() => resolve());
+      });
+    },
+  };
+}
@@ -1,72 +1,305 @@
 import path from "node:path";
-import { cp, mkdir } from "node:fs/promises";
-import type { RunReport, UndoEntry } from "../types.js";
-import { fileExists, readJsonFile } from "../utils/fs.js";
+import { cp, mkdir, readFile, rm, stat } from "node:fs/promises";
+import type { CommandContext, FixStep, RunReport, SnapshotEntry, SnapshotManifest, UndoEntry } from "../types.js";
+import { fileExists, formatBytes, hashFile, readJsonFile, resolveInsideRoot } from "../utils/fs.js";
+import { diffLines } from "../utils/diff.js";
+import { blobPath, captureSnapshot, restoreBlob, verifyBlob } from "./snapshots.js";
+import { computeSummary } from "./run.js";
+import { exportVolume, importVolume, volumeExists } from "./volumeSnapshots.js";
 
-export async function undoLatest(reportPath: string, cwd: string): Promise<{ report: RunReport | null; entries: UndoEntry[] }> {
+export interface UndoOptions {
+  /** Report what would change without touching the working tree. */
+  dryRun?: boolean;
+  /** Snapshot store for the undo run itself; when set, targets are captured before being overwritten. */
+  preUndoStore?: string;
+}
+
+interface RestoreState {
+  restored: string[];
+  failed: string[];
+  skipped: string[];
+  missingSnapshot: string[];
+  modifiedSinceRun: string[];
+  preview: string[];
+  preUndo: SnapshotEntry[];
+}
+
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join("/");
+}
+
+async function previewRestore(relativePath: string, target: string, source: string): Promise<string[]> {
+  const header = `${toPosix(relativePath)}:`;
+  const sourceInfo = await stat(source);
+  if (sourceInfo.isDirectory()) return [header, "  (directory will be restored from snapshot)"];
+  if (!(await fileExists(target))) return [header, "  (missing; will be recreated from snapshot)"];
+  const targetInfo = await stat(target);
+  if (targetInfo.isDirectory()) return [header, "  (directory will be replaced by snapshot file)"];
+  const diff = diffLines(await readFile(target, "utf8"), await readFile(source, "utf8"));
+  if (diff.length === 0) return [header, "  (no changes)"];
+  return [header, ...diff.map((line) => `  ${line}`)];
+}
+
+async function capturePreUndo(cwd: string, relativePath: string, state: RestoreState, options: UndoOptions) {
+  if (!options.preUndoStore) return;
+  const manifest = await captureSnapshot(cwd, options.preUndoStore, [relativePath], { archiveDirectories: true, recordMissing: true });
+  state.preUndo.push(...manifest.entries);
+}
+
+/** The path did not exist before the run: undo removes whatever the step created there. */
+async function removeCreated(cwd: string, step: FixStep, relativePath: string, target: string, state: RestoreState, options: UndoOptions) {
+  if (!(await fileExists(target))) {
+    state.skipped.push(`${target} (already absent)`);
+    return;
+  }
+  const recordedHash = step.resultHashes?.[relativePath];
+  if (recordedHash && (await hashFile(target)) !== recordedHash) state.modifiedSinceRun.push(target);
+  if (options.dryRun) {
+    state.preview.push(`${relativePath}:`, "  (did not exist before the run; will be deleted)");
+    return;
+  }
+  try {
+    await capturePreUndo(cwd, relativePath, state, options);
+    await rm(target, { recursive: true, force: true });
+    state.restored.push(target);
+  } catch {
+    state.failed.push(target);
+  }
+}
+
+/** Re-import a Docker volume exported before the step deleted it; its current contents are exported first for redo. */
+async function restoreVolume(cwd: string, manifest: SnapshotManifest, entry: SnapshotEntry, state: RestoreState, options: UndoOptions) {
+  const label = `docker volume ${entry.path}`;
+  const blobState = await verifyBlob(manifest.store, entry.sha256);
+  if (blobState === "missing") {
+    state.missingSnapshot.push(label);
+    return;
+  }
+  if (blobState === "corrupt") {
+    state.failed.push(`${label} (blocked: snapshot content does not match recorded sha256)`);
+    return;
+  }
+  if (options.dryRun) {
+    const unpacked = entry.unpackedSize !== undefined ? `${formatBytes(entry.unpackedSize)}, ` : "";
+    state.preview.push(`${label}:`, `  (contents will be replaced from snapshot: ${unpacked}${formatBytes(entry.size)} compressed)`);
+    return;
+  }
+  try {
+    const engine = entry.engine ?? "docker";
+    if (options.preUndoStore && (await volumeExists(cwd, engine, entry.path))) {
+      state.preUndo.push(await exportVolume(cwd, engine, options.preUndoStore, entry.path));
+    }
+    await importVolume(cwd, manifest.store, entry);
+    state.restored.push(label);
+  } catch {
+    state.failed.push(label);
+  }
+}
+
+/** Restore from a content-addressed manifest, verifying each blob's hash before writing. */
+async function restoreFromManifest(cwd: string, step: FixStep, manifest: SnapshotManifest, state: RestoreState, options: UndoOptions) {
+  for (const entry of manifest.entries) {
+    if (entry.kind === "volume") {
+      await restoreVolume(cwd, manifest, entry, state, options);
+      continue;
+    }
+
+    const target = resolveInsideRoot(cwd, entry.path);
+    if (!target) {
+      state.failed.push(`${path.resolve(cwd, entry.path)} (blocked: path traversal outside project root)`);
+      continue;
+    }
+
+    if (entry.kind === "absent") {
+      await removeCreated(cwd, step, entry.path, target, state, options);
+      continue;
+    }
+
+    const blobState = await verifyBlob(manifest.store, entry.sha256);
+    if (blobState === "missing") {
+      state.missingSnapshot.push(entry.path);
+      continue;
+    }
+    if (blobState === "corrupt") {
+      state.failed.push(`${target} (blocked: snapshot content does not match recorded sha256)`);
+      continue;
+    }
+
+    const currentHash = await hashFile(target);
+    const recordedHash = step.resultHashes?.[entry.path];
+    if (recordedHash && currentHash !== recordedHash) state.modifiedSinceRun.push(target);
+
+    if (options.dryRun) {
+      if (entry.kind === "archive") {
+        const unpacked = entry.unpackedSize !== undefined ? `${formatBytes(entry.unpackedSize)}, ` : "";
+        state.preview.push(`${entry.path}/:`, `  (directory will be replaced from archive: ${unpacked}${formatBytes(entry.size)} compressed)`);
+      } else {
+        state.preview.push(...await previewRestore(entry.path, target, blobPath(manifest.store, entry.sha256)));
+      }
+      continue;
+    }
+    if (currentHash === entry.sha256) {
+      state.skipped.push(`${target} (already matches snapshot)`);
+      continue;
+    }
+
+    try {
+      await capturePreUndo(cwd, entry.path, state, options);
+      await restoreBlob(manifest.store, entry, target);
+      state.restored.push(target);
+    } catch {
+      state.failed.push(target);
+    }
+  }
+}
+
+/**
+ * Reports written before snapshot manifests existed store absolute snapshot paths whose
+ * filename encodes the original relative path with separators replaced by `_`.
+ */
+async function restoreLegacySnapshots(cwd: string, step: FixStep, snapshotPaths: string[], state: RestoreState, options: UndoOptions) {
+  for (const snap of snapshotPaths) {
+    if (!(await fileExists(snap))) {
+      state.missingSnapshot.push(snap);
+      continue;
+    }
+    const relativePath = path.basename(snap).replace(/_/g, path.sep);
+    const target = resolveInsideRoot(cwd, relativePath);
+    if (!target) {
+      state.failed.push(`${path.resolve(cwd, relativePath)} (blocked: path traversal outside project root)`);
+      continue;
+    }
+
+    const currentHash = await hashFile(target);
+    const recordedHash = step.resultHashes?.[toPosix(relativePath)];
+    if (recordedHash && currentHash !== recordedHash) state.modifiedSinceRun.push(target);
+
+    if (options.dryRun) {
+      state.preview.push(...await previewRestore(relativePath, target, snap));
+      continue;
+    }
+    if (currentHash && currentHash === (await hashFile(snap))) {
+      state.skipped.push(`${target} (already matches snapshot)`);
+      continue;
+    }
+
+    try {
+      await capturePreUndo(cwd, toPosix(relativePath), state, options);
+      await mkdir(path.dirname(target), { recursive: true });
+      await cp(snap, target, { recursive: true, force: true });
+      state.restored.push(target);
+    } catch {
+      state.failed.push(target);
+    }
+  }
+}
+
+export async function undoLatest(
+  reportPath: string,
+  cwd: string,
+  options: UndoOptions = {},
+): Promise<{ report: RunReport | null; entries: UndoEntry[] }> {
   const report = await readJsonFile<RunReport>(reportPath);
   if (!report) return { report: null, entries: [] };
 
   const entries: UndoEntry[] = [];
 
-  for (const step of report.steps) {
-    const restored: string[] = [];
-    const failed: string[] = [];
-    const skipped: string[] = [];
-    const missingSnapshot: string[] = [];
-
-    if (!step.undoable || !step.snapshotPaths || step.snapshotPaths.length === 0) {
-      skipped.push("not undoable or no snapshot");
+  // Latest step first, so when steps snapshotted the same path the earliest (pre-run) content is restored last.
+  for (const step of [...report.steps].reverse()) {
+    const hasManifest = Boolean(step.snapshot && step.snapshot.entries.length > 0);
+    if (!step.undoable || (!hasManifest && (!step.snapshotPaths || step.snapshotPaths.length === 0))) {
       entries.push({
         stepId: step.id,
         snapshotPaths: step.snapshotPaths ?? [],
-        restored,
-        skipped,
-        missingSnapshot,
-        failed,
+        restored: [],
+        skipped: ["not undoable or no snapshot"],
+        missingSnapshot: [],
+        failed: [],
         nextBestAction: step.undoHints?.[0]?.command,
       });
       continue;
     }
 
-    for (const snap of step.snapshotPaths) {
-      if (!(await fileExists(snap))) {
-        missingSnapshot.push(snap);
-        continue;
-      }
-      // The snapshot filename encodes the original relative path with separators replaced by `_`.
-      // Extract just the filename portion (after the stepId directory) and reverse the encoding.
-      const base = path.basename(snap);
-      const relativePath = base.replace(/_/g, path.sep);
-      const target = path.resolve(cwd, relativePath);
-
-      // SEC-002: Containment check — reject any path that escapes project root
-      const normalizedCwd = path.resolve(cwd) + path.sep;
-      if (!target.startsWith(normalizedCwd) && target !== path.resolve(cwd)) {
-        failed.push(`${target} (blocked: path traversal outside project root)`);
-        continue;
-      }
-
-      try {
-        const targetDir = path.dirname(target);
-        await mkdir(targetDir, { recursive: true });
-        await cp(snap, target, { recursive: true, force: true });
-        restored.push(target);
-      } catch {
-        failed.push(target);
-      }
-    }
+    const state: RestoreState = {
+      restored: [],
+      failed: [],
+      skipped: [],
+      missingSnapshot: [],
+      modifiedSinceRun: [],
+      preview: [],
+      preUndo: [],
+    };
+    if (step.snapshot && hasManifest) await restoreFromManifest(cwd, step, step.snapshot, state, options);
+    else await restoreLegacySnapshots(cwd, step, step.snapshotPaths ?? [], state, options);
 
     entries.push({
       stepId: step.id,
-      snapshotPaths: step.snapshotPaths,
-      restored,
-      skipped,
-      missingSnapshot,
-      failed,
+      snapshotPaths: step.snapshotPaths ?? [],
+      restored: state.restored,
+      skipped: state.skipped,
+      missingSnapshot: state.missingSnapshot,
+      failed: state.failed,
+      modifiedSinceRun: state.modifiedSinceRun,
+      preUndoSnapshot: options.preUndoStore ? { store: options.preUndoStore, entries: state.preUndo } : undefined,
+      preview: options.dryRun ? state.preview : undefined,
       nextBestAction: step.undoHints?.[0]?.command,
     });
   }
 
   return { report, entries };
 }
+
+/**
+ * Record an undo (or redo) as a run of its own. Each step carries the pre-undo snapshot,
+ * so `auto-fix redo` or `undo --run-id <id>` can put the overwritten content back.
+ */
+export async function buildUndoReport(
+  ctx: CommandContext,
+  source: RunReport,
+  entries: UndoEntry[],
+  storage: RunReport["storage"],
+  startedAt: string,
+): Promise<RunReport> {
+  const steps: FixStep[] = [];
+  for (const entry of entries) {
+    if (entry.restored.length === 0 && entry.failed.length === 0) continue;
+    const original = source.steps.find((s) => s.id === entry.stepId);
+    const resultHashes: Record<string, string> = {};
+    for (const target of entry.restored) {
+      const hash = await hashFile(target);
+      if (hash) resultHashes[toPosix(path.relative(ctx.cwd, target))] = hash;
+    }
+    const preUndo = entry.preUndoSnapshot;
+    steps.push({
+      id: entry.stepId,
+      title: original?.title ?? entry.stepId,
+      subsystem: original?.subsystem ?? "meta",
+      phase: original?.phase ?? "detect",
+      rationale: `Restored snapshots from run ${source.runId}.`,
+      commands: [],
+      destructive: false,
+      irreversible: false,
+      undoable: (preUndo?.entries.length ?? 0) > 0,
+      snapshot: preUndo,
+      snapshotPaths: preUndo?.entries.map((e) => e.path) ?? [],
+      resultHashes,
+      status: entry.failed.length > 0 ? (entry.restored.length > 0 ? "partial" : "failed") : "success",
+      error: entry.failed.length > 0 ? `Failed to restore: ${entry.failed.join(", ")}` : undefined,
+    });
+  }
+
+  return {
+    runId: ctx.runId,
+    command: ctx.command,
+    cwd: ctx.cwd,
+    undoOf: source.runId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    flags: ctx.flags,
+    detection: source.detection,
+    steps,
+    summary: computeSummary(steps, source.detection, []),
+    undo: entries,
+    storage,
+  };
+}
@@ -0,0 +1,103 @@
+import path from "node:path";
+import { lstat, readFile, readlink, realpath } from "node:fs/promises";
+import type { VenvProblem } from "../types.js";
+import { fileExists } from "../utils/fs.js";
+import { runCommand } from "../utils/process.js";
+
+/** The interpreter probe runs during detection, so it gets a short time limit. */
+const PROBE_TIMEOUT_MS = 10_000;
+const PIP_PROBE = "import importlib.util; print(importlib.util.find_spec('pip') is not None)";
+
+async function readText(target: string): Promise<string | null> {
+  try {
+    return await readFile(target, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+async function canonical(target: string): Promise<string> {
+  try {
+    return await realpath(target);
+  } catch {
+    return path.resolve(target);
+  }
+}
+
+/**
+ * The venv directory from a `pyvenv.cfg` `command = <python> -m venv [--options] <dir>` line. The directory
+ * is written unquoted and may contain spaces, so it is everything after the options; anything that does
+ * not end in an absolute path is treated as unknown.
+ */
+function commandLocation(cfg: string): string | null {
+  const line = /^command\s*=\s*(.+)$/m.exec(cfg)?.[1].trim();
+  const dir = line ? /\s-m\s+venv\s+(?:--\S+\s+)*(.+)$/.exec(line)?.[1] : undefined;
+  return dir && path.isAbsolute(dir) ? dir : null;
+}
+
+/**
+ * Where the venv was created: the directory in `command` of `pyvenv.cfg` (Python 3.11+), else the
+ * `VIRTUAL_ENV=` line of `bin/activate`.
+ */
+async function recordedLocation(venvDir: string, cfg: string | null, binDir: string): Promise<string | null> {
+  const command = cfg ? commandLocation(cfg) : null;
+  if (command) return command;
+  const activate = await readText(path.join(venvDir, binDir, "activate"));
+  for (const match of activate?.matchAll(/^\s*(?:export\s+)?VIRTUAL_ENV=["']?([^"'\n]+?)["']?\s*$/gm) ?? []) {
+    if (!match[1].startsWith("$")) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Validate an existing virtual environment: the interpreter exists and runs (a symlink into an upgraded
+ * Homebrew Python is the usual breakage), the base interpreter in `pyvenv.cfg` `home` still exists, the venv
+ * has not been moved since it was created, and pip is importable. uv-created venvs ship without pip on
+ * purpose, so pip is not checked for them.
+ */
+export async function checkVenvHealth(cwd: string, venvPath: string): Promise<VenvProblem[]> {
+  const venvDir = path.resolve(cwd, venvPath);
+  const label = `python virtual environment ${venvPath}`;
+  const binDir = process.platform === "win32" ? "Scripts" : "bin";
+  const interpreterName = `${binDir}/${process.platform === "win32" ? "python.exe" : "python"}`;
+  const interpreter = path.join(venvDir, interpreterName);
+  const cfg = await readText(path.join(venvDir, "pyvenv.cfg"));
+  const problems: VenvProblem[] = [];
+
+  const home = cfg ? /^home\s*=\s*(.+)$/m.exec(cfg)?.[1].trim() : undefined;
+  if (home && !(await fileExists(home))) {
+    problems.push({ kind: "home-missing", message: `${label}: base interpreter directory ${home} (pyvenv.cfg home) no longer exists` });
+  }
+
+  const recorded = await recordedLocation(venvDir, cfg, binDir);
+  if (recorded && (await canonical(recorded)) !== (await canonical(venvDir))) {
+    problems.push({ kind: "moved", message: `${label}: created at ${recorded} and since moved; its scripts still point there` });
+  }
+
+  let linked = true;
+  try {
+    await lstat(interpreter);
+  } catch {
+    linked = false;
+  }
+  if (!linked) {
+    problems.push({ kind: "interpreter-missing", message: `${label}: ${interpreterName} is missing` });
+    return problems;
+  }
+  if (!(await fileExists(interpreter))) {
+    const target = await readlink(interpreter).catch(() => "a missing file");
+    problems.push({ kind: "interpreter-broken", message: `${label}: ${interpreterName} points to ${target}, which no longer exists` });
+    return problems;
+  }
+
+  const probe = await runCommand({ bin: interpreter, args: ["-c", PIP_PROBE] }, cwd, { timeoutMs: PROBE_TIMEOUT_MS });
+  if (!probe.success) {
+    const reason = probe.timedOut ? "timed out" : probe.stderr.trim().split("\n").pop() || `exit code ${probe.code}`;
+    problems.push({ kind: "interpreter-broken", message: `${label}: ${interpreterName} does not run (${reason})` });
+    return problems;
+  }
+  if (probe.stdout.trim() === "False" && !/^uv\s*=/m.test(cfg ?? "")) {
+    problems.push({ kind: "pip-missing", message: `${label}: pip is not installed` });
+  }
+  return problems;
+}
@@ -0,0 +1,96 @@
+import path from "node:path";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import type { SnapshotEntry } from "../types.js";
+import { ensureDir, formatBytes } from "../utils/fs.js";
+import { runCommand } from "../utils/process.js";
+import { blobPath, storeBlobFile } from "./snapshots.js";
+
+/** Throwaway container used to read and write volume contents; it only needs `sh`, `du`, `find` and `tar`. */
+const HELPER_IMAGE = "alpine:3";
+
+/** Run the container CLI (`docker`, `podman` or `nerdctl`); throws with its last stderr line on failure. */
+async function container(cwd: string, engine: string, args: string[]): Promise<string> {
+  const result = await runCommand({ bin: engine, args }, cwd);
+  if (!result.success) {
+    const reason = result.stderr.trim().split("\n").pop() || `exit code ${result.code}`;
+    throw new Error(`${engine} ${args.slice(0, 2).join(" ")}: ${reason}`);
+  }
+  return result.stdout;
+}
+
+export async function volumeExists(cwd: string, engine: string, name: string): Promise<boolean> {
+  const result = await runCommand({ bin: engine, args: ["volume", "inspect", name] }, cwd);
+  return result.success;
+}
+
+/** Bytes used by a volume's files, measured with `du` in a throwaway container. */
+async function volumeSize(cwd: string, engine: string, name: string): Promise<number> {
+  const output = await container(cwd, engine, ["run", "--rm", "-v", `${name}:/volume:ro`, HELPER_IMAGE, "du", "-sk", "/volume"]);
+  return Number(output.trim().split(/\s+/)[0] || 0) * 1024;
+}
+
+/** Export a volume to a gzip-compressed tar in the blob store. Throws when the runtime cannot export it. */
+export async function exportVolume(cwd: string, engine: string, store: string, name: string, unpackedSize?: number): Promise<SnapshotEntry> {
+  const labelsJson = await container(cwd, engine, ["volume", "inspect", "--format", "{{json .Labels}}", name]);
+  const labels = (JSON.parse(labelsJson.trim() || "null") as Record<string, string> | null) ?? {};
+  await ensureDir(store);
+  const tmp = await mkdtemp(path.join(path.resolve(store), "volume-"));
+  try {
+    await container(cwd, engine, [
+      "run", "--rm", "-v", `${name}:/volume:ro`, "-v", `${tmp}:/backup`, HELPER_IMAGE,
+      "tar", "-czf", "/backup/volume.tar.gz", "-C", "/volume", ".",
+    ]);
+    const archive = path.join(tmp, "volume.tar.gz");
+    const size = (await stat(archive)).size;
+    return {
+      path: name,
+      kind: "volume",
+      sha256: await storeBlobFile(store, archive),
+      size,
+      unpackedSize: unpackedSize ?? (await volumeSize(cwd, engine, name)),
+      mode: 0,
+      mtime: new Date().toISOString(),
+      labels,
+      engine,
+    };
+  } finally {
+    await rm(tmp, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Export every volume that still exists, unless together they exceed `maxBytes` (0 = no limit):
+ * then nothing is exported and the skip reason is returned instead.
+ */
+export async function captureVolumes(
+  cwd: string,
+  engine: string,
+  store: string,
+  volumes: string[],
+  maxBytes: number,
+): Promise<{ entries: SnapshotEntry[] } | { skipped: string }> {
+  const present: [string, number][] = [];
+  for (const name of volumes) {
+    if (await volumeExists(cwd, engine, name)) present.push([name, await volumeSize(cwd, engine, name)]);
+  }
+  const total = present.reduce((sum, [, size]) => sum + size, 0);
+  if (maxBytes > 0 && total > maxBytes) {
+    const sizes = present.map(([name, size]) => `${name} ${formatBytes(size)}`).join(", ");
+    return { skipped: `volume snapshot skipped: volumes take ${formatBytes(total)} (${sizes}), over the ${formatBytes(maxBytes)} docker.volume_snapshot_max_bytes limit` };
+  }
+  const entries: SnapshotEntry[] = [];
+  for (const [name, size] of present) entries.push(await exportVolume(cwd, engine, store, name, size));
+  return { entries };
+}
+
+/** Recreate a volume with its recorded labels and replace its contents with the snapshot. */
+export async function importVolume(cwd: string, store: string, entry: SnapshotEntry): Promise<void> {
+  const engine = entry.engine ?? "docker";
+  const labels = Object.entries(entry.labels ?? {}).flatMap(([key, value]) => ["--label", `${key}=${value}`]);
+  if (!(await volumeExists(cwd, engine, entry.path))) await container(cwd, engine, ["volume", "create", ...labels, entry.path]);
+  const blob = blobPath(path.resolve(store), entry.sha256);
+  await container(cwd, engine, [
+    "run", "--rm", "-v", `${entry.path}:/volume`, "-v", `${path.dirname(blob)}:/backup:ro`, HELPER_IMAGE,
+    "sh", "-c", `find /volume -mindepth 1 -delete && tar -xzf /backup/${entry.sha256} -C /volume`,
+  ]);
+}
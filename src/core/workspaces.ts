@@ -0,0 +1,131 @@
+import path from "node:path";
+import { readdir, readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import type { Config, WorkspacePackage } from "../types.js";
+import { fileExists } from "../utils/fs.js";
+import { matchesGlob } from "../utils/glob.js";
+
+export type DiscoveredPackage = Omit<WorkspacePackage, "detection">;
+
+/** Directories never descended into while looking for workspace members. */
+const IGNORED_DIRS = new Set(["node_modules", ".git", ".venv", "venv", "dist", "build", ".autofix", ".next", ".turbo", ".cache", "__pycache__"]);
+const MAX_DEPTH = 4;
+const PYPROJECT_MAX_DEPTH = 3;
+
+async function readWorkspacePatterns(cwd: string): Promise<{ patterns: string[]; source: DiscoveredPackage["source"] } | null> {
+  const pnpmWorkspace = path.join(cwd, "pnpm-workspace.yaml");
+  if (await fileExists(pnpmWorkspace)) {
+    try {
+      const parsed = parseYaml(await readFile(pnpmWorkspace, "utf8")) as { packages?: unknown } | null;
+      if (Array.isArray(parsed?.packages)) {
+        return { patterns: parsed.packages.filter((p): p is string => typeof p === "string"), source: "pnpm-workspace" };
+      }
+    } catch {
+      // Malformed workspace file: fall through to package.json#workspaces.
+    }
+  }
+
+  try {
+    const pkg = JSON.parse(await readFile(path.join(cwd, "package.json"), "utf8")) as {
+      workspaces?: string[] | { packages?: string[] };
+    };
+    const workspaces = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+    if (Array.isArray(workspaces)) {
+      return { patterns: workspaces.filter((p): p is string => typeof p === "string"), source: "package.json" };
+    }
+  } catch {
+    // No or malformed package.json: not a JS workspace.
+  }
+  return null;
+}
+
+async function listDirectories(cwd: string, maxDepth: number, skip: Set<string>): Promise<string[]> {
+  const out: string[] = [];
+  async function walk(rel: string, depth: number): Promise<void> {
+    if (depth > maxDepth) return;
+    let entries;
+    try {
+      entries = await readdir(path.join(cwd, rel), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory() || IGNORED_DIRS.has(entry.name) || skip.has(entry.name)) continue;
+      const child = rel ? `${rel}/${entry.name}` : entry.name;
+      out.push(child);
+      await walk(child, depth + 1);
+    }
+  }
+  await walk("", 1);
+  return out.sort();
+}
+
+async function readPackageName(dir: string): Promise<string | null> {
+  try {
+    const parsed = JSON.parse(await readFile(path.join(dir, "package.json"), "utf8")) as { name?: unknown };
+    return typeof parsed.name === "string" && parsed.name ? parsed.name : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readPyprojectName(dir: string): Promise<string | null> {
+  try {
+    const raw = await readFile(path.join(dir, "pyproject.toml"), "utf8");
+    let inNameSection = false;
+    for (const line of raw.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("[")) {
+        inNameSection = trimmed === "[project]" || trimmed === "[tool.poetry]";
+        continue;
+      }
+      const match = inNameSection ? trimmed.match(/^name\s*=\s*["']([^"']+)["']/) : null;
+      if (match) return match[1];
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find workspace members below `cwd`: JS members from `pnpm-workspace.yaml` or
+ * `package.json#workspaces`, plus any nested directory holding a `pyproject.toml`.
+ */
+export async function discoverWorkspacePackages(cwd: string, config: Config): Promise<DiscoveredPackage[]> {
+  const workspace = await readWorkspacePatterns(cwd);
+  const venvDir = path.basename(config.python?.venv_path ?? ".venv");
+  const found = new Map<string, DiscoveredPackage>();
+
+  if (workspace && workspace.patterns.length > 0) {
+    const include = workspace.patterns.filter((p) => !p.startsWith("!"));
+    const exclude = workspace.patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+    for (const dir of await listDirectories(cwd, MAX_DEPTH, new Set([venvDir]))) {
+      if (!include.some((p) => matchesGlob(dir, p)) || exclude.some((p) => matchesGlob(dir, p))) continue;
+      if (!(await fileExists(path.join(cwd, dir, "package.json")))) continue;
+      found.set(dir, {
+        name: (await readPackageName(path.join(cwd, dir))) ?? dir,
+        path: dir,
+        source: workspace.source,
+        managedByRoot: true,
+      });
+    }
+  }
+
+  for (const dir of await listDirectories(cwd, PYPROJECT_MAX_DEPTH, new Set([venvDir]))) {
+    if (found.has(dir) || !(await fileExists(path.join(cwd, dir, "pyproject.toml")))) continue;
+    found.set(dir, {
+      name: (await readPyprojectName(path.join(cwd, dir))) ?? dir,
+      path: dir,
+      source: "pyproject",
+      managedByRoot: false,
+    });
+  }
+
+  return [...found.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Match a `--package` filter against a package's name or its relative path. */
+export function matchesPackageFilter(pkg: { name: string; path: string }, filter: string): boolean {
+  return pkg.name === filter || pkg.path === filter || matchesGlob(pkg.name, filter) || matchesGlob(pkg.path, filter);
+}
@@ -0,0 +1,61 @@
+import path from "node:path";
+import { readdir } from "node:fs/promises";
+import type { RunReport } from "../types.js";
+import { readJsonFile } from "../utils/fs.js";
+
+export interface HistoryEntry {
+  runId: string;
+  command: RunReport["command"];
+  startedAt: string;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  undoCoverage: RunReport["summary"]["undoCoverage"];
+  snapshotSteps: number;
+}
+
+/** Run ids are generated from ISO timestamps + hex; reject anything that could escape the report dir. */
+export function isValidRunId(runId: string): boolean {
+  return /^[A-Za-z0-9._-]+$/.test(runId) && !runId.includes("..");
+}
+
+export function reportPathFor(reportDir: string, runId?: string): string {
+  if (!runId) return path.join(reportDir, "latest.json");
+  if (!isValidRunId(runId)) throw new Error(`Invalid run id: ${runId}`);
+  return path.join(reportDir, `${runId}.json`);
+}
+
+/** Read every `<runId>.json` in the report dir, newest first. Unreadable files are skipped. */
+export async function listRunReports(reportDir: string): Promise<RunReport[]> {
+  let names: string[];
+  try {
+    names = await readdir(reportDir);
+  } catch {
+    return [];
+  }
+  const reports: RunReport[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json") || name === "latest.json") continue;
+    try {
+      const report = await readJsonFile<RunReport>(path.join(reportDir, name));
+      // Only trust reports whose file name matches their run id.
+      if (report?.runId && name === `${report.runId}.json` && isValidRunId(report.runId)) reports.push(report);
+    } catch {
+      // Corrupt or partially written report: leave it out of history.
+    }
+  }
+  return reports.sort((a, b) => (b.startedAt ?? "").localeCompare(a.startedAt ?? ""));
+}
+
+export function toHistoryEntry(report: RunReport): HistoryEntry {
+  return {
+    runId: report.runId,
+    command: report.command,
+    startedAt: report.startedAt,
+    succeeded: report.summary?.succeeded ?? 0,
+    failed: report.summary?.failed ?? 0,
+    skipped: report.summary?.skipped ?? 0,
+    undoCoverage: report.summary?.undoCoverage ?? "full",
+    snapshotSteps: report.undo?.length ?? 0,
+  };
+}
@@ -1,5 +1,8 @@
 import type { CliFlags, RunReport } from "../types.js";
+import type { HistoryEntry } from "./history.js";
+import type { GcResult } from "../core/gc.js";
 import { style } from "../utils/colors.js";
+import { formatBytes } from "../utils/fs.js";
 
 function modeBanner(command: string, flags: CliFlags, useColor: boolean): string {
   const c = style(useColor);
@@ -9,7 +12,9 @@ function modeBanner(command: string, flags: CliFlags, useColor: boolean): string
   if (flags.approve) tags.push("approve");
   if (flags.forceFresh) tags.push("force-fresh");
   if (flags.focus !== "all") tags.push(`focus:${flags.focus}`);
+  if (flags.package) tags.push(`package:${flags.package}`);
   if (flags.killPorts) tags.push("kill-ports");
+  if (flags.jobs) tags.push(`jobs:${flags.jobs}`);
   if (flags.verbose) tags.push("verbose");
   if (flags.quiet) tags.push("quiet");
   const tagStr = tags.length > 0 ? ` ${c.dim(`[${tags.join(", ")}]`)}` : "";
@@ -26,6 +31,16 @@ export function renderSummary(report: RunReport, useColor: boolean): string {
   lines.push(c.title("Detected environment"));
   lines.push(`- ${report.summary.detectedEnvironment.join(", ") || "None"}`);
 
+  const stack = report.detection.docker.stack;
+  if (stack && (stack.services.length > 0 || stack.orphans.length > 0)) {
+    lines.push(c.title("Docker services"));
+    for (const status of stack.services) {
+      const ports = status.ports.length ? ` [${status.ports.join(", ")}]` : "";
+      lines.push(`- ${status.service}: ${status.diagnosis}${ports}`);
+    }
+    for (const orphan of stack.orphans) lines.push(`- ${orphan}: orphan container`);
+  }
+
   lines.push(c.title("Plan/Actions"));
   if (report.steps.length === 0) {
     lines.push("- No actions were planned.");
@@ -33,11 +48,29 @@ export function renderSummary(report: RunReport, useColor: boolean): string {
     for (const step of report.steps) {
       const tags: string[] = [];
       if (step.irreversible) tags.push("IRREVERSIBLE");
-      const extra = step.proposedReason ? ` (${step.proposedReason})` : "";
+      if (step.conditional) tags.push("CONDITIONAL");
+      const reason = step.proposedReason ?? step.skippedReason ?? step.conditional;
+      const extra = reason ? ` (${reason})` : "";
       lines.push(`- [${step.status}] ${step.id} ${step.title}${tags.length ? ` [${tags.join(",")}]` : ""}${extra}`);
       if (step.irreversible && step.irreversibleReason) {
         lines.push(`  reason: ${step.irreversibleReason} | This will NOT be covered by undo.`);
       }
+      for (const change of step.fileChanges ?? []) {
+        if (!change.changed) continue;
+        const keys = change.keys?.length ? `: ${change.keys.join(", ")}` : "";
+        lines.push(`  ${change.action} ${change.path}${keys}`);
+      }
+      if (step.status === "failed" && step.logPath) lines.push(`  log: ${step.logPath}`);
+    }
+  }
+
+  if (report.packages && report.packages.length > 0) {
+    lines.push(c.title("Packages"));
+    for (const pkg of report.packages) {
+      lines.push(
+        `- ${pkg.name} (${pkg.path}): Success: ${pkg.succeeded}, Failed: ${pkg.failed}, Skipped/Proposed: ${pkg.skipped}`,
+      );
+      for (const issue of pkg.issues) lines.push(`  issue: ${issue}`);
     }
   }
 
@@ -77,3 +110,31 @@ export function renderQuietSummary(report: RunReport, useColor: boolean): string
   lines.push(`- ${report.summary.nextBestAction}`);
   return lines.join("\n");
 }
+
+export function renderHistory(entries: HistoryEntry[], useColor: boolean): string {
+  const c = style(useColor);
+  const lines: string[] = [];
+  for (const entry of entries) {
+    const failed = entry.failed > 0 ? c.err(`Failed: ${entry.failed}`) : `Failed: ${entry.failed}`;
+    const undo = entry.snapshotSteps > 0 ? `${entry.undoCoverage} (${entry.snapshotSteps} snapshot step(s))` : "nothing to undo";
+    lines.push(`${c.strong(entry.runId)}  ${c.dim(entry.startedAt)}  ${entry.command}`);
+    lines.push(`  Success: ${entry.succeeded}, ${failed}, Skipped/Proposed: ${entry.skipped} | Undo: ${undo}`);
+  }
+  return lines.join("\n");
+}
+
+export function renderGcResult(result: GcResult, useColor: boolean): string {
+  const c = style(useColor);
+  const lines: string[] = [];
+  const verb = result.dryRun ? "Would remove" : "Removed";
+  if (result.removed.length === 0) {
+    lines.push("- Nothing to prune; retention limits are satisfied.");
+  } else {
+    for (const candidate of result.removed) {
+      lines.push(`- ${verb} ${candidate.runId} (${candidate.reason}, ${formatBytes(candidate.bytes)})`);
+    }
+  }
+  lines.push(`- Kept ${result.keptRunIds.length} run(s)${result.protectedRunId ? `; protected latest undoable run ${c.strong(result.protectedRunId)}` : ""}`);
+  lines.push(`- ${result.dryRun ? "Would free" : "Freed"} ${formatBytes(result.freedBytes)}`);
+  return lines.join("\n");
+}
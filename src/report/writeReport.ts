@@ -2,10 +2,18 @@ import path from "node:path";
 import type { RunReport } from "../types.js";
 import { writeJsonFile } from "../utils/fs.js";
 
-export async function writeRunReport(report: RunReport, reportDir: string): Promise<{ runReportPath: string; latestPath: string }> {
+/**
+ * Write `<runId>.json` and, unless disabled, `latest.json`. Undo/redo runs skip `latest.json`
+ * so that `report` and a plain `undo` keep pointing at the last fix run.
+ */
+export async function writeRunReport(
+  report: RunReport,
+  reportDir: string,
+  options: { updateLatest?: boolean } = {},
+): Promise<{ runReportPath: string; latestPath: string }> {
   const runReportPath = path.join(reportDir, `${report.runId}.json`);
   const latestPath = path.join(reportDir, "latest.json");
   await writeJsonFile(runReportPath, report);
-  await writeJsonFile(latestPath, report);
+  if (options.updateLatest ?? true) await writeJsonFile(latestPath, report);
   return { runReportPath, latestPath };
 }
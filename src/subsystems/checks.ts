@@ -1,4 +1,9 @@
 import type { CheckKind, CliFlags, Config, EnvDetection, FixStep } from "../types.js";
+import { parseConfigCommand } from "../core/commands.js";
+
+/** Checks run after their ecosystem's repairs (and any Docker services they may need); format, lint and test stay in order. */
+const NODE_CHECK_LINKS = { provides: ["checks:node"], dependsOn: ["env", "docker", "node"] };
+const PYTHON_CHECK_LINKS = { provides: ["checks:python"], dependsOn: ["env", "docker", "python"] };
 
 function nodeChecks(detection: EnvDetection, selected: CheckKind[]): FixStep[] {
   if (!detection.node.detected) return [];
@@ -11,8 +16,9 @@ function nodeChecks(detection: EnvDetection, selected: CheckKind[]): FixStep[] {
       subsystem: "checks",
       phase: "checks",
       checkKind: "format",
+      ...NODE_CHECK_LINKS,
       rationale: "Configured formatting check for JS/TS project.",
-      commands: ["npm run format"],
+      commands: [{ bin: "npm", args: ["run", "format"] }],
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -26,8 +32,9 @@ function nodeChecks(detection: EnvDetection, selected: CheckKind[]): FixStep[] {
       subsystem: "checks",
       phase: "checks",
       checkKind: "lint",
+      ...NODE_CHECK_LINKS,
       rationale: "Configured lint check for JS/TS project.",
-      commands: ["npm run lint"],
+      commands: [{ bin: "npm", args: ["run", "lint"] }],
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -41,8 +48,9 @@ function nodeChecks(detection: EnvDetection, selected: CheckKind[]): FixStep[] {
       subsystem: "checks",
       phase: "checks",
       checkKind: "test",
+      ...NODE_CHECK_LINKS,
       rationale: "Configured test script for JS/TS project.",
-      commands: ["npm test"],
+      commands: [{ bin: "npm", args: ["test"] }],
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -52,64 +60,20 @@ function nodeChecks(detection: EnvDetection, selected: CheckKind[]): FixStep[] {
   return steps;
 }
 
-/**
- * REL-004: Known tool binary allowlist.
- * Only commands starting with a recognized dev tool will be auto-executed.
- * Unrecognized binaries (touch, rm, curl, wget, etc.) are rejected.
- */
-const KNOWN_TOOL_BINARIES = new Set([
-  // Python formatters
-  "ruff", "black", "autopep8", "yapf", "isort", "pyink",
-  // Python linters
-  "flake8", "pylint", "pyflakes", "pydocstyle", "pycodestyle", "bandit", "vulture",
-  // Python type checkers
-  "mypy", "pyright", "pytype", "pyre",
-  // Python test runners
-  "pytest", "unittest", "nose2", "tox", "nox", "coverage",
-  // Python package managers (used as runner)
-  "pip", "uv", "poetry", "pipenv", "pdm",
-  // Python misc
-  "python", "python3", "pre-commit", "sphinx-build",
-  // Node tools (in case used in python context)
-  "npm", "npx", "pnpm", "yarn",
-]);
-
-/**
- * REL-004: Validate a config-sourced command string.
- * Two checks:
- * 1. Character allowlist — rejects shell metacharacters
- * 2. Binary allowlist — first token must be a known dev tool
- */
-function isSafeCommand(cmd: string): { safe: boolean; reason: string } {
-  if (!cmd || cmd.trim().length === 0) return { safe: false, reason: "Empty command" };
-
-  // Check 1: Character-level safety (no shell metacharacters)
-  if (!/^[a-zA-Z0-9._\-/@:=*\s]+$/.test(cmd)) {
-    return { safe: false, reason: `contains shell metacharacters` };
-  }
-
-  // Check 2: First token must be a known tool binary
-  const binary = cmd.trim().split(/\s+/)[0].replace(/^.*\//, ""); // strip leading path
-  if (!KNOWN_TOOL_BINARIES.has(binary)) {
-    return { safe: false, reason: `unrecognized tool '${binary}'` };
-  }
-
-  return { safe: true, reason: "" };
-}
-
 function pythonChecks(detection: EnvDetection, config: Config, selected: CheckKind[]): FixStep[] {
   if (!detection.python.detected) return [];
   const steps: FixStep[] = [];
   if (selected.includes("format")) {
     for (const cmd of config.python.tools.format) {
-      const validation = isSafeCommand(cmd);
-      if (!validation.safe) {
+      const validation = parseConfigCommand(cmd);
+      if (!validation.command) {
         steps.push({
           id: `check-python-format-${cmd.replace(/[^a-z0-9]/gi, "-")}`,
           title: `SKIPPED: Rejected format command: ${cmd}`,
           subsystem: "checks",
           phase: "checks",
           checkKind: "format",
+          ...PYTHON_CHECK_LINKS,
           rationale: `Config command rejected: ${validation.reason}.`,
           commands: [],
           destructive: false,
@@ -126,8 +90,9 @@ function pythonChecks(detection: EnvDetection, config: Config, selected: CheckKi
         subsystem: "checks",
         phase: "checks",
         checkKind: "format",
+        ...PYTHON_CHECK_LINKS,
         rationale: "Configured Python formatting check.",
-        commands: [cmd],
+        commands: [validation.command],
         destructive: false,
         irreversible: false,
         undoable: false,
@@ -137,14 +102,15 @@ function pythonChecks(detection: EnvDetection, config: Config, selected: CheckKi
   }
   if (selected.includes("lint")) {
     for (const cmd of config.python.tools.lint) {
-      const validation = isSafeCommand(cmd);
-      if (!validation.safe) {
+      const validation = parseConfigCommand(cmd);
+      if (!validation.command) {
         steps.push({
           id: `check-python-lint-${cmd.replace(/[^a-z0-9]/gi, "-")}`,
           title: `SKIPPED: Rejected lint command: ${cmd}`,
           subsystem: "checks",
           phase: "checks",
           checkKind: "lint",
+          ...PYTHON_CHECK_LINKS,
           rationale: `Config command rejected: ${validation.reason}.`,
           commands: [],
           destructive: false,
@@ -161,8 +127,9 @@ function pythonChecks(detection: EnvDetection, config: Config, selected: CheckKi
         subsystem: "checks",
         phase: "checks",
         checkKind: "lint",
+        ...PYTHON_CHECK_LINKS,
         rationale: "Configured Python lint check.",
-        commands: [cmd],
+        commands: [validation.command],
         destructive: false,
         irreversible: false,
         undoable: false,
@@ -172,14 +139,15 @@ function pythonChecks(detection: EnvDetection, config: Config, selected: CheckKi
   }
   if (selected.includes("test")) {
     for (const cmd of config.python.tools.test) {
-      const validation = isSafeCommand(cmd);
-      if (!validation.safe) {
+      const validation = parseConfigCommand(cmd);
+      if (!validation.command) {
         steps.push({
           id: `check-python-test-${cmd.replace(/[^a-z0-9]/gi, "-")}`,
           title: `SKIPPED: Rejected test command: ${cmd}`,
           subsystem: "checks",
           phase: "checks",
           checkKind: "test",
+          ...PYTHON_CHECK_LINKS,
           rationale: `Config command rejected: ${validation.reason}.`,
           commands: [],
           destructive: false,
@@ -196,8 +164,9 @@ function pythonChecks(detection: EnvDetection, config: Config, selected: CheckKi
         subsystem: "checks",
         phase: "checks",
         checkKind: "test",
+        ...PYTHON_CHECK_LINKS,
         rationale: "Configured Python test check.",
-        commands: [cmd],
+        commands: [validation.command],
         destructive: false,
         irreversible: false,
         undoable: false,
@@ -0,0 +1,93 @@
+import type { CliFlags, Config, CustomStepCondition, CustomStepConfig, FixStep } from "../types.js";
+import { parseConfigCommand } from "../core/commands.js";
+import { fileExists, resolveInsideRoot } from "../utils/fs.js";
+import { runCommand } from "../utils/process.js";
+
+const CUSTOM_PHASES = new Set<string>(["environment", "engines", "docker", "node", "python", "checks"]);
+const STEP_ID_RE = /^[a-z0-9][a-z0-9._-]*$/i;
+/** `command_fails` probes run while planning a real run, so they get a short time limit. */
+const CONDITION_TIMEOUT_MS = 60_000;
+
+function asList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Steps in an ecosystem phase follow `--focus`; shared phases (env, engines, checks) always apply. */
+function inFocus(phase: FixStep["phase"], flags: CliFlags): boolean {
+  if (flags.focus === "all" || (phase !== "docker" && phase !== "node" && phase !== "python")) return true;
+  return phase === flags.focus;
+}
+
+/** Check a step declaration against the config safety rules. Returns the first problem, or null. */
+function problemWith(entry: CustomStepConfig, cwd: string, seen: Set<string>): string | null {
+  if (typeof entry.id !== "string" || !STEP_ID_RE.test(entry.id)) return "id must be letters, digits, '.', '_' or '-'";
+  if (seen.has(entry.id)) return `duplicate id '${entry.id}'`;
+  if (entry.phase !== undefined && !CUSTOM_PHASES.has(entry.phase)) return `unknown phase '${String(entry.phase)}'`;
+  if (!Array.isArray(entry.commands) || entry.commands.length === 0) return "commands must be a non-empty list";
+  for (const cmd of [...entry.commands, ...asList(entry.when?.command_fails)]) {
+    if (typeof cmd !== "string") return "commands must be strings";
+    const { command, reason } = parseConfigCommand(cmd);
+    if (!command) return `command '${cmd}' rejected: ${reason}`;
+  }
+  const paths = [...asList(entry.snapshot), ...asList(entry.when?.file_exists), ...asList(entry.when?.file_missing)];
+  const outside = paths.find((p) => typeof p !== "string" || !resolveInsideRoot(cwd, p));
+  if (outside !== undefined) return `path '${String(outside)}' is outside the project root`;
+  return null;
+}
+
+/** With `probe` off, `command_fails` is not run and counts as holding. */
+async function conditionHolds(when: CustomStepCondition | undefined, cwd: string, probe: boolean): Promise<boolean> {
+  for (const p of asList(when?.file_exists)) {
+    if (!(await fileExists(resolveInsideRoot(cwd, p) ?? ""))) return false;
+  }
+  for (const p of asList(when?.file_missing)) {
+    if (await fileExists(resolveInsideRoot(cwd, p) ?? "")) return false;
+  }
+  if (when?.command_fails && probe) {
+    // Declarations are validated before this runs; a rejected probe never holds.
+    const { command: probeCommand } = parseConfigCommand(when.command_fails);
+    if (!probeCommand) return false;
+    const result = await runCommand(probeCommand, cwd, { timeoutMs: CONDITION_TIMEOUT_MS });
+    if (result.code === 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Steps declared under `steps:` in `.autofix.yml`. Declarations that break the safety rules stay in
+ * the plan as `proposed` with the reason; valid ones are planned only when their `when` conditions hold.
+ * Without `probe` (plans that run nothing), `command_fails` probes are skipped and the step is marked `conditional`.
+ */
+export async function buildCustomSteps(cwd: string, config: Config, flags: CliFlags, probe = true): Promise<FixStep[]> {
+  const steps: FixStep[] = [];
+  const seen = new Set<string>();
+  for (const [index, entry] of (config.steps ?? []).entries()) {
+    const phase = CUSTOM_PHASES.has(entry?.phase ?? "checks") ? (entry?.phase ?? "checks") : "checks";
+    if (!inFocus(phase, flags)) continue;
+    const problem = entry && typeof entry === "object" ? problemWith(entry, cwd, seen) : "step must be a mapping";
+    const id = typeof entry?.id === "string" && STEP_ID_RE.test(entry.id) ? entry.id : `step-${index + 1}`;
+    seen.add(id);
+    if (!problem && !(await conditionHolds(entry.when, cwd, probe))) continue;
+
+    const snapshot = problem ? [] : asList(entry.snapshot);
+    const destructive = Boolean(entry?.destructive);
+    steps.push({
+      id: `custom-${id}`,
+      title: typeof entry?.title === "string" ? entry.title : id,
+      subsystem: "custom",
+      phase,
+      rationale: typeof entry?.rationale === "string" ? entry.rationale : "Declared in .autofix.yml steps.",
+      commands: problem ? [] : entry.commands.flatMap((cmd) => parseConfigCommand(cmd).command ?? []),
+      destructive,
+      irreversible: destructive && snapshot.length === 0,
+      irreversibleReason: destructive && snapshot.length === 0 ? "no snapshot paths declared" : undefined,
+      undoable: snapshot.length > 0,
+      snapshotPaths: snapshot.length > 0 ? snapshot : undefined,
+      status: problem ? "proposed" : "planned",
+      proposedReason: problem ? `Invalid custom step: ${problem}` : undefined,
+      conditional: !problem && !probe && entry.when?.command_fails ? `only if '${entry.when.command_fails}' fails` : undefined,
+    });
+  }
+  return steps;
+}
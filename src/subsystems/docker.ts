@@ -1,14 +1,21 @@
-import type { CliFlags, Config, EnvDetection, FixStep } from "../types.js";
+import type { CliFlags, Command, ComposeServiceStatus, ComposeStack, Config, EnvDetection, FixStep } from "../types.js";
+import { formatCommand } from "../core/commands.js";
+import { formatBytes } from "../utils/fs.js";
+import { composeCommand } from "../core/composeProject.js";
+import { runtimeCommands } from "../core/containerRuntime.js";
 
-function composePrefix(detection: EnvDetection): string {
-  if (!detection.docker.composeFile) return "docker compose";
-  return `docker compose -f ${detection.docker.composeFile}`;
+function compose(detection: EnvDetection, ...args: string[]): Command {
+  return composeCommand(detection.docker, ...args);
 }
 
-export function buildDockerSteps(detection: EnvDetection, config: Config, flags: CliFlags): FixStep[] {
-  if (!detection.docker.detected) return [];
+/** A container, image or volume command for the detected runtime's CLI (`docker`, `podman` or `nerdctl`). */
+function engine(detection: EnvDetection, ...args: string[]): Command {
+  return { bin: runtimeCommands(detection.docker.runtime).engine, args };
+}
+
+/** The full down / rebuild cycle, used when the stack's state is unknown or `--force-fresh` asks for it. */
+function refreshSteps(detection: EnvDetection, config: Config): FixStep[] {
   const steps: FixStep[] = [];
-  const prefix = composePrefix(detection);
 
   if (config.docker.safe_down) {
     steps.push({
@@ -17,7 +24,7 @@ export function buildDockerSteps(detection: EnvDetection, config: Config, flags:
       subsystem: "docker",
       phase: "docker",
       rationale: "Reset stale compose state safely.",
-      commands: [`${prefix} down`],
+      commands: [compose(detection, "down")],
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -32,7 +39,7 @@ export function buildDockerSteps(detection: EnvDetection, config: Config, flags:
       subsystem: "docker",
       phase: "docker",
       rationale: "Rebuild services to resolve dirty container/image state.",
-      commands: [`${prefix} up -d --build`],
+      commands: [compose(detection, "up", "-d", "--build")],
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -40,22 +47,154 @@ export function buildDockerSteps(detection: EnvDetection, config: Config, flags:
     });
   }
 
-  if (flags.deep || flags.approve || config.docker.prune) {
+  return steps;
+}
+
+function withProblem(stack: ComposeStack, ...problems: NonNullable<ComposeServiceStatus["problem"]>[]): ComposeServiceStatus[] {
+  return stack.services.filter((status) => status.problem && problems.includes(status.problem));
+}
+
+function diagnosisOf(statuses: ComposeServiceStatus[]): string {
+  return statuses.map((status) => `${status.service}: ${status.diagnosis}`).join("; ");
+}
+
+/** Steps for only the services that need them, so a healthy stack is left alone. */
+function targetedSteps(detection: EnvDetection, config: Config, stack: ComposeStack): FixStep[] {
+  const steps: FixStep[] = [];
+  const build = config.docker.rebuild ? ["--build"] : [];
+
+  const stopped = withProblem(stack, "missing", "stopped");
+  if (stopped.length > 0) {
+    const names = stopped.map((status) => status.service);
     steps.push({
-      id: "docker-prune",
-      title: "IRREVERSIBLE: Prune docker system",
+      id: "docker-compose-start",
+      title: `Start docker compose services: ${names.join(", ")}`,
       subsystem: "docker",
       phase: "docker",
-      rationale: "Deep cleanup requested for stale docker artifacts.",
-      commands: ["docker system prune -f"],
+      rationale: `Services are not running (${diagnosisOf(stopped)}).`,
+      commands: [compose(detection, "up", "-d", ...build, ...names)],
+      destructive: false,
+      irreversible: false,
+      undoable: false,
+      status: "planned",
+    });
+  }
+
+  const unhealthy = withProblem(stack, "unhealthy", "restarting");
+  if (unhealthy.length > 0) {
+    const names = unhealthy.map((status) => status.service);
+    steps.push({
+      id: "docker-compose-restart",
+      title: `Restart unhealthy docker compose services: ${names.join(", ")}`,
+      subsystem: "docker",
+      phase: "docker",
+      rationale: `Services are failing (${diagnosisOf(unhealthy)}).`,
+      commands: [compose(detection, "restart", ...names)],
+      destructive: false,
+      irreversible: false,
+      undoable: false,
+      status: "planned",
+    });
+  }
+
+  const stale = withProblem(stack, "outdated-image", "port-unbound");
+  if (stale.length > 0) {
+    const names = stale.map((status) => status.service);
+    steps.push({
+      id: "docker-compose-recreate",
+      title: `Recreate docker compose services: ${names.join(", ")}`,
+      subsystem: "docker",
+      phase: "docker",
+      rationale: `Containers no longer match their configuration (${diagnosisOf(stale)}).`,
+      commands: [compose(detection, "up", "-d", "--no-deps", "--force-recreate", ...build, ...names)],
+      destructive: false,
+      irreversible: false,
+      undoable: false,
+      status: "planned",
+    });
+  }
+
+  if (stack.orphans.length > 0) {
+    steps.push({
+      id: "docker-compose-remove-orphans",
+      title: `Remove orphan containers: ${stack.orphans.join(", ")}`,
+      subsystem: "docker",
+      phase: "docker",
+      rationale: `Containers of project ${stack.project} belong to services no longer in ${(detection.docker.composeFiles ?? [detection.docker.composeFile ?? "the compose file"]).join(", ")}.`,
+      // Orphans may still be running, so removing them waits for --deep or --approve.
+      commands: [engine(detection, "rm", "-f", ...stack.orphans)],
       destructive: true,
       irreversible: true,
-      irreversibleReason: "cannot be snapshotted",
+      irreversibleReason: "removed containers cannot be snapshotted",
       undoable: false,
-      undoHints: [{ action: "Rebuild services", command: `${prefix} up -d --build` }],
       status: "planned",
     });
   }
 
   return steps;
 }
+
+/**
+ * Cleanup scoped to this compose project (its `com.docker.compose.project` label), never host-wide:
+ * containers, networks and built images first, then named volumes behind a separate confirmation.
+ */
+function cleanupSteps(detection: EnvDetection, config: Config, stack: ComposeStack | undefined): FixStep[] {
+  const project = detection.docker.projectName ?? stack?.project;
+  const resources = stack?.resources;
+  const estimate = resources?.reclaimableBytes ? ` (~${formatBytes(resources.reclaimableBytes)} reclaimable)` : "";
+  const counts = resources
+    ? ` ${resources.containers.length} container(s), ${resources.networks.length} network(s) and ${resources.images.length} built image(s)`
+    : " containers, networks and built images";
+  const label = project ? `docker compose project ${project}` : "the docker compose project";
+  const steps: FixStep[] = [{
+    id: "docker-prune",
+    title: `IRREVERSIBLE: Remove ${label} resources${estimate}`,
+    subsystem: "docker",
+    phase: "docker",
+    rationale: `Deep cleanup requested: removes the project's${counts}. Other projects on this machine are not touched.`,
+    commands: [
+      compose(detection, "down", "--remove-orphans", "--rmi", "local"),
+      ...(project ? [engine(detection, "image", "prune", "--all", "--force", "--filter", `label=com.docker.compose.project=${project}`)] : []),
+    ],
+    destructive: true,
+    irreversible: true,
+    irreversibleReason: "cannot be snapshotted",
+    undoable: false,
+    undoHints: [{ action: "Rebuild services", command: formatCommand(compose(detection, "up", "-d", "--build")) }],
+    status: "planned",
+  }];
+
+  if (resources && resources.volumes.length > 0) {
+    const snapshot = config.docker.snapshot_volumes;
+    steps.push({
+      id: "docker-prune-volumes",
+      title: `${snapshot ? "" : "IRREVERSIBLE: "}Remove named volumes of ${label}: ${resources.volumes.join(", ")}`,
+      subsystem: "docker",
+      phase: "docker",
+      rationale: snapshot
+        ? "Volumes hold service data (databases, uploads); they are exported to the snapshot store first and removed only when confirmed on their own."
+        : "Volumes hold service data (databases, uploads); they are removed only when confirmed on their own.",
+      commands: [engine(detection, "volume", "rm", ...resources.volumes)],
+      volumes: resources.volumes,
+      containerEngine: runtimeCommands(detection.docker.runtime).engine,
+      destructive: true,
+      irreversible: !snapshot,
+      irreversibleReason: snapshot ? undefined : "volume data is deleted (enable docker.snapshot_volumes to export it first)",
+      undoable: snapshot,
+      undoHints: snapshot ? [{ action: "Re-import the volumes", command: "auto-fix undo" }] : undefined,
+      confirmation: `Delete ${resources.volumes.length} named volume(s) and all their data (${resources.volumes.join(", ")})?`,
+      status: "planned",
+    });
+  }
+  return steps;
+}
+
+export function buildDockerSteps(detection: EnvDetection, config: Config, flags: CliFlags): FixStep[] {
+  if (!detection.docker.detected) return [];
+  const stack = detection.docker.stack;
+  const steps = stack && !flags.forceFresh ? targetedSteps(detection, config, stack) : refreshSteps(detection, config);
+
+  if (flags.deep || flags.approve || config.docker.prune) steps.push(...cleanupSteps(detection, config, stack));
+
+  return steps;
+}
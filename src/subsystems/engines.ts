@@ -1,6 +1,37 @@
+import os from "node:os";
 import path from "node:path";
 import { readFile } from "node:fs/promises";
 import type { CliFlags, Config, EnvDetection, FixStep } from "../types.js";
+import { fileExists, readJsonFile } from "../utils/fs.js";
+import { runCommand } from "../utils/process.js";
+import { formatVersion, isValidRange, minVersion, parseVersion, satisfies } from "../utils/semver.js";
+import { lowestAllowed, parseRelease, releaseHasPrefix, satisfiesSpecifier } from "../utils/pep440.js";
+
+/** Release-line codenames, for `lts/<name>` aliases. */
+const LTS_CODENAMES: Record<string, number> = {
+    argon: 4, boron: 6, carbon: 8, dubnium: 10, erbium: 12, fermium: 14, gallium: 16, hydrogen: 18, iron: 20, jod: 22, krypton: 24,
+};
+const LATEST_LTS = Math.max(...Object.values(LTS_CODENAMES));
+/** Aliases that accept whatever Node is installed. */
+const ANY_NODE = new Set(["node", "stable", "latest", "current", "system"]);
+/** `<pm> --version` and `python --version` run while planning, so they get a short time limit. */
+const VERSION_PROBE_TIMEOUT_MS = 15_000;
+
+type VersionManager = "nvm" | "fnm" | "volta" | "pyenv" | "uv" | "asdf" | "mise";
+const NODE_VERSION_MANAGERS: VersionManager[] = ["nvm", "fnm", "volta", "asdf", "mise"];
+const PYTHON_VERSION_MANAGERS: VersionManager[] = ["pyenv", "uv", "asdf", "mise"];
+
+interface PackageJson {
+    engines?: Record<string, string>;
+    volta?: { node?: string };
+    packageManager?: string;
+}
+
+interface VersionRequirement {
+    /** Where the requirement came from: `.nvmrc`, `engines.node`, `packageManager`, ... */
+    source: string;
+    spec: string;
+}
 
 async function readVersionFile(cwd: string, fileName: string): Promise<string | null> {
     try {
@@ -11,50 +42,303 @@ async function readVersionFile(cwd: string, fileName: string): Promise<string |
     }
 }
 
-export async function buildEngineSteps(cwd: string, detection: EnvDetection, config: Config, flags: CliFlags): Promise<FixStep[]> {
-    const steps: FixStep[] = [];
-
+/** Node requirements from the version file, `.tool-versions`, `volta.node` and `engines.node`, most specific first. */
+async function readNodeRequirements(cwd: string, detection: EnvDetection, pkg: PackageJson | null): Promise<VersionRequirement[]> {
+    const requirements: VersionRequirement[] = [];
     if (detection.engines.nodeVersionFile) {
         const desired = await readVersionFile(cwd, detection.engines.nodeVersionFile);
-        if (desired) {
-            const matchMajor = desired.replace(/^v/, "").split(".")[0];
-            const actualMajor = process.version.replace(/^v/, "").split(".")[0];
-            if (matchMajor !== actualMajor && matchMajor !== "") {
-                steps.push({
-                    id: "engines-node-version-mismatch",
-                    title: `Node version drift detected: expected ~${matchMajor}, running ${process.version}`,
-                    subsystem: "engines",
-                    phase: "engines",
-                    rationale: `Host Node.js version drifts from ${detection.engines.nodeVersionFile} definition.`,
-                    commands: [],
-                    destructive: false,
-                    irreversible: false,
-                    undoable: false,
-                    status: "proposed",
-                    proposedReason: `Run nvm use or switch Node versions to v${matchMajor}.x`,
-                });
-            }
+        const spec = desired?.split("\n")[0].replace(/#.*/, "").trim();
+        if (spec) requirements.push({ source: detection.engines.nodeVersionFile, spec });
+    }
+    const toolVersions = await readVersionFile(cwd, ".tool-versions");
+    const tool = toolVersions ? /^(?:nodejs|node)[ \t]+(\S+)/m.exec(toolVersions) : null;
+    if (tool) requirements.push({ source: ".tool-versions", spec: tool[1] });
+    if (typeof pkg?.volta?.node === "string") requirements.push({ source: "volta.node", spec: pkg.volta.node });
+    if (typeof pkg?.engines?.node === "string") requirements.push({ source: "engines.node", spec: pkg.engines.node });
+    return requirements;
+}
+
+/** Whether the running Node meets `spec`; null when the spec cannot be checked (`node`, unknown codenames, bad ranges). */
+function nodeRequirementMet(spec: string, version: string, lts: string | undefined): boolean | null {
+    const normalized = spec.trim().toLowerCase();
+    if (ANY_NODE.has(normalized)) return null;
+    if (normalized === "lts" || normalized === "lts/*") return Boolean(lts);
+    const codename = /^lts\/(.+)$/.exec(normalized);
+    if (codename) {
+        const major = LTS_CODENAMES[codename[1]];
+        return major === undefined ? null : parseVersion(version)?.[0] === major;
+    }
+    return isValidRange(spec) ? satisfies(version, spec) : null;
+}
+
+/** A version to install for `spec`: the major line when its latest release satisfies the range, else the lowest match. */
+function targetVersion(spec: string): string | null {
+    const normalized = spec.trim().toLowerCase();
+    if (normalized === "lts" || normalized === "lts/*") return String(LATEST_LTS);
+    const codename = /^lts\/(.+)$/.exec(normalized);
+    if (codename) return LTS_CODENAMES[codename[1]] === undefined ? null : String(LTS_CODENAMES[codename[1]]);
+    const lowest = minVersion(spec);
+    if (!lowest) return null;
+    return satisfies([lowest[0], Number.MAX_SAFE_INTEGER, 0], spec) ? String(lowest[0]) : formatVersion(lowest);
+}
+
+async function onPath(bin: string, env: NodeJS.ProcessEnv): Promise<boolean> {
+    const names = process.platform === "win32" ? [`${bin}.exe`, `${bin}.cmd`] : [bin];
+    for (const dir of (env.PATH ?? "").split(path.delimiter).filter(Boolean)) {
+        for (const name of names) {
+            if (await fileExists(path.join(dir, name))) return true;
         }
     }
+    return false;
+}
+
+/** Version managers installed on this machine. nvm is a shell function, so it is found by its directory. */
+async function installedVersionManagers(env: NodeJS.ProcessEnv): Promise<Set<VersionManager>> {
+    const home = env.HOME ?? env.USERPROFILE ?? os.homedir();
+    const found = new Set<VersionManager>();
+    if (env.NVM_DIR || (await fileExists(path.join(home, ".nvm", "nvm.sh")))) found.add("nvm");
+    if (env.FNM_DIR || env.FNM_MULTISHELL_PATH || (await onPath("fnm", env))) found.add("fnm");
+    if (env.VOLTA_HOME || (await onPath("volta", env))) found.add("volta");
+    if (env.PYENV_ROOT || (await onPath("pyenv", env))) found.add("pyenv");
+    if (await onPath("uv", env)) found.add("uv");
+    if (env.ASDF_DIR || env.ASDF_DATA_DIR || (await onPath("asdf", env))) found.add("asdf");
+    if (env.MISE_SHELL || (await onPath("mise", env))) found.add("mise");
+    return found;
+}
+
+function switchCommand(manager: VersionManager, tool: "node" | "python", version: string): string {
+    switch (manager) {
+        case "nvm":
+            return `nvm install ${version} && nvm use ${version}`;
+        case "fnm":
+            return `fnm use --install-if-missing ${version}`;
+        case "volta":
+            return `volta pin node@${version}`;
+        case "pyenv":
+            return `pyenv install -s ${version} && pyenv local ${version}`;
+        case "uv":
+            return `uv python install ${version} && uv python pin ${version}`;
+        case "asdf": {
+            // asdf needs a full version; `latest:<prefix>` resolves one.
+            const asdfVersion = version.split(".").length < 3 ? `latest:${version}` : version;
+            const plugin = tool === "node" ? "nodejs" : "python";
+            return `asdf install ${plugin} ${asdfVersion} && asdf local ${plugin} ${asdfVersion}`;
+        }
+        case "mise":
+            return `mise use ${tool}@${version}`;
+    }
+}
 
+/** `Run: <cmd>  or  <cmd>` for the installed managers, else a pointer to install the first of `order`. */
+async function switchAdvice(order: VersionManager[], env: NodeJS.ProcessEnv, command: (manager: VersionManager) => string): Promise<string> {
+    const installed = await installedVersionManagers(env);
+    const available = order.filter((manager) => installed.has(manager));
+    if (available.length === 0) {
+        return `No version manager found (${order.join(", ")}). Install one, then run: ${command(order[0])}`;
+    }
+    return `Run: ${available.map(command).join("  or  ")}`;
+}
+
+/** Managers whose config file the project already uses come first. */
+function preferredNodeManagers(sources: string[]): VersionManager[] {
+    const preferred: VersionManager[] = [];
+    if (sources.includes("volta.node")) preferred.push("volta");
+    if (sources.includes(".tool-versions")) preferred.push("asdf", "mise");
+    if (sources.includes(".nvmrc")) preferred.push("nvm", "fnm");
+    if (sources.includes(".node-version")) preferred.push("fnm", "nvm");
+    return [...new Set([...preferred, ...NODE_VERSION_MANAGERS])];
+}
+
+async function nodeSwitchAdvice(requirements: VersionRequirement[], env: NodeJS.ProcessEnv): Promise<string> {
+    const version = requirements.map((r) => targetVersion(r.spec)).find((v): v is string => v !== null);
+    if (!version) return "Switch to a Node version that satisfies the project requirements.";
+    return switchAdvice(preferredNodeManagers(requirements.map((r) => r.source)), env, (manager) => switchCommand(manager, "node", version));
+}
+
+async function buildNodeVersionStep(cwd: string, detection: EnvDetection, pkg: PackageJson | null, env: NodeJS.ProcessEnv): Promise<FixStep | null> {
+    const requirements = await readNodeRequirements(cwd, detection, pkg);
+    const unmet = requirements.filter((r) => nodeRequirementMet(r.spec, process.version, process.release.lts) === false);
+    if (unmet.length === 0) return null;
+    const expected = unmet.map((r) => `${r.spec} (${r.source})`).join(", ");
+    return {
+        id: "engines-node-version-mismatch",
+        title: `Node version drift detected: expected ${expected}, running ${process.version}`,
+        subsystem: "engines",
+        phase: "engines",
+        rationale: `Host Node.js version does not satisfy ${unmet.map((r) => r.source).join(" and ")}.`,
+        commands: [],
+        destructive: false,
+        irreversible: false,
+        undoable: false,
+        status: "proposed",
+        proposedReason: await nodeSwitchAdvice(unmet, env),
+    };
+}
+
+/**
+ * Compare the project's package manager (`packageManager`, else the lockfile's) against the
+ * `packageManager` pin and `engines.<pm>`. Only runs `<pm> --version` when the project declares one of them.
+ */
+async function buildPackageManagerStep(cwd: string, detection: EnvDetection, pkg: PackageJson | null): Promise<FixStep | null> {
+    if (!detection.node.detected || !pkg) return null;
+    const declared = typeof pkg.packageManager === "string" ? /^(npm|pnpm|yarn)@([^+\s]+)/.exec(pkg.packageManager) : null;
+    const name = declared?.[1] ?? (detection.node.packageManager === "unknown" ? "npm" : detection.node.packageManager);
+    const requirements: VersionRequirement[] = [];
+    if (declared) requirements.push({ source: "packageManager", spec: declared[2] });
+    if (typeof pkg.engines?.[name] === "string") requirements.push({ source: `engines.${name}`, spec: pkg.engines[name] });
+    if (requirements.length === 0) return null;
+
+    const fix = declared
+        ? `Run: corepack enable && corepack prepare ${name}@${declared[2]} --activate`
+        : `Run: npm install -g ${name}@${targetVersion(requirements[0].spec) ?? "latest"}`;
+    const base = { subsystem: "engines" as const, phase: "engines" as const, commands: [], destructive: false, irreversible: false, undoable: false, status: "proposed" as const };
+
+    const result = await runCommand({ bin: name, args: ["--version"] }, cwd, { timeoutMs: VERSION_PROBE_TIMEOUT_MS });
+    const version = result.success ? result.stdout.trim().split("\n").pop()?.trim() ?? "" : "";
+    if (!parseVersion(version)) {
+        return {
+            ...base,
+            id: "engines-package-manager-mismatch",
+            title: `${name} is required by ${requirements.map((r) => r.source).join(" and ")} but could not be run`,
+            rationale: `'${name} --version' failed${result.timedOut ? " (timed out)" : ""}.`,
+            proposedReason: fix,
+        };
+    }
+    const unmet = requirements.filter((r) => isValidRange(r.spec) && !satisfies(version, r.spec));
+    if (unmet.length === 0) return null;
+    return {
+        ...base,
+        id: "engines-package-manager-mismatch",
+        title: `${name} version drift: expected ${unmet.map((r) => `${r.spec} (${r.source})`).join(", ")}, running ${version}`,
+        rationale: `Installs with a different ${name} version can rewrite the lockfile or fail on a newer lockfile format.`,
+        proposedReason: fix,
+    };
+}
+
+/** Python requirements from `.python-version`, `runtime.txt` and `requires-python`, most specific first. */
+async function readPythonRequirements(cwd: string, detection: EnvDetection): Promise<VersionRequirement[]> {
+    const requirements: VersionRequirement[] = [];
     if (detection.engines.pythonVersionFile) {
         const desired = await readVersionFile(cwd, detection.engines.pythonVersionFile);
-        if (desired) {
-            steps.push({
-                id: "engines-python-version-mismatch",
-                title: `Python version drift: project expects ${desired}`,
-                subsystem: "engines",
-                phase: "engines",
-                rationale: `Host Python version should align with ${detection.engines.pythonVersionFile}.`,
-                commands: [],
-                destructive: false,
-                irreversible: false,
-                undoable: false,
-                status: "proposed",
-                proposedReason: `Verify your Python version matches ${desired}. Run: python3 --version`,
-            });
+        const lines = (desired ?? "").split("\n").map((line) => line.replace(/#.*/, "").trim()).filter(Boolean);
+        if (lines.length > 0) requirements.push({ source: detection.engines.pythonVersionFile, spec: lines.join(" ") });
+    }
+    const runtime = (await readVersionFile(cwd, "runtime.txt"))?.match(/^python-(\d+(?:\.\d+)*)$/m);
+    if (runtime) requirements.push({ source: "runtime.txt", spec: runtime[1] });
+    const pyproject = await readVersionFile(cwd, "pyproject.toml");
+    const requires = pyproject ? /^requires-python\s*=\s*["']([^"']+)["']/m.exec(pyproject) : null;
+    if (requires) requirements.push({ source: "requires-python", spec: requires[1] });
+    return requirements;
+}
+
+/**
+ * Whether `version` meets a Python requirement; null when it cannot be checked. `.python-version` lists
+ * acceptable versions (`3.11` matches any 3.11.x); names such as `system` or `pypy3.10` are not checked.
+ */
+function pythonRequirementMet(requirement: VersionRequirement, version: string): boolean | null {
+    const release = parseRelease(version);
+    if (!release) return null;
+    if (requirement.source === "requires-python") return satisfiesSpecifier(version, requirement.spec);
+    const prefixes = requirement.spec.split(" ").map((entry) => (/^(?:python-?)?(\d+(?:\.\d+)*)$/.exec(entry) ? parseRelease(entry) : null));
+    if (prefixes.includes(null)) return null;
+    return prefixes.some((prefix) => releaseHasPrefix(release, prefix as number[]));
+}
+
+function pythonTargetVersion(requirements: VersionRequirement[]): string | null {
+    for (const requirement of requirements) {
+        if (requirement.source === "requires-python") {
+            const lowest = lowestAllowed(requirement.spec);
+            if (lowest) return lowest;
+        } else {
+            const first = /^(?:python-?)?(\d+(?:\.\d+)*)$/.exec(requirement.spec.split(" ")[0]);
+            if (first) return first[1];
         }
     }
+    return null;
+}
+
+/** `Python 3.11.7` from `<python> --version`; older interpreters print it on stderr. */
+async function probePythonVersion(bin: string, cwd: string): Promise<string | null> {
+    const result = await runCommand({ bin, args: ["--version"] }, cwd, { timeoutMs: VERSION_PROBE_TIMEOUT_MS });
+    if (!result.success) return null;
+    const match = /Python\s+(\d+\.\d+(?:\.\d+)?)/.exec(`${result.stdout}\n${result.stderr}`);
+    return match ? match[1] : null;
+}
+
+/** The venv's interpreter version, falling back to `pyvenv.cfg` when the interpreter no longer runs. */
+async function venvPythonVersion(cwd: string, venvPath: string): Promise<string | null> {
+    const venvDir = path.resolve(cwd, venvPath);
+    const interpreter = process.platform === "win32" ? path.join(venvDir, "Scripts", "python.exe") : path.join(venvDir, "bin", "python");
+    if (await fileExists(interpreter)) {
+        const version = await probePythonVersion(interpreter, cwd);
+        if (version) return version;
+    }
+    const cfg = await readVersionFile(venvDir, "pyvenv.cfg");
+    return cfg ? /^(?:version|version_info)\s*=\s*(\d+\.\d+(?:\.\d+)?)/m.exec(cfg)?.[1] ?? null : null;
+}
+
+function recreateVenvCommand(manager: VersionManager, version: string, venvPath: string): string {
+    return manager === "uv" ? `uv venv --python ${version} ${venvPath}` : `python3 -m venv --clear ${venvPath}`;
+}
+
+/**
+ * Check the host `python3` and the project venv's interpreter against the Python requirements. A venv on
+ * the wrong interpreter gets its own step with the commands to recreate it; host drift only matters when
+ * there is no venv on a matching interpreter.
+ */
+async function buildPythonVersionSteps(cwd: string, detection: EnvDetection, env: NodeJS.ProcessEnv): Promise<FixStep[]> {
+    const requirements = await readPythonRequirements(cwd, detection);
+    if (requirements.length === 0) return [];
+    const target = pythonTargetVersion(requirements);
+    const expected = (unmet: VersionRequirement[]) => unmet.map((r) => `${r.spec} (${r.source})`).join(", ");
+    const base = { subsystem: "engines" as const, phase: "engines" as const, commands: [], destructive: false, irreversible: false, undoable: false, status: "proposed" as const };
+    const steps: FixStep[] = [];
+
+    const venvPath = detection.python.venvPath;
+    const venvVersion = detection.python.venvExists ? await venvPythonVersion(cwd, venvPath) : null;
+    const venvUnmet = venvVersion ? requirements.filter((r) => pythonRequirementMet(r, venvVersion) === false) : [];
+    if (venvVersion && venvUnmet.length > 0) {
+        steps.push({
+            ...base,
+            id: "engines-python-venv-mismatch",
+            title: `Virtual environment ${venvPath} uses Python ${venvVersion}: expected ${expected(venvUnmet)}`,
+            rationale: "A virtual environment is tied to the interpreter it was created with; it has to be recreated to change versions.",
+            proposedReason: target
+                ? await switchAdvice(PYTHON_VERSION_MANAGERS, env, (manager) => `${switchCommand(manager, "python", target)} && ${recreateVenvCommand(manager, target, venvPath)}`)
+                : `Recreate ${venvPath} with a Python that satisfies ${expected(venvUnmet)}.`,
+        });
+    }
+    if (venvVersion && venvUnmet.length === 0) return steps;
+
+    const hostBin = process.platform === "win32" ? "python" : "python3";
+    const hostVersion = await probePythonVersion(hostBin, cwd);
+    const hostUnmet = hostVersion ? requirements.filter((r) => pythonRequirementMet(r, hostVersion) === false) : requirements;
+    if (hostUnmet.length === 0) return steps;
+    steps.push({
+        ...base,
+        id: "engines-python-version-mismatch",
+        title: hostVersion
+            ? `Python version drift: expected ${expected(hostUnmet)}, running ${hostVersion}`
+            : `Python not found: project expects ${expected(hostUnmet)}`,
+        rationale: hostVersion ? `'${hostBin}' does not satisfy ${hostUnmet.map((r) => r.source).join(" and ")}.` : `'${hostBin} --version' failed.`,
+        proposedReason: target
+            ? await switchAdvice(PYTHON_VERSION_MANAGERS, env, (manager) => switchCommand(manager, "python", target))
+            : `Install a Python that satisfies ${expected(hostUnmet)}.`,
+    });
+    return steps;
+}
+
+export async function buildEngineSteps(cwd: string, detection: EnvDetection, config: Config, flags: CliFlags, env: NodeJS.ProcessEnv = process.env): Promise<FixStep[]> {
+    const steps: FixStep[] = [];
+    // A malformed package.json is reported by the Node subsystem; engine checks just skip it.
+    const pkg = await readJsonFile<PackageJson>(path.join(cwd, "package.json")).catch(() => null);
+
+    const nodeStep = await buildNodeVersionStep(cwd, detection, pkg, env);
+    if (nodeStep) steps.push(nodeStep);
+    const packageManagerStep = await buildPackageManagerStep(cwd, detection, pkg);
+    if (packageManagerStep) steps.push(packageManagerStep);
+
+    steps.push(...await buildPythonVersionSteps(cwd, detection, env));
 
     return steps;
 }
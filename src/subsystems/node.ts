@@ -1,5 +1,6 @@
-import type { CliFlags, Config, EnvDetection, FixStep } from "../types.js";
-import { isSafePath, shellQuote } from "../utils/process.js";
+import type { CliFlags, Command, Config, EnvDetection, FixStep } from "../types.js";
+import { formatCommand } from "../core/commands.js";
+import { isSafePath } from "../utils/process.js";
 const ALLOWED_PMS = new Set(["npm", "pnpm", "yarn"]);
 
 function choosePm(detected: EnvDetection["node"]["packageManager"], configured: Config["node"]["package_manager"]) {
@@ -11,10 +12,14 @@ function choosePm(detected: EnvDetection["node"]["packageManager"], configured:
   return detected;
 }
 
-function frozenInstall(pm: "npm" | "pnpm" | "yarn"): string {
-  if (pm === "pnpm") return "pnpm install --frozen-lockfile";
-  if (pm === "yarn") return "yarn install --frozen-lockfile";
-  return "npm ci";
+function frozenInstall(pm: "npm" | "pnpm" | "yarn"): Command {
+  if (pm === "pnpm") return { bin: "pnpm", args: ["install", "--frozen-lockfile"] };
+  if (pm === "yarn") return { bin: "yarn", args: ["install", "--frozen-lockfile"] };
+  return { bin: "npm", args: ["ci"] };
+}
+
+function install(pm: "npm" | "pnpm" | "yarn"): Command {
+  return { bin: pm, args: ["install"] };
 }
 
 export function buildNodeSteps(detection: EnvDetection, config: Config, flags: CliFlags): FixStep[] {
@@ -45,12 +50,12 @@ export function buildNodeSteps(detection: EnvDetection, config: Config, flags: C
         subsystem: "node",
         phase: "node",
         rationale: "Forced fresh recovery for corrupted lockfile.",
-        commands: ["rm -f package-lock.json pnpm-lock.yaml yarn.lock", `${pm} install`],
+        commands: [{ bin: "rm", args: ["-f", "package-lock.json", "pnpm-lock.yaml", "yarn.lock"] }, install(pm)],
         destructive: true,
         irreversible: true,
         irreversibleReason: "cannot be snapshotted reliably if unreadable/corrupt",
         undoable: false,
-        undoHints: [{ action: "Regenerate lockfile", command: `${pm} install` }],
+        undoHints: [{ action: "Regenerate lockfile", command: formatCommand(install(pm)) }],
         status: "planned",
       });
     }
@@ -63,7 +68,7 @@ export function buildNodeSteps(detection: EnvDetection, config: Config, flags: C
       subsystem: "node",
       phase: "node",
       rationale: "package.json found and node_modules appears missing.",
-      commands: [detection.node.lockfileCorrupted ? `${pm} install` : frozenInstall(pm)],
+      commands: [detection.node.lockfileCorrupted ? install(pm) : frozenInstall(pm)],
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -78,10 +83,12 @@ export function buildNodeSteps(detection: EnvDetection, config: Config, flags: C
       subsystem: "node",
       phase: "node",
       rationale: "Next.js cache can cause stale build/runtime state.",
-      commands: ["rm -rf .next"],
+      commands: [{ bin: "rm", args: ["-rf", ".next"] }],
       destructive: false,
       irreversible: false,
-      undoable: false,
+      undoable: true,
+      snapshotPaths: [".next"],
+      undoHints: [{ action: "Restore .next from snapshot" }],
       status: "planned",
     });
   }
@@ -93,10 +100,12 @@ export function buildNodeSteps(detection: EnvDetection, config: Config, flags: C
       subsystem: "node",
       phase: "node",
       rationale: "Vite cache corruption is a common local issue.",
-      commands: ["rm -rf node_modules/.vite"],
+      commands: [{ bin: "rm", args: ["-rf", "node_modules/.vite"] }],
       destructive: false,
       irreversible: false,
-      undoable: false,
+      undoable: true,
+      snapshotPaths: ["node_modules/.vite"],
+      undoHints: [{ action: "Restore node_modules/.vite from snapshot" }],
       status: "planned",
     });
   }
@@ -124,10 +133,12 @@ export function buildNodeSteps(detection: EnvDetection, config: Config, flags: C
       subsystem: "node",
       phase: "node",
       rationale: "Configured cache directory cleanup.",
-      commands: [`rm -rf ${shellQuote(cacheDir)}`],
+      commands: [{ bin: "rm", args: ["-rf", cacheDir] }],
       destructive: false,
       irreversible: false,
-      undoable: false,
+      undoable: true,
+      snapshotPaths: [cacheDir],
+      undoHints: [{ action: `Restore ${cacheDir} from snapshot` }],
       status: "planned",
     });
   }
@@ -139,12 +150,12 @@ export function buildNodeSteps(detection: EnvDetection, config: Config, flags: C
       subsystem: "node",
       phase: "node",
       rationale: "Deep cleanup requested. If this fails with EPERM, close your IDE or dev servers to release file locks.",
-      commands: ["rm -rf node_modules", `${pm} install`],
+      commands: [{ bin: "rm", args: ["-rf", "node_modules"] }, install(pm)],
       destructive: true,
       irreversible: true,
       irreversibleReason: "large folder not snapshotted in MVP",
       undoable: false,
-      undoHints: [{ action: "Reinstall dependencies", command: `${pm} install` }],
+      undoHints: [{ action: "Reinstall dependencies", command: formatCommand(install(pm)) }],
       status: "planned",
     });
   }
@@ -1,25 +1,53 @@
-import type { CliFlags, Config, EnvDetection, FixStep } from "../types.js";
-import { shellQuote } from "../utils/process.js";
+import path from "node:path";
+import type { CliFlags, Command, Config, EnvDetection, FixStep } from "../types.js";
+import { formatCommand } from "../core/commands.js";
 
-function installCommand(prefer: Config["python"]["install"]["prefer"]): string {
-  switch (prefer) {
+/** The venv's interpreter, relative to the project root (no `.exe`, so the allowlist sees `python`). */
+function venvPython(venvPath: string): string {
+  return path.posix.join(venvPath, process.platform === "win32" ? "Scripts" : "bin", "python");
+}
+
+/** `-r` for each requirements file, or the project itself when it only has a `pyproject.toml`. */
+function requirementArgs(detection: EnvDetection): string[] {
+  const files = detection.python.requirementsFiles ?? (detection.python.hasRequirements ? ["requirements.txt"] : []);
+  if (files.length > 0) return files.flatMap((file) => ["-r", file]);
+  return detection.python.hasPyproject ? ["-e", "."] : ["-r", "requirements.txt"];
+}
+
+/**
+ * Install into `venv_path` with the tool that manages the project: `uv sync`, `poetry install`, `pdm install`
+ * or `pipenv install`, frozen to the lockfile when there is one. Projects without a manager install their
+ * requirements files (or the project itself) with `python.install.prefer`, through the venv's interpreter.
+ * Poetry and Pipenv read `VIRTUAL_ENV` as the absolute path of an active environment, so theirs is resolved
+ * against `cwd`.
+ */
+function installCommand(cwd: string, detection: EnvDetection, config: Config): Command {
+  const venvPath = config.python.venv_path;
+  const locked = Boolean(detection.python.lockfile);
+  const prefer = config.python.install.prefer;
+  const manager = detection.python.manager ?? (prefer === "auto" ? "pip" : prefer);
+  switch (manager) {
     case "uv":
-      return "uv pip install -r requirements.txt";
+      if (detection.python.manager === "uv") {
+        return { bin: "uv", args: ["sync", ...(locked ? ["--frozen"] : [])], env: { UV_PROJECT_ENVIRONMENT: venvPath } };
+      }
+      return { bin: "uv", args: ["pip", "install", "--python", venvPython(venvPath), ...requirementArgs(detection)] };
     case "poetry":
-      return "poetry install";
+      return { bin: "poetry", args: ["install", ...(locked ? ["--sync"] : [])], env: { VIRTUAL_ENV: path.resolve(cwd, venvPath) } };
+    case "pdm":
+      return { bin: "pdm", args: ["install", ...(locked ? ["--frozen-lockfile"] : [])], env: { PDM_PYTHON: venvPython(venvPath) } };
     case "pipenv":
-      return "pipenv install";
-    case "pip":
-      return "pip install -r requirements.txt";
+      return { bin: "pipenv", args: locked ? ["sync", "--dev"] : ["install", "--dev"], env: { VIRTUAL_ENV: path.resolve(cwd, venvPath) } };
     default:
-      return "pip install -r requirements.txt";
+      return { bin: venvPython(venvPath), args: ["-m", "pip", "install", ...requirementArgs(detection)] };
   }
 }
 
-export function buildPythonSteps(detection: EnvDetection, config: Config, flags: CliFlags): FixStep[] {
+/** `cwd` is the directory the steps run in (a workspace member's for its own steps). */
+export function buildPythonSteps(detection: EnvDetection, config: Config, flags: CliFlags, cwd = process.cwd()): FixStep[] {
   if (!detection.python.detected) return [];
   const steps: FixStep[] = [];
-  const quotedVenv = shellQuote(config.python.venv_path);
+  const venvPath = config.python.venv_path;
 
   if (!detection.python.venvExists) {
     steps.push({
@@ -28,7 +56,41 @@ export function buildPythonSteps(detection: EnvDetection, config: Config, flags:
       subsystem: "python",
       phase: "python",
       rationale: "Python project detected without configured virtual environment.",
-      commands: [`python3 -m venv ${quotedVenv}`],
+      commands: [{ bin: "python3", args: ["-m", "venv", venvPath] }],
+      destructive: false,
+      irreversible: false,
+      undoable: false,
+      status: "planned",
+    });
+  }
+
+  // A venv whose interpreter is gone, moved or built on a vanished base Python cannot be fixed in place.
+  const problems = detection.python.venvProblems ?? [];
+  const broken = problems.filter((problem) => problem.kind !== "pip-missing");
+  const install = installCommand(cwd, detection, config);
+  if (broken.length > 0) {
+    steps.push({
+      id: "python-recreate-venv",
+      title: "IRREVERSIBLE: Recreate broken Python virtual environment",
+      subsystem: "python",
+      phase: "python",
+      rationale: `The virtual environment cannot be repaired in place: ${broken.map((problem) => problem.message).join("; ")}.`,
+      commands: [{ bin: "python3", args: ["-m", "venv", "--clear", venvPath] }],
+      destructive: true,
+      irreversible: true,
+      irreversibleReason: "the broken environment is replaced",
+      undoable: false,
+      undoHints: [{ action: "Reinstall dependencies", command: formatCommand(install) }],
+      status: "planned",
+    });
+  } else if (problems.some((problem) => problem.kind === "pip-missing") && install.args[0] === "-m" && install.args[1] === "pip") {
+    steps.push({
+      id: "python-ensure-pip",
+      title: "Install pip into the Python virtual environment",
+      subsystem: "python",
+      phase: "python",
+      rationale: "Dependencies are installed with the venv's pip, which is missing.",
+      commands: [{ bin: venvPython(venvPath), args: ["-m", "ensurepip", "--upgrade"] }],
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -36,14 +98,17 @@ export function buildPythonSteps(detection: EnvDetection, config: Config, flags:
     });
   }
 
-  if (detection.python.hasRequirements || detection.python.hasPyproject) {
+  if (detection.python.hasRequirements || detection.python.hasPyproject || detection.python.manager) {
+    const lockfile = detection.python.lockfile;
     steps.push({
       id: "python-install-deps",
       title: "Install Python dependencies",
       subsystem: "python",
       phase: "python",
-      rationale: "Dependency refresh to resolve environment drift.",
-      commands: [installCommand(config.python.install.prefer)],
+      rationale: lockfile
+        ? `Dependency refresh to resolve environment drift, pinned to ${lockfile}.`
+        : "Dependency refresh to resolve environment drift.",
+      commands: [install],
       destructive: false,
       irreversible: false,
       undoable: false,
@@ -51,42 +116,39 @@ export function buildPythonSteps(detection: EnvDetection, config: Config, flags:
     });
   }
 
-  if (flags.deep) {
+  if (flags.deep && broken.length === 0) {
     steps.push({
       id: "python-reset-venv",
       title: "IRREVERSIBLE: Reset Python virtual environment",
       subsystem: "python",
       phase: "python",
       rationale: "Deep cleanup for persistent Python environment drift.",
-      commands: [`rm -rf ${quotedVenv}`, `python3 -m venv ${quotedVenv}`],
+      commands: [{ bin: "rm", args: ["-rf", venvPath] }, { bin: "python3", args: ["-m", "venv", venvPath] }],
       destructive: true,
       irreversible: true,
       irreversibleReason: "cannot restore environment state fully",
       undoable: false,
-      undoHints: [{ action: "Reinstall dependencies", command: installCommand(config.python.install.prefer) }],
+      undoHints: [{ action: "Reinstall dependencies", command: formatCommand(install) }],
       status: "planned",
     });
   }
 
   // PRD v1.2: IDE Integration Auto-Configuration for VS Code
   // Only sync when .venv exists or is being created by a preceding step
-  // REL-002: Skip write if existing settings.json can't be parsed (JSONC) to avoid clobbering
+  // REL-002: settings.json is merged in place as JSONC, so comments and other keys survive
   const venvWillExist = detection.python.venvExists || steps.some((s) => s.id === "python-create-venv");
   if (venvWillExist) {
-    const escapedVenv = config.python.venv_path.replace(/'/g, "\\'");
     steps.push({
       id: "python-vscode-sync",
       title: "Sync Python virtual environment with VS Code",
       subsystem: "python",
       phase: "python",
       rationale: "VS Code needs to know the correct virtual environment path to prevent linting errors.",
-      commands: [
-        `mkdir -p .vscode && node -e "const fs=require('fs');const p='.vscode/settings.json';let s;try{s=JSON.parse(fs.readFileSync(p,'utf8'))}catch(e){if(fs.existsSync(p)){console.log('SKIP: settings.json exists but is not valid JSON (may contain comments). Skipping to preserve your config.');process.exit(0)}s={}}s['python.defaultInterpreterPath']='${escapedVenv}';fs.writeFileSync(p,JSON.stringify(s,null,2))"`
-      ],
+      commands: [],
+      actions: [{ kind: "json-merge", path: ".vscode/settings.json", patch: { "python.defaultInterpreterPath": venvPath } }],
       destructive: false,
       irreversible: false,
       undoable: true,
-      snapshotPaths: [".vscode/settings.json"],
       undoHints: [{ action: "Restore .vscode/settings.json" }],
       status: "planned",
     });
@@ -1,9 +1,59 @@
-export type Subsystem = "node" | "python" | "docker" | "checks" | "meta" | "environment" | "engines";
+export type Subsystem = "node" | "python" | "docker" | "checks" | "meta" | "environment" | "engines" | "custom" | `plugin:${string}`;
 
 export type StepStatus = "planned" | "proposed" | "running" | "success" | "failed" | "skipped" | "partial";
 
 export type CheckKind = "lint" | "test" | "format";
 
+export type PythonManager = "uv" | "poetry" | "pdm" | "pipenv";
+
+/**
+ * Compose implementation steps are generated for: `docker compose`, `docker-compose` (v1), `podman compose`,
+ * `podman-compose` or `nerdctl compose`.
+ */
+export type ContainerRuntime = "docker" | "docker-compose" | "podman" | "podman-compose" | "nerdctl";
+
+export interface VenvProblem {
+  kind: "interpreter-missing" | "interpreter-broken" | "home-missing" | "moved" | "pip-missing";
+  /** Also listed in `EnvDetection.issues`. */
+  message: string;
+}
+
+export interface ComposeServiceStatus {
+  service: string;
+  /** Container name; absent when the service has no container. */
+  container?: string;
+  /** Container state (`running`, `exited`, `restarting`, ...), or `missing` when there is no container. */
+  state: string;
+  /** Health check result (`healthy`, `unhealthy`, `starting`); absent when the service has no health check. */
+  health?: string;
+  exitCode?: number;
+  /** Published port bindings, e.g. `0.0.0.0:5432->5432/tcp`. */
+  ports: string[];
+  /** What needs fixing; absent when the service is fine. */
+  problem?: "missing" | "stopped" | "restarting" | "unhealthy" | "outdated-image" | "port-unbound";
+  /** One line for the report, e.g. `running, healthy` or `exited (code 1)`. */
+  diagnosis: string;
+}
+
+/** Docker objects labelled `com.docker.compose.project=<project>`, for scoped cleanup. */
+export interface ComposeResources {
+  containers: string[];
+  networks: string[];
+  /** IDs of images built for the project. */
+  images: string[];
+  volumes: string[];
+  /** Estimated bytes held by the containers' writable layers and the images. */
+  reclaimableBytes: number;
+}
+
+export interface ComposeStack {
+  project: string;
+  services: ComposeServiceStatus[];
+  /** Containers of the project whose service is no longer in the compose file. */
+  orphans: string[];
+  resources?: ComposeResources;
+}
+
 export interface CliFlags {
   dryRun: boolean;
   deep: boolean;
@@ -18,6 +68,16 @@ export interface CliFlags {
   reportPath?: string;
   json: boolean;
   run: boolean;
+  package?: string;
+  runId?: string;
+  /** Maximum number of independent steps run at once (`--jobs`). Overrides `execution.jobs`. */
+  jobs?: number;
+  /** With `config show`: print the effective config merged over the defaults. */
+  resolved?: boolean;
+  /** With `config show`: print which layer set each value. */
+  origin?: boolean;
+  /** With `init`: accept the detected answers without prompting. */
+  yes?: boolean;
 }
 
 export interface CommandContext {
@@ -26,7 +86,13 @@ export interface CommandContext {
   | "doctor"
   | "plan"
   | "report"
+  | "history"
+  | "gc"
   | "undo"
+  | "redo"
+  | "resume"
+  | "config"
+  | "init"
   | "clear-npm-cache"
   | "clear-yarn-cache"
   | "clear-pnpm-cache";
@@ -34,6 +100,8 @@ export interface CommandContext {
   runId: string;
   flags: CliFlags;
   interactive: boolean;
+  /** Aborted on SIGINT/SIGTERM: the running command is killed and remaining steps are skipped. */
+  signal?: AbortSignal;
 }
 
 export interface UndoHint {
@@ -41,25 +109,123 @@ export interface UndoHint {
   command?: string;
 }
 
+/** One program invocation. Executed directly (no shell), so args are passed through verbatim. */
+export interface Command {
+  bin: string;
+  args: string[];
+  /** Working directory relative to the step's cwd. */
+  cwd?: string;
+  /** Variables added to the inherited environment. */
+  env?: Record<string, string>;
+  /** Text written to the program's stdin. */
+  stdin?: string;
+}
+
+/** `a | b | c`: each stage's stdout is piped into the next stage's stdin. */
+export interface Pipeline {
+  pipe: Command[];
+}
+
+export type StepCommand = Command | Pipeline;
+
+/**
+ * File edits the executor performs in-process instead of spawning a program.
+ * Paths are relative to the step's cwd; every written path is snapshotted before the action runs.
+ */
+export type FileAction =
+  | { kind: "copy"; from: string; to: string }
+  /** Append `KEY=` lines for keys not already present in a dotenv file. */
+  | { kind: "append-keys"; path: string; keys: string[] }
+  /** RFC 7386 merge patch applied to a JSON/JSONC file; comments and formatting are preserved. */
+  | { kind: "json-merge"; path: string; patch: Record<string, unknown> }
+  | { kind: "delete"; path: string };
+
+export interface FileChange {
+  /** Path relative to the step's cwd. */
+  path: string;
+  action: FileAction["kind"];
+  changed: boolean;
+  /** Keys that were added, updated or removed (dotenv keys, or JSON key paths joined with `/`). */
+  keys?: string[];
+  note?: string;
+}
+
 export interface FixStep {
   id: string;
   title: string;
   subsystem: Subsystem;
-  phase: "detect" | "ports" | "docker" | "node" | "python" | "checks" | "environment" | "engines";
+  phase: "detect" | "ports" | "docker" | "node" | "python" | "plugins" | "checks" | "environment" | "engines";
   checkKind?: CheckKind;
   rationale: string;
-  commands: string[];
+  commands: StepCommand[];
+  /** In-process file actions, run after `commands`. */
+  actions?: FileAction[];
+  /** What each file action actually changed. */
+  fileChanges?: FileChange[];
   destructive: boolean;
   irreversible: boolean;
   undoable: boolean;
   irreversibleReason?: string;
   undoHints?: UndoHint[];
   snapshotPaths?: string[];
+  /** Docker volumes the step deletes; exported to the snapshot store first when `docker.snapshot_volumes` is on. */
+  volumes?: string[];
+  /** Container CLI that owns `volumes`. Defaults to `docker`. */
+  containerEngine?: string;
+  /** Content-addressed snapshot taken before the step ran. */
+  snapshot?: SnapshotManifest;
+  /** sha256 of each snapshotted path (relative to the root) as the step left it, used to detect later edits. */
+  resultHashes?: Record<string, string>;
   status: StepStatus;
   output?: string;
   error?: string;
   proposedReason?: string;
   skippedReason?: string;
+  /** Condition left unchecked because nothing runs (`plan`, `doctor`, `--dry-run`); a real run only plans the step if it holds. */
+  conditional?: string;
+  /** Asked before the step runs, even with --deep or --approve. Without a terminal to ask, the step is only proposed. */
+  confirmation?: string;
+  /** Full output of the step's commands, relative to the project root. */
+  logPath?: string;
+  /** Directory the commands run in, relative to the project root. Defaults to the root. */
+  cwd?: string;
+  /** Workspace package this step is scoped to, if any. */
+  package?: string;
+  /** Resources this step sets up (e.g. `node`, `python`). Steps providing the same resource run in plan order. */
+  provides?: string[];
+  /** Resources or step ids that must finish before this step starts. */
+  dependsOn?: string[];
+  /** When the step started and finished running (ISO timestamps). */
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface SnapshotEntry {
+  /** Original path relative to the project root (posix separators); the volume name for `volume` entries. */
+  path: string;
+  /**
+   * `archive` entries hold a whole directory as a gzip-compressed tar; `absent` records a path
+   * that did not exist (undo deletes it); `volume` holds a Docker volume's contents as a gzip-compressed
+   * tar. Defaults to `file`.
+   */
+  kind?: "file" | "archive" | "absent" | "volume";
+  sha256: string;
+  /** Stored size in bytes (compressed size for archives). */
+  size: number;
+  /** For archives and volumes: total size of the files inside. */
+  unpackedSize?: number;
+  /** For volumes: the labels it is recreated with. */
+  labels?: Record<string, string>;
+  /** For volumes: the container CLI that exported it (`docker`, `podman` or `nerdctl`). Defaults to `docker`. */
+  engine?: string;
+  mode: number;
+  mtime: string;
+}
+
+export interface SnapshotManifest {
+  /** Snapshot store holding the `blobs/` directory. */
+  store: string;
+  entries: SnapshotEntry[];
 }
 
 export interface EnvDetection {
@@ -79,10 +245,28 @@ export interface EnvDetection {
     hasRequirements: boolean;
     venvPath: string;
     venvExists: boolean;
+    /** Tool managing dependencies, from lockfiles, `pyproject.toml` and `Pipfile`. Unset for plain requirements files. */
+    manager?: PythonManager;
+    /** The manager's lockfile (`uv.lock`, `poetry.lock`, `pdm.lock`, `Pipfile.lock`), when present. */
+    lockfile?: string;
+    /** `requirements.txt` and `requirements-dev.txt`, in that order, when present. */
+    requirementsFiles?: string[];
+    /** What is wrong with the existing venv; empty when it is healthy or does not exist. */
+    venvProblems?: VenvProblem[];
   };
   docker: {
     detected: boolean;
+    /** The first compose file; see `composeFiles` for the full set. */
     composeFile?: string;
+    /** Every compose file Compose would merge (e.g. `compose.yaml` and `compose.override.yml`), in order. */
+    composeFiles?: string[];
+    projectName?: string;
+    /** Profiles enabled through `COMPOSE_PROFILES` and `docker.profiles`. */
+    profiles?: string[];
+    /** Compose implementation found on the machine (or forced by `docker.runtime`); absent when none is installed. */
+    runtime?: ContainerRuntime;
+    /** Live state of the compose project; absent when Docker could not be queried. */
+    stack?: ComposeStack;
   };
   environment: {
     hasEnv: boolean;
@@ -93,6 +277,19 @@ export interface EnvDetection {
     pythonVersionFile?: string;
   };
   issues: string[];
+  packages?: WorkspacePackage[];
+  /** What each loaded plugin detected, keyed by plugin name. */
+  plugins?: Record<string, PluginDetection>;
+}
+
+export interface WorkspacePackage {
+  name: string;
+  /** Package directory relative to the project root (posix separators). */
+  path: string;
+  source: "package.json" | "pnpm-workspace" | "pyproject";
+  /** True when dependencies are installed by the root package manager (JS workspace member). */
+  managedByRoot: boolean;
+  detection: EnvDetection;
 }
 
 export interface Config {
@@ -105,12 +302,21 @@ export interface Config {
   };
   python: {
     venv_path: string;
-    install: { prefer: "uv" | "pip" | "poetry" | "pipenv" | "auto" };
+    /** Installer for projects without a dependency manager (see `EnvDetection.python.manager`). */
+    install: { prefer: PythonManager | "pip" | "auto" };
     tools: { format: string[]; lint: string[]; test: string[] };
   };
   docker: {
-    compose_file: string;
+    /** `auto` resolves files like Compose does; a path or list selects exactly those files. */
+    compose_file: string | string[];
+    profiles: string[];
+    /** `auto` uses the first compose implementation found; a runtime name forces that one. */
+    runtime: ContainerRuntime | "auto";
     safe_down: boolean;
+    /** Export named volumes before a step deletes them, so `undo` can re-import them. */
+    snapshot_volumes: boolean;
+    /** Volumes larger than this in total are not exported (the step becomes irreversible). 0 disables the limit. */
+    volume_snapshot_max_bytes: number;
     rebuild: boolean;
     prune: boolean;
   };
@@ -118,8 +324,52 @@ export interface Config {
   output: {
     report_dir: string;
     snapshot_dir: string;
+    /** Full command output per step is written to `<log_dir>/<runId>/<stepId>.log`. */
+    log_dir: string;
     verbosity: "quiet" | "normal" | "verbose";
+    /** Per-step snapshot limits. Steps over `max_bytes` (0 = unlimited) run without a snapshot and become irreversible. */
+    snapshot_policy: { max_bytes: number; archive_directories: boolean };
+    /** Limits applied by `auto-fix gc`. A value of 0 disables that limit. */
+    retention: { max_runs: number; max_age_days: number; max_total_bytes: number };
+  };
+  /**
+   * Step time limits in seconds (0 = no limit). Lookup order: `steps[<step id>]`,
+   * `subsystems[<subsystem>]`, then `default_seconds`.
+   */
+  timeouts: {
+    default_seconds: number;
+    subsystems: Partial<Record<Subsystem, number>>;
+    steps: Record<string, number>;
   };
+  /** Independent steps (see `FixStep.dependsOn`) run concurrently, up to `jobs` at a time. */
+  execution: { jobs: number };
+  /** Plugin modules: package names or paths relative to the project root. */
+  plugins: string[];
+  /** Project-specific repairs, merged into the plan as `custom-<id>` steps. */
+  steps: CustomStepConfig[];
+}
+
+/** When a custom step applies. Every condition given must hold; paths are relative to the project root. */
+export interface CustomStepCondition {
+  file_exists?: string | string[];
+  file_missing?: string | string[];
+  /** Config command (same rules as `python.tools`) run while planning; the step applies when it exits non-zero. */
+  command_fails?: string;
+}
+
+/** A step declared under `steps:` in `.autofix.yml`. */
+export interface CustomStepConfig {
+  id: string;
+  title?: string;
+  rationale?: string;
+  /** Plan phase the step runs in. Defaults to `checks` (after every built-in repair). */
+  phase?: "environment" | "engines" | "docker" | "node" | "python" | "checks";
+  when?: CustomStepCondition;
+  /** Config commands, checked against the same allowlist as `python.tools`. */
+  commands: string[];
+  destructive?: boolean;
+  /** Paths snapshotted before the step runs, so `auto-fix undo` can restore them. */
+  snapshot?: string[];
 }
 
 export interface RunSummary {
@@ -141,13 +391,87 @@ export interface UndoEntry {
   skipped: string[];
   missingSnapshot: string[];
   failed: string[];
+  /** Targets edited after the fix ran; their current content is kept in the pre-undo snapshot. */
+  modifiedSinceRun?: string[];
+  /** Snapshot of the working tree taken right before restoring, so the undo can itself be undone. */
+  preUndoSnapshot?: SnapshotManifest;
+  /** Diff-style preview per target, populated by `undo --dry-run`. */
+  preview?: string[];
   nextBestAction?: string;
 }
 
+export interface PackageReport {
+  name: string;
+  path: string;
+  issues: string[];
+  stepIds: string[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+/** Result of a plugin's `detect`. Plugins may add any fields their `buildSteps` needs. */
+export interface PluginDetection {
+  detected: boolean;
+  /** Problems found; shown by `doctor` (prefixed with the plugin name) like built-in issues. */
+  issues?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * A step as returned by a plugin's `buildSteps`. The loader fills in `subsystem` (`plugin:<name>`),
+ * `status` and the remaining defaults, and prefixes `id` with the plugin name.
+ */
+export type PluginStep = Pick<FixStep, "id" | "title" | "rationale"> &
+  Partial<Omit<FixStep, "id" | "title" | "rationale" | "subsystem" | "status">> & { proposed?: boolean };
+
+/**
+ * Third-party subsystem. Loaded from `.autofix.yml` `plugins:` entries or from `auto-fix-plugin-*`
+ * packages the project depends on. Plugin steps run through the same executor as built-in ones:
+ * destructive gating, the command allowlist (extended by `binaries`), snapshots and reports.
+ */
+export interface AutoFixPlugin {
+  name: string;
+  /** Extra binaries this plugin's steps may run, on top of the built-in allowlist. */
+  binaries?: string[];
+  detect(cwd: string, config: Config): PluginDetection | Promise<PluginDetection>;
+  buildSteps(detection: PluginDetection, config: Config, flags: CliFlags): PluginStep[] | Promise<PluginStep[]>;
+  /** Called after the plugin's steps ran; `ok: false` is reported as a warning. */
+  verify?(cwd: string, detection: PluginDetection, steps: FixStep[]): PluginVerifyResult | Promise<PluginVerifyResult>;
+}
+
+export interface PluginVerifyResult {
+  ok: boolean;
+  message?: string;
+}
+
+export interface PluginReport {
+  name: string;
+  /** Module specifier the plugin was loaded from. */
+  source: string;
+  stepIds: string[];
+  verify?: PluginVerifyResult;
+}
+
+export interface RunInterruption {
+  signal: "SIGINT" | "SIGTERM";
+  /** The (first) step that was running when the signal arrived, if any (reported as `partial`). */
+  stepId?: string;
+  /** Steps `auto-fix resume` will run: those cut short (`partial`) or never started, in plan order. */
+  remainingStepIds: string[];
+}
+
 export interface RunReport {
   runId: string;
   command: CommandContext["command"];
   cwd: string;
+  /** For undo/redo runs: the run whose snapshots were restored. */
+  undoOf?: string;
+  /** For resume runs: the interrupted run whose plan was continued. */
+  resumeOf?: string;
+  /** Set when the run was stopped by a signal before the plan finished. */
+  interrupted?: RunInterruption;
+  plugins?: PluginReport[];
   startedAt: string;
   finishedAt?: string;
   flags: CliFlags;
@@ -155,6 +479,7 @@ export interface RunReport {
   steps: FixStep[];
   summary: RunSummary;
   undo: UndoEntry[];
+  packages?: PackageReport[];
   storage: {
     reportDir: string;
     snapshotDir: string;
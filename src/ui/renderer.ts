@@ -1,5 +1,9 @@
 import * as p from "@clack/prompts";
-import type { CliFlags, EnvDetection, FixStep, RunSummary } from "../types.js";
+import type { CheckKind, CliFlags, EnvDetection, FixStep, RunSummary } from "../types.js";
+import type { InitAnswers } from "../config/init.js";
+import { parsePortList } from "../config/init.js";
+import { runtimeLabel } from "../core/containerRuntime.js";
+import { style } from "../utils/colors.js";
 
 const S = {
     ok: "\u2714",
@@ -13,14 +17,160 @@ const S = {
 
 export interface StepHooks {
     onStepStart(step: FixStep): void;
+    /** Streamed command output (stdout and stderr chunks) while the step runs. */
+    onStepOutput?(step: FixStep, chunk: string): void;
     onStepEnd(step: FixStep): void;
     onConfirm(question: string): Promise<boolean>;
 }
 
+/** Keys touched by a step's file actions, e.g. ` (API_URL, DB_HOST)`. */
+function changedKeys(step: FixStep): string {
+    const keys = (step.fileChanges ?? []).flatMap((change) => change.keys ?? []);
+    return keys.length > 0 ? ` (${keys.join(", ")})` : "";
+}
+
+/** Number of recent output lines shown under the spinner while a step runs. */
+const OUTPUT_TAIL_LINES = 3;
+
+/** Strip ANSI escapes and carriage-return redraws so progress bars collapse to their final state. */
+function cleanLine(line: string): string {
+    const text = line.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, "");
+    const lastFrame = text.split("\r").filter((frame) => frame.trim()).pop() ?? "";
+    return lastFrame.trimEnd();
+}
+
+function truncate(line: string, width: number): string {
+    return line.length > width ? `${line.slice(0, width - 1)}\u2026` : line;
+}
+
+/** Final line for a step, shown when its spinner stops. */
+function stepEndMessage(step: FixStep): string {
+    if (step.status === "success") return `${S.ok}  ${step.title}${changedKeys(step)}`;
+    if (step.status === "failed") return `${S.fail}  ${step.title}${step.error ? ` \u2014 ${step.error}` : ""}`;
+    if (step.status === "partial") return `${S.warn}  ${step.title}${step.error ? ` \u2014 ${step.error}` : ""}`;
+    return `${S.skip}  ${step.title}${step.proposedReason ? ` (${step.proposedReason})` : ""}`;
+}
+
+const FRAMES = ["\u25D2", "\u25D0", "\u25D3", "\u25D1"];
+
+/**
+ * One spinner row per running step, redrawn in place below the log. Finished steps are logged
+ * above the block, so the block only ever holds what is still running.
+ */
+class SpinnerBlock {
+    private readonly rows = new Map<string, { title: string; line: string }>();
+    private readonly dim: (value: string) => string;
+    private frame = 0;
+    private drawn = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private paused = false;
+
+    constructor(color: boolean) {
+        this.dim = style(color).dim;
+    }
+
+    start(id: string, title: string): void {
+        this.rows.set(id, { title, line: "" });
+        this.timer ??= setInterval(() => this.redraw(), 80).unref();
+        this.redraw();
+    }
+
+    update(id: string, line: string): void {
+        const row = this.rows.get(id);
+        if (row) row.line = line;
+    }
+
+    finish(id: string, log: () => void): void {
+        this.rows.delete(id);
+        this.clear();
+        log();
+        if (this.rows.size === 0 && this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.redraw();
+    }
+
+    /** Hide the block while a prompt has the terminal. */
+    pause(): void {
+        this.paused = true;
+        this.clear();
+    }
+
+    resume(): void {
+        this.paused = false;
+        this.redraw();
+    }
+
+    private clear(): void {
+        if (this.drawn > 0) process.stdout.write(`\x1b[${this.drawn}A\x1b[J`);
+        this.drawn = 0;
+    }
+
+    private redraw(): void {
+        if (this.paused) return;
+        this.clear();
+        if (this.rows.size === 0) return;
+        this.frame = (this.frame + 1) % FRAMES.length;
+        const width = Math.max(20, (process.stdout.columns || 80) - 4);
+        const lines = [...this.rows.values()].map(({ title, line }) => {
+            const head = `${FRAMES[this.frame]}  ${title}`;
+            const rest = line && head.length + 3 < width ? this.dim(` \u2014 ${truncate(line, width - head.length - 3)}`) : "";
+            return `${truncate(head, width)}${rest}`;
+        });
+        process.stdout.write(`${lines.join("\n")}\n`);
+        this.drawn = lines.length;
+    }
+}
+
 export function createRenderer(flags: CliFlags, interactive: boolean) {
     const rich = interactive && !flags.quiet && !flags.json;
-    const spin = rich ? p.spinner() : null;
     let spinRunning = false;
+    // The spinner stops itself on Ctrl-C; the run keeps going until the interrupted step is recorded.
+    const spin = rich ? p.spinner({ cancelMessage: "Interrupted", onCancel: () => { spinRunning = false; } }) : null;
+    let tail: string[] = [];
+    let pendingLine = "";
+
+    /** Exit cleanly when a prompt is cancelled with Ctrl-C or Esc. */
+    function answered<T>(result: T | symbol): T {
+        if (p.isCancel(result)) {
+            p.cancel("Operation cancelled.");
+            process.exit(0);
+        }
+        return result as T;
+    }
+
+    async function confirm(question: string): Promise<boolean> {
+        return answered(await p.confirm({ message: question }));
+    }
+
+    function createConcurrentHooks(): StepHooks {
+        const block = new SpinnerBlock(!flags.noColor);
+        const pending = new Map<string, string>();
+        return {
+            onStepStart: (step: FixStep) => block.start(step.id, step.title),
+            onStepOutput: (step: FixStep, chunk: string) => {
+                const lines = ((pending.get(step.id) ?? "") + chunk).split("\n");
+                pending.set(step.id, lines.pop() ?? "");
+                const last = lines.map(cleanLine).filter(Boolean).pop();
+                if (last) block.update(step.id, last);
+            },
+            onStepEnd: (step: FixStep) => {
+                pending.delete(step.id);
+                const message = stepEndMessage(step);
+                const log = step.status === "success" ? () => p.log.success(message) : () => p.log.warn(message);
+                block.finish(step.id, log);
+            },
+            onConfirm: async (question: string): Promise<boolean> => {
+                block.pause();
+                try {
+                    return await confirm(question);
+                } finally {
+                    block.resume();
+                }
+            },
+        };
+    }
 
     return {
         isRich: rich,
@@ -32,7 +182,9 @@ export function createRenderer(flags: CliFlags, interactive: boolean) {
             if (flags.approve) tags.push("approve");
             if (flags.forceFresh) tags.push("force-fresh");
             if (flags.focus !== "all") tags.push(`focus:${flags.focus}`);
+            if (flags.package) tags.push(`package:${flags.package}`);
             if (flags.killPorts) tags.push("kill-ports");
+            if (flags.jobs) tags.push(`jobs:${flags.jobs}`);
             const extra = tags.length ? ` [${tags.join(", ")}]` : "";
             p.intro(`auto-fix \u00B7 ${command}${extra}`);
         },
@@ -42,8 +194,17 @@ export function createRenderer(flags: CliFlags, interactive: boolean) {
             const parts: string[] = [];
             if (detection.node.detected) parts.push(`Node (${detection.node.packageManager})`);
             if (detection.python.detected) parts.push("Python");
-            if (detection.docker.detected) parts.push("Docker Compose");
+            if (detection.docker.detected) {
+                const runtime = detection.docker.runtime;
+                parts.push(runtime && runtime !== "docker" ? `Docker Compose (via ${runtimeLabel(runtime)})` : "Docker Compose");
+            }
+            for (const [name, result] of Object.entries(detection.plugins ?? {})) {
+                if (result.detected) parts.push(`${name} (plugin)`);
+            }
             p.log.info(`Detected: ${parts.join(", ") || "No supported project detected"}`);
+            if (detection.packages?.length) {
+                p.log.info(`Workspace packages: ${detection.packages.map((pkg) => `${pkg.name} (${pkg.path})`).join(", ")}`);
+            }
             for (const issue of detection.issues) {
                 p.log.warn(issue);
             }
@@ -59,29 +220,41 @@ export function createRenderer(flags: CliFlags, interactive: boolean) {
                 const prefix = s.irreversible ? S.irr : s.destructive ? S.diamond : S.dot;
                 const irr = s.irreversible ? " [IRREVERSIBLE]" : "";
                 const reason = s.proposedReason ? ` \u2014 ${s.proposedReason}` : "";
-                return `  ${prefix}  ${s.title}${irr}${reason}`;
+                const condition = s.conditional ? ` (${s.conditional})` : "";
+                return `  ${prefix}  ${s.title}${irr}${condition}${reason}`;
             });
             p.note(lines.join("\n"), label ?? `Plan \u2014 ${steps.length} step(s)`);
         },
 
-        createStepHooks(): StepHooks {
+        /** Step hooks for `executeSteps`; with `jobs` > 1 every running step gets its own spinner row. */
+        createStepHooks(jobs = 1): StepHooks {
+            if (rich && jobs > 1) return createConcurrentHooks();
             return {
                 onStepStart: (step: FixStep) => {
                     if (!rich || !spin) return;
+                    tail = [];
+                    pendingLine = "";
                     spin.start(step.title);
                     spinRunning = true;
                 },
+                onStepOutput: (step: FixStep, chunk: string) => {
+                    if (!spinRunning || !spin) return;
+                    const lines = (pendingLine + chunk).split("\n");
+                    pendingLine = lines.pop() ?? "";
+                    const fresh = lines.map(cleanLine).filter(Boolean);
+                    if (fresh.length === 0) return;
+                    tail = [...tail, ...fresh].slice(-OUTPUT_TAIL_LINES);
+                    const width = Math.max(20, (process.stdout.columns || 80) - 6);
+                    const shown = tail.map((line) => `  ${truncate(line, width)}`);
+                    spin.message(`${step.title}\n${shown.join("\n")}`);
+                },
                 onStepEnd: (step: FixStep) => {
                     if (!rich) return;
                     if (spinRunning && spin) {
-                        const msg =
-                            step.status === "success"
-                                ? `${S.ok}  ${step.title}`
-                                : step.status === "failed"
-                                    ? `${S.fail}  ${step.title}${step.error ? ` \u2014 ${step.error}` : ""}`
-                                    : `${S.skip}  ${step.title}${step.proposedReason ? ` (${step.proposedReason})` : ""}`;
-                        spin.stop(msg);
+                        spin.stop(stepEndMessage(step));
                         spinRunning = false;
+                    } else if (step.status === "partial") {
+                        p.log.warn(stepEndMessage(step));
                     } else {
                         const symbol = step.status === "proposed" ? S.skip : S.dot;
                         const reason = step.proposedReason ? ` (${step.proposedReason})` : "";
@@ -94,12 +267,7 @@ export function createRenderer(flags: CliFlags, interactive: boolean) {
                         spin.stop();
                         spinRunning = false;
                     }
-                    const result = await p.confirm({ message: question });
-                    if (p.isCancel(result)) {
-                        p.cancel("Operation cancelled.");
-                        process.exit(0);
-                    }
-                    return result;
+                    return confirm(question);
                 },
             };
         },
@@ -129,11 +297,91 @@ export function createRenderer(flags: CliFlags, interactive: boolean) {
             p.log.success(parts.join("  "));
         },
 
+        showHistory(table: string) {
+            if (!rich) return;
+            p.note(table, "Run history");
+        },
+
+        showGcResults(text: string) {
+            if (!rich) return;
+            p.note(text, "Garbage collection");
+        },
+
+        showUndoPreview(text: string) {
+            if (!rich) return;
+            p.note(text, "Undo preview (- current, + snapshot)");
+        },
+
+        showWarning(msg: string) {
+            if (!rich) return;
+            p.log.warn(msg);
+        },
+
         showReportInfo(msg: string) {
             if (!rich) return;
             p.log.info(msg);
         },
 
+        /** Ask the `auto-fix init` questions, pre-filled with `defaults`. Sections not detected keep their defaults. */
+        async promptInit(defaults: InitAnswers, detection: EnvDetection): Promise<InitAnswers> {
+            const answers = { ...defaults };
+            if (detection.node.detected) {
+                answers.packageManager = answered(await p.select({
+                    message: "Package manager",
+                    options: [
+                        { value: "auto" as const, label: "auto", hint: "match the lockfile" },
+                        { value: "npm" as const, label: "npm" },
+                        { value: "pnpm" as const, label: "pnpm" },
+                        { value: "yarn" as const, label: "yarn" },
+                    ],
+                    initialValue: defaults.packageManager,
+                }));
+            }
+            if (detection.python.detected) {
+                answers.venvPath = answered(await p.text({
+                    message: "Virtual environment path",
+                    initialValue: defaults.venvPath,
+                    validate: (value) => (value?.trim() ? undefined : "Enter a path relative to the project root"),
+                })).trim();
+                answers.pythonInstaller = answered(await p.select({
+                    message: "Python installer",
+                    options: [
+                        { value: "auto" as const, label: "auto" },
+                        { value: "uv" as const, label: "uv" },
+                        { value: "pip" as const, label: "pip" },
+                        { value: "poetry" as const, label: "poetry" },
+                        { value: "pdm" as const, label: "pdm" },
+                        { value: "pipenv" as const, label: "pipenv" },
+                    ],
+                    initialValue: defaults.pythonInstaller,
+                }));
+            }
+            if (detection.docker.detected) {
+                answers.composeFile = answered(await p.text({
+                    message: "Compose file",
+                    initialValue: defaults.composeFile,
+                    validate: (value) => (value?.trim() ? undefined : "Enter a file name or 'auto'"),
+                })).trim();
+            }
+            const ports = answered(await p.text({
+                message: "Dev server ports (comma-separated)",
+                initialValue: defaults.ports.join(", "),
+                validate: (value) => (parsePortList(value ?? "") ? undefined : "Enter ports between 1 and 65535, e.g. 3000, 5173"),
+            }));
+            answers.ports = parsePortList(ports) ?? defaults.ports;
+            answers.checks = answered(await p.multiselect<CheckKind>({
+                message: "Checks to run by default",
+                options: [
+                    { value: "lint", label: "lint" },
+                    { value: "format", label: "format" },
+                    { value: "test", label: "test" },
+                ],
+                initialValues: defaults.checks,
+                required: false,
+            }));
+            return answers;
+        },
+
         startTask(msg: string) {
             if (!rich || !spin) return;
             spin.start(msg);
@@ -0,0 +1,40 @@
+/** Files above this many lines are summarized instead of diffed (LCS is O(n*m)). */
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Minimal line diff for previews. Returns `-`/`+` lines for removed/added content,
+ * with unchanged lines omitted.
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [`(content too large to diff: ${a.length} -> ${b.length} lines)`];
+  }
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push(`- ${a[i]}`);
+      i += 1;
+    } else {
+      out.push(`+ ${b[j]}`);
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) out.push(`- ${a[i]}`);
+  for (; j < b.length; j += 1) out.push(`+ ${b[j]}`);
+  return out;
+}
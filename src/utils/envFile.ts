@@ -0,0 +1,31 @@
+/** Strict env key sanitizer: only allow [A-Z0-9_] */
+export function sanitizeEnvKey(key: string): string {
+  return key.replace(/[^A-Z0-9_]/gi, "");
+}
+
+/** Keys defined in dotenv text, in file order. Comments and blank lines are ignored. */
+export function parseEnvKeys(raw: string): string[] {
+  const keys: string[] = [];
+  for (const line of raw.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const idx = trimmed.indexOf("=");
+    if (idx > 0) {
+      const key = sanitizeEnvKey(trimmed.substring(0, idx).trim());
+      if (key) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/** Values defined in dotenv text; later lines win. Surrounding quotes, `export` and trailing comments are removed. */
+export function parseEnvValues(raw: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of raw.split("\n")) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) continue;
+    const quoted = /^(["'])(.*)\1$/.exec(match[2]);
+    values[match[1]] = quoted ? quoted[2] : match[2].replace(/\s+#.*$/, "");
+  }
+  return values;
+}
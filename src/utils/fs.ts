@@ -1,5 +1,6 @@
-import { access, cp, mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { access, cp, lstat, mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
 import path from "node:path";
+import { createHash } from "node:crypto";
 import { constants } from "node:fs";
 
 export async function fileExists(target: string): Promise<boolean> {
@@ -41,7 +42,49 @@ export async function copyPath(src: string, dest: string): Promise<void> {
   await cp(src, dest, { recursive: true, force: true });
 }
 
-export async function ensureAutofixInGitignore(cwd: string): Promise<boolean> {
+/** sha256 of a regular file's contents, or null when it is missing or not a file. */
+export async function hashFile(target: string): Promise<string | null> {
+  try {
+    const info = await stat(target);
+    if (!info.isFile()) return null;
+    return createHash("sha256").update(await readFile(target)).digest("hex");
+  } catch {
+    return null;
+  }
+}
+
+/** Total size in bytes of a file or directory tree (symlinks are not followed). Missing paths count as 0. */
+export async function pathSize(target: string): Promise<number> {
+  let info;
+  try {
+    info = await lstat(target);
+  } catch {
+    return 0;
+  }
+  if (!info.isDirectory()) return info.size;
+  let total = 0;
+  for (const entry of await readdir(target)) {
+    total += await pathSize(path.join(target, entry));
+  }
+  return total;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/** Run artifacts and the personal `.autofix.local.yml` config layer never belong in the repo. */
+const GITIGNORED_PATHS = [".autofix/", ".autofix.local.yml"];
+
+export async function ensureAutofixInGitignore(cwd: string): Promise<string[]> {
   let current = cwd;
   while (true) {
     const gitDir = path.join(current, ".git");
@@ -49,15 +92,24 @@ export async function ensureAutofixInGitignore(cwd: string): Promise<boolean> {
       const gitignore = path.join(current, ".gitignore");
       const exists = await fileExists(gitignore);
       const body = exists ? await readFile(gitignore, "utf8") : "";
-      if (!body.split(/\r?\n/).includes(".autofix/")) {
-        const next = `${body}${body.endsWith("\n") || body.length === 0 ? "" : "\n"}.autofix/\n`;
+      const lines = body.split(/\r?\n/);
+      const missing = GITIGNORED_PATHS.filter((entry) => !lines.includes(entry));
+      if (missing.length > 0) {
+        const next = `${body}${body.endsWith("\n") || body.length === 0 ? "" : "\n"}${missing.map((entry) => `${entry}\n`).join("")}`;
         await writeFile(gitignore, next, "utf8");
-        return true;
       }
-      return false;
+      return missing;
     }
     const parent = path.dirname(current);
-    if (parent === current) return false;
+    if (parent === current) return [];
     current = parent;
   }
 }
+
+/** SEC-002: Containment check — resolve `relativePath` under `root`, or null if it escapes. */
+export function resolveInsideRoot(root: string, relativePath: string): string | null {
+  const target = path.resolve(root, relativePath);
+  const normalizedRoot = path.resolve(root) + path.sep;
+  if (!target.startsWith(normalizedRoot) && target !== path.resolve(root)) return null;
+  return target;
+}
@@ -0,0 +1,34 @@
+/**
+ * Convert a workspace-style glob (`packages/*`, `apps/**`, `svc-?`) into an anchored RegExp.
+ * `*` and `?` never cross a `/`; `**` matches any number of path segments.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+  let source = "";
+  for (let i = 0; i < normalized.length; i += 1) {
+    const ch = normalized[i];
+    if (ch === "*") {
+      if (normalized[i + 1] === "*") {
+        // `**/` also matches zero segments, so `apps/**/web` matches `apps/web`
+        if (normalized[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value.replace(/\\/g, "/"));
+}
@@ -0,0 +1,318 @@
+/**
+ * Minimal JSONC (JSON with comments and trailing commas) support for editing config files
+ * such as `.vscode/settings.json` in place. Edits touch only the affected members, so comments,
+ * key order and formatting elsewhere in the file are preserved.
+ */
+
+interface ValueNode {
+  type: "object" | "array" | "string" | "number" | "boolean" | "null";
+  start: number;
+  end: number;
+  members?: MemberNode[];
+  elements?: ValueNode[];
+}
+
+interface MemberNode {
+  key: string;
+  keyStart: number;
+  value: ValueNode;
+  /** Offset just past the member's comma, if it has one. */
+  commaEnd?: number;
+}
+
+export class JsoncParseError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = "JsoncParseError";
+  }
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): ValueNode {
+    this.skipTrivia();
+    const node = this.value();
+    this.skipTrivia();
+    if (this.pos < this.text.length) this.fail("Unexpected content after value");
+    return node;
+  }
+
+  private fail(message: string): never {
+    const before = this.text.slice(0, this.pos).split("\n");
+    throw new JsoncParseError(message, before.length, before[before.length - 1].length + 1);
+  }
+
+  private skipTrivia(): void {
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (/\s/.test(ch)) {
+        this.pos += 1;
+      } else if (this.text.startsWith("//", this.pos)) {
+        const end = this.text.indexOf("\n", this.pos);
+        this.pos = end === -1 ? this.text.length : end;
+      } else if (this.text.startsWith("/*", this.pos)) {
+        const end = this.text.indexOf("*/", this.pos + 2);
+        if (end === -1) this.fail("Unterminated block comment");
+        this.pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private value(): ValueNode {
+    const ch = this.text[this.pos];
+    if (ch === "{") return this.object();
+    if (ch === "[") return this.array();
+    if (ch === "\"") {
+      const start = this.pos;
+      this.string();
+      return { type: "string", start, end: this.pos };
+    }
+    const literal = /^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)/.exec(this.text.slice(this.pos));
+    if (!literal) this.fail("Unexpected token");
+    const start = this.pos;
+    this.pos += literal[0].length;
+    const type = literal[0] === "null" ? "null" : literal[0] === "true" || literal[0] === "false" ? "boolean" : "number";
+    return { type, start, end: this.pos };
+  }
+
+  private string(): string {
+    const start = this.pos;
+    this.pos += 1;
+    while (this.pos < this.text.length && this.text[this.pos] !== "\"") {
+      if (this.text[this.pos] === "\n") this.fail("Unterminated string");
+      this.pos += this.text[this.pos] === "\\" ? 2 : 1;
+    }
+    if (this.pos >= this.text.length) this.fail("Unterminated string");
+    this.pos += 1;
+    return JSON.parse(this.text.slice(start, this.pos)) as string;
+  }
+
+  private object(): ValueNode {
+    const start = this.pos;
+    const members: MemberNode[] = [];
+    this.pos += 1;
+    this.skipTrivia();
+    while (this.text[this.pos] !== "}") {
+      if (this.text[this.pos] !== "\"") this.fail("Expected property name");
+      const keyStart = this.pos;
+      const key = this.string();
+      this.skipTrivia();
+      if (this.text[this.pos] !== ":") this.fail("Expected ':'");
+      this.pos += 1;
+      this.skipTrivia();
+      const member: MemberNode = { key, keyStart, value: this.value() };
+      members.push(member);
+      this.skipTrivia();
+      if (this.text[this.pos] === ",") {
+        this.pos += 1;
+        member.commaEnd = this.pos;
+        this.skipTrivia();
+      } else if (this.text[this.pos] !== "}") {
+        this.fail("Expected ',' or '}'");
+      }
+    }
+    this.pos += 1;
+    return { type: "object", start, end: this.pos, members };
+  }
+
+  private array(): ValueNode {
+    const start = this.pos;
+    const elements: ValueNode[] = [];
+    this.pos += 1;
+    this.skipTrivia();
+    while (this.text[this.pos] !== "]") {
+      if (this.pos >= this.text.length) this.fail("Unterminated array");
+      elements.push(this.value());
+      this.skipTrivia();
+      if (this.text[this.pos] === ",") {
+        this.pos += 1;
+        this.skipTrivia();
+      } else if (this.text[this.pos] !== "]") {
+        this.fail("Expected ',' or ']'");
+      }
+    }
+    this.pos += 1;
+    return { type: "array", start, end: this.pos, elements };
+  }
+}
+
+/** Parse JSONC text (comments and trailing commas allowed). Throws `JsoncParseError` on malformed input. */
+export function parseJsonc(text: string): unknown {
+  const root = new Parser(text).parse();
+  return evaluate(text, root);
+}
+
+function evaluate(text: string, node: ValueNode): unknown {
+  if (node.type === "object") {
+    const out: Record<string, unknown> = {};
+    for (const member of node.members ?? []) out[member.key] = evaluate(text, member.value);
+    return out;
+  }
+  if (node.type === "array") return (node.elements ?? []).map((element) => evaluate(text, element));
+  return JSON.parse(text.slice(node.start, node.end));
+}
+
+function lineStart(text: string, offset: number): number {
+  return text.lastIndexOf("\n", offset - 1) + 1;
+}
+
+function indentAt(text: string, offset: number): string {
+  return /^[ \t]*/.exec(text.slice(lineStart(text, offset)))?.[0] ?? "";
+}
+
+function format(value: unknown, indent: string, unit: string): string {
+  return JSON.stringify(value, null, unit).split("\n").join(`\n${indent}`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+interface Edit {
+  text: string;
+  changed: string;
+}
+
+/** Apply one change at `keyPath`, returning the edited text. */
+function applyOne(text: string, keyPath: string[], value: unknown, unit: string): Edit | null {
+  let node = new Parser(text).parse();
+  if (node.type !== "object") throw new JsoncParseError("Top-level value is not an object", 1, 1);
+
+  for (let depth = 0; depth < keyPath.length; depth += 1) {
+    const key = keyPath[depth];
+    const members = node.members ?? [];
+    const index = members.findIndex((m) => m.key === key);
+    const member = members[index];
+    const isLast = depth === keyPath.length - 1;
+
+    if (member && !isLast) {
+      if (member.value.type !== "object") {
+        // Merge patch replaces non-object values wholesale.
+        return applyOne(text, keyPath.slice(0, depth + 1), buildNested(keyPath.slice(depth + 1), value), unit);
+      }
+      node = member.value;
+      continue;
+    }
+
+    if (member && isLast) {
+      if (value === null) return { text: removeMember(text, node, index), changed: keyPath.join("/") };
+      if (sameValue(evaluate(text, member.value), value)) return null;
+      const replacement = format(value, indentAt(text, member.keyStart), unit);
+      return { text: text.slice(0, member.value.start) + replacement + text.slice(member.value.end), changed: keyPath.join("/") };
+    }
+
+    // Missing key: insert the remaining path as a new member.
+    if (value === null) return null;
+    return { text: insertMember(text, node, key, buildNested(keyPath.slice(depth + 1), value), unit), changed: keyPath.join("/") };
+  }
+  return null;
+}
+
+function buildNested(rest: string[], value: unknown): unknown {
+  return rest.reduceRight<unknown>((acc, key) => ({ [key]: acc }), value);
+}
+
+function insertMember(text: string, object: ValueNode, key: string, value: unknown, unit: string): string {
+  const members = object.members ?? [];
+  const parentIndent = indentAt(text, object.start);
+  if (members.length === 0) {
+    const indent = parentIndent + unit;
+    const body = `\n${indent}${JSON.stringify(key)}: ${format(value, indent, unit)}\n${parentIndent}`;
+    return text.slice(0, object.start + 1) + body + text.slice(object.end - 1);
+  }
+
+  const last = members[members.length - 1];
+  if (!text.slice(object.start, object.end).includes("\n")) {
+    // Single-line object: stay on one line.
+    const entry = `${JSON.stringify(key)}: ${JSON.stringify(value)}`;
+    const at = last.commaEnd ?? last.value.end;
+    return `${text.slice(0, at)}${last.commaEnd === undefined ? "," : ""} ${entry}${text.slice(at)}`;
+  }
+  const indent = indentAt(text, last.keyStart);
+  const entry = `${JSON.stringify(key)}: ${format(value, indent, unit)}`;
+  if (last.commaEnd !== undefined) {
+    // Trailing comma already present: keep it and add the new member after any same-line comment.
+    const insertAt = endOfLineAfter(text, last.commaEnd);
+    return `${text.slice(0, insertAt)}\n${indent}${entry},${text.slice(insertAt)}`;
+  }
+  const insertAt = endOfLineAfter(text, last.value.end);
+  return `${text.slice(0, last.value.end)},${text.slice(last.value.end, insertAt)}\n${indent}${entry}${text.slice(insertAt)}`;
+}
+
+/** Offset of the end of the line containing `offset`, if only whitespace or a line comment follows; else `offset`. */
+function endOfLineAfter(text: string, offset: number): number {
+  const newline = text.indexOf("\n", offset);
+  const rest = text.slice(offset, newline === -1 ? text.length : newline);
+  if (/^\s*(\/\/.*)?$/.test(rest)) return offset + rest.replace(/\s+$/, "").length;
+  return offset;
+}
+
+function removeMember(text: string, object: ValueNode, index: number): string {
+  const members = object.members ?? [];
+  const member = members[index];
+  let start = member.keyStart;
+  let end = member.commaEnd ?? member.value.end;
+  // When the member sits on its own line, remove the whole line (with its trailing comment).
+  const ls = lineStart(text, member.keyStart);
+  const newline = text.indexOf("\n", end);
+  if (/^[ \t]*$/.test(text.slice(ls, start)) && newline !== -1 && /^[ \t]*(\/\/.*)?$/.test(text.slice(end, newline))) {
+    start = ls;
+    end = newline + 1;
+  }
+
+  const previous = members[index - 1];
+  if (index === members.length - 1 && member.commaEnd === undefined && previous?.commaEnd !== undefined) {
+    // Removing the last member: the previous member's comma would now dangle before `}`.
+    return text.slice(0, previous.commaEnd - 1) + text.slice(previous.commaEnd, start) + text.slice(end);
+  }
+  return text.slice(0, start) + text.slice(end);
+}
+
+function collectChanges(current: unknown, patch: Record<string, unknown>, prefix: string[], out: { path: string[]; value: unknown }[]) {
+  const base = isPlainObject(current) ? current : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (isPlainObject(value) && isPlainObject(base[key])) {
+      collectChanges(base[key], value, [...prefix, key], out);
+    } else {
+      out.push({ path: [...prefix, key], value: isPlainObject(value) ? stripNulls(value) : value });
+    }
+  }
+}
+
+function stripNulls(value: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (v === null) continue;
+    out[k] = isPlainObject(v) ? stripNulls(v) : v;
+  }
+  return out;
+}
+
+/**
+ * RFC 7386 JSON merge patch applied to JSONC text. `null` removes a key.
+ * Returns the new text and the key paths (nested keys joined with `/`) that actually changed.
+ */
+export function applyJsoncMergePatch(text: string, patch: Record<string, unknown>): { text: string; changedKeys: string[] } {
+  let source = text.trim() ? text : "{}\n";
+  const unit = /\n([ \t]+)"/.exec(source)?.[1] ?? "  ";
+  const changes: { path: string[]; value: unknown }[] = [];
+  collectChanges(parseJsonc(source), patch, [], changes);
+
+  const changedKeys: string[] = [];
+  for (const change of changes) {
+    const edit = applyOne(source, change.path, change.value, unit.startsWith("\t") ? "\t" : unit);
+    if (!edit) continue;
+    source = edit.text;
+    changedKeys.push(edit.changed);
+  }
+  return { text: changedKeys.length > 0 ? source : text, changedKeys };
+}
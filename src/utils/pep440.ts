@@ -0,0 +1,70 @@
+/**
+ * PEP 440 version specifiers as used by `requires-python`: comma-separated clauses with
+ * `==`, `!=`, `<=`, `>=`, `<`, `>`, `~=` and `===`, and `.*` prefix matches for `==` / `!=`.
+ * Only release segments are compared; pre/post/dev tags are ignored.
+ */
+
+type Release = number[];
+
+/** Release segments of `3.11.4`, `3.11` or `Python 3.11.4rc1`; null when there are none. */
+export function parseRelease(text: string): Release | null {
+  const match = /(\d+(?:\.\d+)*)/.exec(text);
+  return match ? match[1].split(".").map(Number) : null;
+}
+
+function compare(a: Release, b: Release): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i += 1) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/** Whether `version` starts with the segments of `prefix` (`3.11.4` matches `3.11`). */
+export function releaseHasPrefix(version: Release, prefix: Release): boolean {
+  return prefix.every((part, index) => version[index] === part);
+}
+
+function matchesClause(version: Release, clause: string): boolean | null {
+  const match = /^(===|==|!=|~=|<=|>=|<|>)\s*([0-9][0-9.]*?)(\.\*)?$/.exec(clause.trim());
+  if (!match) return null;
+  const [, op, text, wildcard] = match;
+  const bound = text.split(".").map(Number);
+  if (bound.some(Number.isNaN)) return null;
+  switch (op) {
+    case "==":
+    case "===":
+      return wildcard ? releaseHasPrefix(version, bound) : compare(version, bound) === 0;
+    case "!=":
+      return wildcard ? !releaseHasPrefix(version, bound) : compare(version, bound) !== 0;
+    case "~=":
+      // `~=3.11` means `>=3.11, ==3.*`; it needs at least two segments.
+      return bound.length >= 2 && compare(version, bound) >= 0 && releaseHasPrefix(version, bound.slice(0, -1));
+    case "<=":
+      return compare(version, bound) <= 0;
+    case ">=":
+      return compare(version, bound) >= 0;
+    case "<":
+      return compare(version, bound) < 0;
+    default:
+      return compare(version, bound) > 0;
+  }
+}
+
+/** Whether `version` satisfies every clause of `specifier`; null when the specifier does not parse. */
+export function satisfiesSpecifier(version: string, specifier: string): boolean | null {
+  const release = parseRelease(version);
+  const clauses = specifier.split(",").map((clause) => clause.trim()).filter(Boolean);
+  if (!release || clauses.length === 0) return null;
+  const results = clauses.map((clause) => matchesClause(release, clause));
+  return results.includes(null) ? null : results.every(Boolean);
+}
+
+/** The lowest release a specifier's `>=`, `~=` or `==` clauses allow (`>=3.10,<3.13` → `3.10`), or null. */
+export function lowestAllowed(specifier: string): string | null {
+  const bounds = specifier
+    .split(",")
+    .map((clause) => /^\s*(?:>=|~=|===?)\s*([0-9][0-9.]*?)(?:\.\*)?\s*$/.exec(clause)?.[1])
+    .filter((bound): bound is string => Boolean(bound));
+  return bounds.sort((a, b) => compare(b.split(".").map(Number), a.split(".").map(Number)))[0] ?? null;
+}
@@ -1,40 +1,208 @@
-import { execFile } from "node:child_process";
-import type { ExecFileException } from "node:child_process";
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import type { Command, StepCommand } from "../types.js";
 
 export interface CommandResult {
   success: boolean;
   code: number;
   stdout: string;
   stderr: string;
+  /** Set when the command was killed because `timeoutMs` elapsed. */
+  timedOut?: boolean;
+  /** Set when the command was killed because `signal` was aborted. */
+  interrupted?: boolean;
+}
+
+export interface RunOptions {
+  /** Called with each chunk of stdout (last stage) and stderr (all stages) as it arrives. */
+  onOutput?: (chunk: string) => void;
+  /** Kill the command (all stages) after this many milliseconds. 0 or undefined disables the limit. */
+  timeoutMs?: number;
+  /** Kill the command (all stages and their children) when aborted. */
+  signal?: AbortSignal;
+}
+
+/** Only the most recent output is kept in memory; full output goes to `onOutput` (e.g. a log file). */
+const MAX_OUTPUT_BYTES = 1024 * 1024 * 4;
+const KILL_GRACE_MS = 2000;
+
+/** Stages still running, so a forced quit can take their process groups down with it. */
+const running = new Set<ChildProcess>();
+
+class OutputTail {
+  private chunks: Buffer[] = [];
+  private bytes = 0;
+
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.bytes += chunk.length;
+    while (this.bytes > MAX_OUTPUT_BYTES && this.chunks.length > 1) {
+      this.bytes -= this.chunks.shift()!.length;
+    }
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString("utf8");
+  }
 }
 
 /**
- * Run a command safely through the system shell.
- * Uses execFile with explicit ["-c", command] to avoid direct shell string injection
- * while still supporting piped/chained commands that subsystems require.
+ * Signal a stage and every process it started. On POSIX each stage leads its own process group,
+ * so the whole group is signalled; on Windows `taskkill /T` walks the tree.
  */
-export function runShellCommand(command: string, cwd: string): Promise<CommandResult> {
-  const shell = process.platform === "win32" ? "cmd.exe" : "/bin/sh";
-  const shellArgs = process.platform === "win32" ? ["/c", command] : ["-c", command];
+function killTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) return;
+  if (process.platform === "win32") {
+    spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { stdio: "ignore" }).on("error", () => child.kill(signal));
+    return;
+  }
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    // The group is already gone.
+  }
+}
+
+/** cmd.exe metacharacters, escaped with `^` (the quotes around each argument included). */
+const CMD_META_RE = /([()\][%!^"`<>&|;, *?])/g;
 
+/** Quote one argument for the program's own parser, then escape it for cmd.exe. */
+function escapeCmdArgument(arg: string): string {
+  const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, "$1$1")}"`;
+  return quoted.replace(CMD_META_RE, "^$1");
+}
+
+/**
+ * The `.cmd` or `.bat` file Windows would run for `bin`, found through PATH and PATHEXT like cmd.exe does.
+ * Returns undefined for executables (and unknown names), which spawn can start directly.
+ */
+export function findWindowsShim(bin: string, env: NodeJS.ProcessEnv, exists: (file: string) => boolean = existsSync): string | undefined {
+  const extensions = (env.PATHEXT ?? ".COM;.EXE;.BAT;.CMD").split(";").filter(Boolean);
+  const given = path.win32.extname(bin);
+  const names = given ? [bin] : extensions.map((ext) => `${bin}${ext.toLowerCase()}`);
+  const dirs = /[\\/]/.test(bin) ? [""] : (env.Path ?? env.PATH ?? "").split(";").filter(Boolean);
+  for (const dir of dirs) {
+    for (const name of names) {
+      const file = dir ? path.win32.join(dir, name) : name;
+      if (exists(file)) return /\.(cmd|bat)$/i.test(file) ? file : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Argv for running a `.cmd`/`.bat` shim (npm, pnpm, yarn, npx) through `cmd.exe /d /s /c`. Node refuses to
+ * spawn these without a shell, so each argument is quoted and its metacharacters escaped; pass the result
+ * with `windowsVerbatimArguments` so Node adds no quoting of its own.
+ */
+export function windowsShimCommand(shim: string, args: string[], comspec = "cmd.exe"): { bin: string; args: string[] } {
+  const line = [shim.replace(CMD_META_RE, "^$1"), ...args.map(escapeCmdArgument)].join(" ");
+  return { bin: comspec, args: ["/d", "/s", "/c", `"${line}"`] };
+}
+
+/**
+ * Signal every command still running, each stage with its whole process group. Used on a forced quit,
+ * when `process.exit` would otherwise leave the detached groups behind as orphans.
+ */
+export function killRunningCommands(signal: NodeJS.Signals = "SIGKILL"): void {
+  for (const child of running) killTree(child, signal);
+}
+
+function exitCode(child: ChildProcess): Promise<number> {
   return new Promise((resolve) => {
-    execFile(shell, shellArgs, { cwd, maxBuffer: 1024 * 1024 * 4, encoding: "utf8" }, (error: ExecFileException | null, stdout: string, stderr: string) => {
-      if (error) {
-        resolve({
-          success: false,
-          code: typeof error.code === "number" ? error.code : 1,
-          stdout: stdout ?? "",
-          stderr: stderr ?? error.message,
-        });
-        return;
-      }
-      resolve({ success: true, code: 0, stdout: stdout ?? "", stderr: stderr ?? "" });
+    child.on("error", () => resolve(127));
+    child.on("close", (code) => resolve(code ?? 1));
+  });
+}
+
+/**
+ * Run a command or pipeline without a shell, streaming its output.
+ * Each stage is spawned with its argv as-is, so arguments are never re-interpreted;
+ * for a pipeline, each stage's stdout feeds the next stage's stdin and the last stage's
+ * exit code decides success (like `sh -c 'a | b'`).
+ */
+export async function runCommand(command: StepCommand, cwd: string, options: RunOptions = {}): Promise<CommandResult> {
+  const stages: Command[] = "pipe" in command ? command.pipe : [command];
+  if (options.signal?.aborted) return { success: false, code: 130, stdout: "", stderr: "", interrupted: true };
+  const stdout = new OutputTail();
+  const stderr = new OutputTail();
+  const spawnErrors: string[] = [];
+  const children: ChildProcess[] = [];
+
+  stages.forEach((stage, index) => {
+    const env = stage.env ? { ...process.env, ...stage.env } : process.env;
+    const shim = process.platform === "win32" ? findWindowsShim(stage.bin, env) : undefined;
+    const { bin, args } = shim ? windowsShimCommand(shim, stage.args, env.ComSpec ?? env.COMSPEC) : stage;
+    const child = spawn(bin, args, {
+      cwd: stage.cwd ? path.resolve(cwd, stage.cwd) : cwd,
+      env,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: false,
+      windowsVerbatimArguments: Boolean(shim),
+      // Own process group, so a timeout or Ctrl-C can take down everything the stage started.
+      detached: process.platform !== "win32",
+    });
+    running.add(child);
+    child.on("close", () => running.delete(child));
+    child.on("error", (error) => {
+      running.delete(child);
+      spawnErrors.push(`${stage.bin}: ${error.message}`);
     });
+    child.stdin?.on("error", () => {
+      // The stage exited before reading all of its input (e.g. `head`); nothing to report.
+    });
+
+    const previous = children[index - 1];
+    if (previous?.stdout && child.stdin) previous.stdout.pipe(child.stdin);
+    else if (stage.stdin !== undefined) child.stdin?.end(stage.stdin);
+    else child.stdin?.end();
+
+    child.stderr?.on("data", (chunk: Buffer) => {
+      stderr.push(chunk);
+      options.onOutput?.(chunk.toString("utf8"));
+    });
+    if (index === stages.length - 1) {
+      child.stdout?.on("data", (chunk: Buffer) => {
+        stdout.push(chunk);
+        options.onOutput?.(chunk.toString("utf8"));
+      });
+    }
+    children.push(child);
   });
+
+  let stopped: "timeout" | "interrupt" | null = null;
+  const timers: NodeJS.Timeout[] = [];
+  const stop = (reason: "timeout" | "interrupt") => {
+    if (stopped) return;
+    stopped = reason;
+    for (const child of children) killTree(child, "SIGTERM");
+    timers.push(setTimeout(() => {
+      for (const child of children) killTree(child, "SIGKILL");
+    }, KILL_GRACE_MS));
+  };
+  if (options.timeoutMs && options.timeoutMs > 0) timers.push(setTimeout(() => stop("timeout"), options.timeoutMs));
+  const onAbort = () => stop("interrupt");
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  const codes = await Promise.all(children.map(exitCode));
+  for (const timer of timers) clearTimeout(timer);
+  options.signal?.removeEventListener("abort", onAbort);
+  const code = stopped === "timeout" ? 124 : stopped === "interrupt" ? 130 : codes[codes.length - 1];
+  const errorText = spawnErrors.join("\n");
+  return {
+    success: code === 0,
+    code,
+    stdout: stdout.toString(),
+    stderr: stderr.toString() + (errorText ? `${errorText}\n` : ""),
+    timedOut: stopped === "timeout" || undefined,
+    interrupted: stopped === "interrupt" || undefined,
+  };
 }
 
 /**
- * Shell-quote a string value for safe interpolation into shell commands.
+ * Shell-quote a string value for display in copy-pasteable commands and hints.
  * Wraps in single quotes and escapes embedded single quotes.
  */
 export function shellQuote(value: string): string {
@@ -0,0 +1,145 @@
+/**
+ * Just enough of node-semver's range grammar for engine checks: `1.2.3`, `v18`, `18.x`, `*`, `^`, `~`,
+ * comparators (`>=18 <21`), hyphen ranges (`18 - 20`) and `||`. Prerelease tags are ignored.
+ */
+
+export type Version = [number, number, number];
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+interface Comparator {
+  op: Operator;
+  version: Version;
+}
+
+/** Parse `v20.11.1`, `20.11` or `20`; missing parts are 0. Returns null for anything else. */
+export function parseVersion(text: string): Version | null {
+  const match = /^\s*v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+][0-9A-Za-z.+-]*)?\s*$/.exec(text);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+export function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/** A partial version: `null` parts are wildcards (`18.x` → [18, null, null]). */
+type PartialVersion = [number | null, number | null, number | null];
+
+function parsePartialVersion(text: string): PartialVersion | null {
+  if (/^(\*|x|X)?$/.test(text)) return [null, null, null];
+  const match = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+][0-9A-Za-z.+-]*)?$/.exec(text);
+  if (!match) return null;
+  const part = (value: string | undefined) => (value === undefined || /^[xX*]$/.test(value) ? null : Number(value));
+  const parts: PartialVersion = [part(match[1]), part(match[2]), part(match[3])];
+  // Everything after a wildcard is a wildcard too (`1.x.3` means `1.x`).
+  const wild = parts.indexOf(null);
+  return wild === -1 ? parts : (parts.map((value, index) => (index >= wild ? null : value)) as PartialVersion);
+}
+
+function floor(p: PartialVersion): Version {
+  return [p[0] ?? 0, p[1] ?? 0, p[2] ?? 0];
+}
+
+/** The first version above every version matching `p` (`1.2.x` → 1.3.0). Null when `p` is `*`. */
+function ceiling(p: PartialVersion): Version | null {
+  if (p[0] === null) return null;
+  if (p[1] === null) return [p[0] + 1, 0, 0];
+  if (p[2] === null) return [p[0], p[1] + 1, 0];
+  return null;
+}
+
+function expand(op: string, p: PartialVersion): Comparator[] | null {
+  const low = floor(p);
+  const high = ceiling(p);
+  const exact = p[2] !== null;
+  switch (op) {
+    case "":
+    case "=":
+      if (exact) return [{ op: "=", version: low }];
+      return [{ op: ">=", version: low }, ...(high ? [{ op: "<" as const, version: high }] : [])];
+    case ">=":
+      return [{ op: ">=", version: low }];
+    case ">":
+      return exact || !high ? [{ op: ">", version: low }] : [{ op: ">=", version: high }];
+    case "<":
+      return [{ op: "<", version: low }];
+    case "<=":
+      return exact || !high ? [{ op: "<=", version: low }] : [{ op: "<", version: high }];
+    case "~": {
+      if (p[0] === null) return [{ op: ">=", version: low }];
+      const upper: Version = p[1] === null ? [p[0] + 1, 0, 0] : [p[0], p[1] + 1, 0];
+      return [{ op: ">=", version: low }, { op: "<", version: upper }];
+    }
+    case "^": {
+      if (p[0] === null) return [{ op: ">=", version: low }];
+      const upper: Version = p[0] > 0 || p[1] === null ? [p[0] + 1, 0, 0] : p[1] > 0 || p[2] === null ? [0, p[1] + 1, 0] : [0, 0, p[2] + 1];
+      return [{ op: ">=", version: low }, { op: "<", version: upper }];
+    }
+    default:
+      return null;
+  }
+}
+
+/** Parse one `||` alternative into comparators; null when it is not a valid range. */
+function parseComparatorSet(text: string): Comparator[] | null {
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text.trim());
+  if (hyphen) {
+    const from = parsePartialVersion(hyphen[1]);
+    const to = parsePartialVersion(hyphen[2]);
+    if (!from || !to) return null;
+    const top = ceiling(to);
+    const upper: Comparator[] = to[2] !== null ? [{ op: "<=", version: floor(to) }] : top ? [{ op: "<", version: top }] : [];
+    return [{ op: ">=", version: floor(from) }, ...upper];
+  }
+  // `>= 18` is the same as `>=18`.
+  const tokens = text.trim().replace(/(>=|<=|>|<|=|\^|~)\s+/g, "$1").split(/\s+/).filter(Boolean);
+  const out: Comparator[] = [];
+  for (const token of tokens) {
+    const match = /^(>=|<=|>|<|=|\^|~>?)?(.*)$/.exec(token);
+    const partial = match ? parsePartialVersion(match[2]) : null;
+    const expanded = partial ? expand((match?.[1] ?? "").replace("~>", "~"), partial) : null;
+    if (!expanded) return null;
+    out.push(...expanded);
+  }
+  return out;
+}
+
+/** Parse a range into `||` alternatives of comparators. Null when it is not a valid range. */
+function parseRange(range: string): Comparator[][] | null {
+  const sets = range.split("||").map(parseComparatorSet);
+  return sets.every((set): set is Comparator[] => set !== null) ? sets : null;
+}
+
+function matches(version: Version, { op, version: bound }: Comparator): boolean {
+  const cmp = compareVersions(version, bound);
+  return op === "=" ? cmp === 0 : op === "<" ? cmp < 0 : op === "<=" ? cmp <= 0 : op === ">" ? cmp > 0 : cmp >= 0;
+}
+
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/** Whether `version` satisfies `range`. False when either does not parse. */
+export function satisfies(version: string | Version, range: string): boolean {
+  const parsed = typeof version === "string" ? parseVersion(version) : version;
+  const sets = parseRange(range);
+  if (!parsed || !sets) return false;
+  return sets.some((set) => set.every((comparator) => matches(parsed, comparator)));
+}
+
+/** The lowest version that satisfies `range`, or null when none does or it does not parse. */
+export function minVersion(range: string): Version | null {
+  const sets = parseRange(range);
+  if (!sets) return null;
+  const candidates = sets.flatMap((set) => {
+    const lower = set.filter((c) => c.op === ">=" || c.op === ">" || c.op === "=");
+    const start: Version = lower.length === 0 ? [0, 0, 0] : lower.map((c): Version => (c.op === ">" ? [c.version[0], c.version[1], c.version[2] + 1] : c.version)).sort(compareVersions).pop() as Version;
+    return set.every((c) => matches(start, c)) ? [start] : [];
+  });
+  return candidates.sort(compareVersions)[0] ?? null;
+}
+
+export function formatVersion(version: Version): string {
+  return version.join(".");
+}
@@ -0,0 +1,147 @@
+import path from "node:path";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import { chmod, lstat, mkdir, readdir, readFile, utimes, writeFile } from "node:fs/promises";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+const BLOCK = 512;
+
+interface TarEntry {
+  name: string;
+  type: "file" | "dir";
+  mode: number;
+  mtime: Date;
+  content?: Buffer;
+}
+
+function writeString(buf: Buffer, value: string, offset: number, length: number): void {
+  buf.write(value.slice(0, length), offset, length, "utf8");
+}
+
+function writeOctal(buf: Buffer, value: number, offset: number, length: number): void {
+  writeString(buf, `${value.toString(8).padStart(length - 1, "0")}\0`, offset, length);
+}
+
+function header(name: string, type: string, mode: number, size: number, mtime: Date): Buffer {
+  const buf = Buffer.alloc(BLOCK);
+  writeString(buf, name, 0, 100);
+  writeOctal(buf, mode & 0o7777, 100, 8);
+  writeOctal(buf, 0, 108, 8);
+  writeOctal(buf, 0, 116, 8);
+  writeOctal(buf, size, 124, 12);
+  writeOctal(buf, Math.floor(mtime.getTime() / 1000), 136, 12);
+  buf.fill(" ", 148, 156);
+  writeString(buf, type, 156, 1);
+  writeString(buf, "ustar\0", 257, 6);
+  writeString(buf, "00", 263, 2);
+  let sum = 0;
+  for (const byte of buf) sum += byte;
+  writeString(buf, `${sum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+  return buf;
+}
+
+function pad(size: number): Buffer {
+  const rest = size % BLOCK;
+  return Buffer.alloc(rest === 0 ? 0 : BLOCK - rest);
+}
+
+/** Pax extended header carrying a path longer than the 100-byte ustar name field. */
+function paxPath(name: string): Buffer[] {
+  const body = (len: number) => `${len} path=${name}\n`;
+  let len = Buffer.byteLength(body(0));
+  while (Buffer.byteLength(body(len)) !== len) len = Buffer.byteLength(body(len));
+  const record = Buffer.from(body(len));
+  return [header("PaxHeader", "x", 0o644, record.length, new Date(0)), record, pad(record.length)];
+}
+
+async function collect(root: string, rel: string, out: TarEntry[]): Promise<void> {
+  for (const name of (await readdir(path.join(root, rel))).sort()) {
+    const childRel = rel ? `${rel}/${name}` : name;
+    const info = await lstat(path.join(root, childRel));
+    if (info.isDirectory()) {
+      out.push({ name: childRel, type: "dir", mode: info.mode, mtime: info.mtime });
+      await collect(root, childRel, out);
+    } else if (info.isFile()) {
+      out.push({ name: childRel, type: "file", mode: info.mode, mtime: info.mtime, content: await readFile(path.join(root, childRel)) });
+    }
+    // Symlinks and special files are not archived.
+  }
+}
+
+/** Pack the contents of `dir` into a gzip-compressed tar buffer (paths relative to `dir`). */
+export async function packDirectory(dir: string): Promise<Buffer> {
+  const entries: TarEntry[] = [];
+  await collect(dir, "", entries);
+  const chunks: Buffer[] = [];
+  for (const entry of entries) {
+    const name = entry.type === "dir" ? `${entry.name}/` : entry.name;
+    if (Buffer.byteLength(name) > 100) chunks.push(...paxPath(name));
+    const size = entry.content?.length ?? 0;
+    chunks.push(header(name, entry.type === "dir" ? "5" : "0", entry.mode, size, entry.mtime));
+    if (entry.content) chunks.push(entry.content, pad(size));
+  }
+  chunks.push(Buffer.alloc(BLOCK * 2));
+  return gzipAsync(Buffer.concat(chunks));
+}
+
+function readString(buf: Buffer, offset: number, length: number): string {
+  const raw = buf.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readOctal(buf: Buffer, offset: number, length: number): number {
+  return parseInt(readString(buf, offset, length).trim() || "0", 8);
+}
+
+/**
+ * Unpack an archive produced by `packDirectory` into `dest`.
+ * Entries that would land outside `dest` are rejected.
+ */
+export async function unpackDirectory(archive: Buffer, dest: string): Promise<void> {
+  const tar = await gunzipAsync(archive);
+  const root = path.resolve(dest);
+  await mkdir(root, { recursive: true });
+  const dirTimes: { target: string; mtime: Date }[] = [];
+  let nextName: string | null = null;
+  let offset = 0;
+
+  while (offset + BLOCK <= tar.length) {
+    const block = tar.subarray(offset, offset + BLOCK);
+    if (block.every((b) => b === 0)) break;
+    const size = readOctal(block, 124, 12);
+    const type = readString(block, 156, 1) || "0";
+    const body = tar.subarray(offset + BLOCK, offset + BLOCK + size);
+    offset += BLOCK + size + pad(size).length;
+
+    if (type === "x") {
+      const match = body.toString("utf8").match(/\d+ path=(.*)\n/);
+      nextName = match ? match[1] : null;
+      continue;
+    }
+
+    const name = nextName ?? readString(block, 0, 100);
+    nextName = null;
+    const target = path.resolve(root, name);
+    if (target !== root && !target.startsWith(root + path.sep)) {
+      throw new Error(`Archive entry escapes destination: ${name}`);
+    }
+    const mode = readOctal(block, 100, 8);
+    const mtime = new Date(readOctal(block, 136, 12) * 1000);
+
+    if (type === "5") {
+      await mkdir(target, { recursive: true });
+      await chmod(target, mode);
+      dirTimes.push({ target, mtime });
+    } else if (type === "0") {
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, body);
+      await chmod(target, mode);
+      await utimes(target, mtime, mtime);
+    }
+  }
+
+  // Directory mtimes change as their children are written, so set them last.
+  for (const { target, mtime } of dirTimes.reverse()) await utimes(target, mtime, mtime);
+}
@@ -396,7 +396,7 @@ describe("Node subsystem edge cases", () => {
         config.node.package_manager = "yarn";
         const steps = buildNodeSteps(detection, config, {});
         const installStep = steps.find(s => s.id === "node-install-deps");
-        assert.ok(installStep.commands[0].startsWith("yarn"), "Should use yarn");
+        assert.equal(installStep.commands[0].bin, "yarn", "Should use yarn");
     });
 
     test("Package manager pnpm in config produces pnpm commands", async () => {
@@ -408,7 +408,7 @@ describe("Node subsystem edge cases", () => {
         config.node.package_manager = "pnpm";
         const steps = buildNodeSteps(detection, config, {});
         const installStep = steps.find(s => s.id === "node-install-deps");
-        assert.ok(installStep.commands[0].startsWith("pnpm"), "Should use pnpm");
+        assert.equal(installStep.commands[0].bin, "pnpm", "Should use pnpm");
     });
 });
 
@@ -452,7 +452,7 @@ describe("Python subsystem edge cases", () => {
         const config = { python: { venv_path: ".venv", install: { prefer: "uv" }, tools: { format: [], lint: [], test: [] } } };
         const steps = buildPythonSteps(detection, config, {});
         const installStep = steps.find(s => s.id === "python-install-deps");
-        assert.ok(installStep.commands[0].includes("uv"));
+        assert.equal(installStep.commands[0].bin, "uv");
     });
 });
 
@@ -571,6 +571,31 @@ describe("Undo edge cases", () => {
         await rm(cwd, { recursive: true, force: true });
     });
 
+    test("Undo applies the earliest snapshot of a shared path last", async () => {
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const { captureSnapshot } = await import("../dist/core/snapshots.js");
+        const cwd = await createFixture({ "shared.txt": "original" });
+        const store = path.join(cwd, ".autofix", "snapshots", "blobs");
+        const step = (id, snapshot) => ({
+            id, title: id, subsystem: "node", phase: "node", rationale: "t", commands: [],
+            destructive: false, irreversible: false, undoable: true, snapshot, status: "success",
+        });
+        const first = await captureSnapshot(cwd, store, ["shared.txt"]);
+        await writeFile(path.join(cwd, "shared.txt"), "after first step");
+        const second = await captureSnapshot(cwd, store, ["shared.txt"]);
+        await writeFile(path.join(cwd, "shared.txt"), "after second step");
+        const reportPath = path.join(cwd, "report.json");
+        await writeFile(reportPath, JSON.stringify({
+            runId: "test", command: "run", timestamp: new Date().toISOString(),
+            steps: [step("first", first), step("second", second)],
+            summary: { total: 2, success: 2, failed: 0, proposed: 0, skipped: 0 },
+        }));
+        const result = await undoLatest(reportPath, cwd);
+        assert.deepEqual(result.entries.map((e) => e.stepId), ["second", "first"]);
+        assert.equal(await readFile(path.join(cwd, "shared.txt"), "utf8"), "original");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
     test("Multiple path traversal variants are all blocked", async () => {
         const { undoLatest } = await import("../dist/core/undo.js");
         const cwd = await createFixture({});
@@ -727,8 +752,8 @@ describe("Port cleanup edge cases", () => {
         const config = { ports: { default: [3000], extra: [] } };
         const steps = buildPortSteps({ killPorts: [4000, 5000] }, config);
         assert.equal(steps[0].commands.length, 2);
-        assert.ok(steps[0].commands[0].includes("4000"));
-        assert.ok(steps[0].commands[1].includes("5000"));
+        assert.deepEqual(steps[0].commands[0].pipe[0].args, ["-ti", ":4000"]);
+        assert.deepEqual(steps[0].commands[1].pipe[0].args, ["-ti", ":5000"]);
     });
 });
 
@@ -32,8 +32,8 @@ describe("SEC-001: Shell injection prevention", () => {
         };
         const steps = await buildEnvSteps(cwd, detection, {}, {});
         if (steps.length > 0) {
-            // Verify the command string does NOT contain the injection payload
-            const cmd = steps[0].commands[0];
+            // Verify the file action does NOT contain the injection payload
+            const cmd = JSON.stringify(steps[0].actions);
             assert.ok(!cmd.includes("touch /tmp/pwned"), "Injection payload should be sanitized out of command");
         }
         await rm(cwd, { recursive: true, force: true });
@@ -161,8 +161,8 @@ describe("SEC-001: Package manager injection prevention", () => {
         const installStep = steps.find((s) => s.id === "node-install-deps");
         assert.ok(installStep, "Install step should exist");
         // Should use npm ci (safe default) not the malicious value
-        assert.ok(installStep.commands[0].startsWith("npm"), "Should fall back to npm, not use injected value");
-        assert.ok(!installStep.commands[0].includes("evil"), "Injected value should NOT appear in command");
+        assert.equal(installStep.commands[0].bin, "npm", "Should fall back to npm, not use injected value");
+        assert.ok(!JSON.stringify(installStep.commands[0]).includes("evil"), "Injected value should NOT appear in command");
     });
 });
 
@@ -282,3 +282,26 @@ describe("REL-004: Config command injection prevention", () => {
         await rm(cwd, { recursive: true, force: true });
     });
 });
+
+describe("REL-004: Path-qualified config binaries", () => {
+    test("config commands must name an allowlisted tool, not a path to one", async () => {
+        const { parseConfigCommand } = await import("../dist/core/commands.js");
+        for (const cmd of ["./scripts/npm run build", "/tmp/x/pytest -q", "node_modules/.bin/ruff check ."]) {
+            const { command, reason } = parseConfigCommand(cmd);
+            assert.equal(command, null, `${cmd} should be rejected`);
+            assert.match(reason, /is a path/);
+        }
+        assert.deepEqual(parseConfigCommand("pytest -q").command, { bin: "pytest", args: ["-q"] });
+    });
+
+    test("a custom step with a path-qualified binary stays proposed", async () => {
+        const { buildCustomSteps } = await import("../dist/subsystems/custom.js");
+        const cwd = await createFixture({});
+        const config = { steps: [{ id: "fake-npm", commands: ["./scripts/npm install"] }] };
+        const [step] = await buildCustomSteps(cwd, config, { focus: "all" });
+        assert.equal(step.status, "proposed");
+        assert.deepEqual(step.commands, []);
+        assert.match(step.proposedReason, /'\.\/scripts\/npm' is a path/);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
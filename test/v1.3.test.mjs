@@ -0,0 +1,1589 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { mkdtemp, writeFile, mkdir, rm, chmod } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { spawnSync } from "node:child_process";
+
+const CLI = path.resolve("dist/cli.js");
+
+function run(args, opts = {}) {
+    return spawnSync("node", [CLI, ...args], { encoding: "utf8", ...opts });
+}
+
+async function createFixture(files) {
+    const dir = await mkdtemp(path.join(tmpdir(), "autofix-v13-"));
+    for (const [name, content] of Object.entries(files)) {
+        const fullPath = path.join(dir, name);
+        await mkdir(path.dirname(fullPath), { recursive: true });
+        await writeFile(fullPath, content);
+    }
+    return dir;
+}
+
+async function loadDefaults() {
+    const { defaultConfig } = await import("../dist/config/defaults.js");
+    return structuredClone(defaultConfig);
+}
+
+function defaultFlags(overrides = {}) {
+    return { dryRun: true, deep: false, approve: false, forceFresh: false, focus: "all", verbose: false, quiet: false, noColor: true, json: false, run: false, ...overrides };
+}
+
+describe("v1.3: Workspace-aware detection", () => {
+    test("discovers package.json workspaces, pnpm workspaces and nested pyproject members", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "root", workspaces: ["apps/*"] }),
+            "package-lock.json": "{}",
+            "apps/web/package.json": JSON.stringify({ name: "@acme/web", dependencies: { next: "14" } }),
+            "apps/docs/README.md": "no package here",
+            "services/api/pyproject.toml": '[project]\nname = "acme-api"\n',
+            "services/api/docker-compose.yml": "services: {}\n",
+        });
+        const det = await detectEnvironment(cwd, await loadDefaults());
+        const names = det.packages.map((p) => p.name);
+        assert.deepEqual(names, ["@acme/web", "acme-api"]);
+        const web = det.packages.find((p) => p.name === "@acme/web");
+        assert.equal(web.managedByRoot, true);
+        assert.equal(web.detection.node.hasNext, true);
+        const api = det.packages.find((p) => p.name === "acme-api");
+        assert.equal(api.source, "pyproject");
+        assert.equal(api.detection.docker.detected, true);
+        assert.ok(det.issues.some((i) => i.startsWith("acme-api: python virtual environment missing")));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("pnpm-workspace.yaml patterns honour exclusions", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "root" }),
+            "pnpm-workspace.yaml": "packages:\n  - 'packages/**'\n  - '!packages/legacy'\n",
+            "packages/ui/package.json": JSON.stringify({ name: "ui" }),
+            "packages/legacy/package.json": JSON.stringify({ name: "legacy" }),
+        });
+        const det = await detectEnvironment(cwd, await loadDefaults());
+        assert.deepEqual(det.packages.map((p) => p.name), ["ui"]);
+        assert.equal(det.packages[0].source, "pnpm-workspace");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("buildPlan scopes member steps and honours --package", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildPlan } = await import("../dist/core/planBuilder.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "root", workspaces: ["apps/*"] }),
+            "apps/web/package.json": JSON.stringify({ name: "@acme/web", scripts: { lint: "eslint ." } }),
+            "services/api/pyproject.toml": '[project]\nname = "acme-api"\n',
+        });
+        const config = await loadDefaults();
+        const det = await detectEnvironment(cwd, config);
+
+        const all = await buildPlan(cwd, det, config, defaultFlags());
+        const webLint = all.find((s) => s.id === "check-node-lint@acme-web");
+        assert.ok(webLint, "member lint check should be scoped with a package suffix");
+        assert.equal(webLint.cwd, "apps/web");
+        assert.equal(webLint.package, "@acme/web");
+        assert.ok(!all.some((s) => s.id === "node-install-deps@acme-web"), "root install covers workspace members");
+        assert.ok(all.some((s) => s.id === "python-create-venv@acme-api"));
+
+        const filtered = await buildPlan(cwd, det, config, defaultFlags({ package: "services/*" }));
+        assert.ok(filtered.length > 0);
+        assert.ok(filtered.every((s) => s.package === "acme-api"), "only the matching package should be planned");
+        assert.ok(!filtered.some((s) => s.id === "node-install-deps"), "the root install is only kept for root-managed members");
+
+        const web = await buildPlan(cwd, det, config, defaultFlags({ package: "@acme/web" }));
+        const rootInstall = web.find((s) => s.id === "node-install-deps");
+        assert.ok(rootInstall, "a root-managed member keeps the root install");
+        assert.equal(rootInstall.package, undefined);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Run history", () => {
+    test("history lists past runs newest first and report --run-id reads one", async () => {
+        const cwd = await createFixture({});
+        const reportDir = path.join(cwd, ".autofix", "reports");
+        const make = (runId, startedAt, failed) => ({
+            runId, command: "run", cwd, startedAt, flags: {}, steps: [], undo: [],
+            summary: { succeeded: 2, failed, skipped: 0, undoCoverage: "full", irreversibleStepIds: [], warnings: [], actions: [], detectedEnvironment: [], nextBestAction: "" },
+        });
+        await mkdir(reportDir, { recursive: true });
+        await writeFile(path.join(reportDir, "run-a.json"), JSON.stringify(make("run-a", "2026-01-01T00:00:00.000Z", 0)));
+        await writeFile(path.join(reportDir, "run-b.json"), JSON.stringify(make("run-b", "2026-02-01T00:00:00.000Z", 1)));
+        await writeFile(path.join(reportDir, "latest.json"), JSON.stringify(make("run-b", "2026-02-01T00:00:00.000Z", 1)));
+
+        const history = run(["history", "--json"], { cwd });
+        assert.equal(history.status, 0);
+        const entries = JSON.parse(history.stdout);
+        assert.deepEqual(entries.map((e) => e.runId), ["run-b", "run-a"]);
+        assert.equal(entries[0].failed, 1);
+
+        const report = run(["report", "--run-id", "run-a", "--json"], { cwd });
+        assert.equal(report.status, 0);
+        assert.equal(JSON.parse(report.stdout).runId, "run-a");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("--run-id rejects ids that escape the report directory", async () => {
+        const cwd = await createFixture({});
+        const r = run(["report", "--run-id", "../../etc/passwd"], { cwd });
+        assert.notEqual(r.status, 0);
+        assert.ok(r.stderr.includes("Invalid run id"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Retention and gc", () => {
+    async function seedRuns(cwd, runs) {
+        const reportDir = path.join(cwd, ".autofix", "reports");
+        const snapshotDir = path.join(cwd, ".autofix", "snapshots");
+        await mkdir(reportDir, { recursive: true });
+        for (const { runId, startedAt, undoable } of runs) {
+            const snap = path.join(snapshotDir, runId, "env-sync-append-missing", ".env");
+            await mkdir(path.dirname(snap), { recursive: true });
+            await writeFile(snap, "A=1\n");
+            const steps = undoable
+                ? [{ id: "env-sync-append-missing", undoable: true, status: "success", snapshotPaths: [snap] }]
+                : [{ id: "node-install-deps", undoable: false, status: "success" }];
+            await writeFile(path.join(reportDir, `${runId}.json`), JSON.stringify({ runId, command: "run", startedAt, steps, undo: [], summary: {} }));
+        }
+        return { reportDir, snapshotDir };
+    }
+
+    test("max_runs prunes old runs but keeps the latest undoable run's snapshots", async () => {
+        const { collectGarbage } = await import("../dist/core/gc.js");
+        const { fileExists } = await import("../dist/utils/fs.js");
+        const cwd = await createFixture({});
+        const { reportDir, snapshotDir } = await seedRuns(cwd, [
+            { runId: "run-1", startedAt: "2026-01-01T00:00:00.000Z", undoable: false },
+            { runId: "run-2", startedAt: "2026-01-02T00:00:00.000Z", undoable: true },
+            { runId: "run-3", startedAt: "2026-01-03T00:00:00.000Z", undoable: false },
+        ]);
+        const retention = { max_runs: 1, max_age_days: 0, max_total_bytes: 0 };
+
+        const preview = await collectGarbage(reportDir, snapshotDir, retention, { dryRun: true });
+        assert.deepEqual(preview.removed.map((c) => c.runId), ["run-1"]);
+        assert.equal(preview.protectedRunId, "run-2");
+        assert.ok(await fileExists(path.join(reportDir, "run-1.json")), "dry run must not delete anything");
+
+        const result = await collectGarbage(reportDir, snapshotDir, retention, { dryRun: false });
+        assert.deepEqual(result.keptRunIds, ["run-3", "run-2"]);
+        assert.ok(!(await fileExists(path.join(reportDir, "run-1.json"))));
+        assert.ok(!(await fileExists(path.join(snapshotDir, "run-1"))));
+        assert.ok(await fileExists(path.join(snapshotDir, "run-2")), "protected snapshots survive");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("max_age_days and max_total_bytes prune oldest runs first", async () => {
+        const { collectGarbage } = await import("../dist/core/gc.js");
+        const cwd = await createFixture({});
+        const { reportDir, snapshotDir } = await seedRuns(cwd, [
+            { runId: "old", startedAt: "2025-01-01T00:00:00.000Z", undoable: false },
+            { runId: "mid", startedAt: "2026-03-01T00:00:00.000Z", undoable: false },
+            { runId: "new", startedAt: "2026-03-02T00:00:00.000Z", undoable: false },
+        ]);
+        const now = Date.parse("2026-03-03T00:00:00.000Z");
+        const byAge = await collectGarbage(reportDir, snapshotDir, { max_runs: 0, max_age_days: 30, max_total_bytes: 0 }, { dryRun: true, now });
+        assert.deepEqual(byAge.removed.map((c) => c.runId), ["old"]);
+
+        const bySize = await collectGarbage(reportDir, snapshotDir, { max_runs: 0, max_age_days: 0, max_total_bytes: 1 }, { dryRun: true, now });
+        assert.deepEqual(bySize.removed.map((c) => c.runId), ["old", "mid", "new"]);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Transactional undo", () => {
+    async function seedUndoable(cwd) {
+        const { captureSnapshot } = await import("../dist/core/snapshots.js");
+        const { hashFile } = await import("../dist/utils/fs.js");
+        const store = path.join(cwd, ".autofix", "snapshots");
+        await writeFile(path.join(cwd, ".env"), "A=1\n");
+        const snapshot = await captureSnapshot(cwd, store, [".env"]);
+        await writeFile(path.join(cwd, ".env"), "A=1\nB=\n");
+        const afterFix = await hashFile(path.join(cwd, ".env"));
+        const reportPath = path.join(cwd, "run-1.json");
+        await writeFile(reportPath, JSON.stringify({
+            runId: "run-1", command: "run", startedAt: new Date().toISOString(), summary: {}, undo: [],
+            steps: [{
+                id: "env-sync-append-missing", title: "Append", subsystem: "environment", phase: "environment", rationale: "t",
+                commands: [], destructive: false, irreversible: false, undoable: true, status: "success",
+                snapshotPaths: [".env"], snapshot, resultHashes: { ".env": afterFix },
+            }],
+        }));
+        return { reportPath, store };
+    }
+
+    test("undo --dry-run previews a diff without writing", async () => {
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({});
+        const { reportPath } = await seedUndoable(cwd);
+        const { entries } = await undoLatest(reportPath, cwd, { dryRun: true });
+        assert.deepEqual(entries[0].restored, []);
+        assert.ok(entries[0].preview.includes("  - B="), "preview should show the line undo removes");
+        assert.equal(await readFile(path.join(cwd, ".env"), "utf8"), "A=1\nB=\n");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("undo --dry-run --json prints only the JSON entries", async () => {
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({});
+        const { reportPath } = await seedUndoable(cwd);
+        await mkdir(path.join(cwd, ".autofix", "reports"), { recursive: true });
+        await writeFile(path.join(cwd, ".autofix", "reports", "latest.json"), await readFile(reportPath, "utf8"));
+        const result = run(["undo", "--dry-run", "--json", "--no-color"], { cwd });
+        assert.equal(result.status, 0, result.stderr);
+        const entries = JSON.parse(result.stdout);
+        assert.equal(entries[0].stepId, "env-sync-append-missing");
+        assert.ok(entries[0].preview.includes("  - B="));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("undo snapshots edited targets first and flags them as modified", async () => {
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const { blobPath } = await import("../dist/core/snapshots.js");
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({});
+        const { reportPath, store } = await seedUndoable(cwd);
+        await writeFile(path.join(cwd, ".env"), "A=1\nB=mine\n");
+
+        const { entries } = await undoLatest(reportPath, cwd, { preUndoStore: store });
+        assert.equal(entries[0].restored.length, 1);
+        assert.deepEqual(entries[0].modifiedSinceRun, [path.join(cwd, ".env")]);
+        const [saved] = entries[0].preUndoSnapshot.entries;
+        assert.equal(saved.path, ".env");
+        assert.equal(await readFile(blobPath(store, saved.sha256), "utf8"), "A=1\nB=mine\n", "user edits are kept for redo");
+        assert.equal(await readFile(path.join(cwd, ".env"), "utf8"), "A=1\n");
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Content-addressed snapshots", () => {
+    test("manifest keeps paths with underscores and dedupes identical content", async () => {
+        const { captureSnapshot } = await import("../dist/core/snapshots.js");
+        const cwd = await createFixture({
+            "docker_compose.override.yml": "same\n",
+            ".env_local": "same\n",
+            "config/app_settings.json": "{}\n",
+        });
+        const store = path.join(cwd, ".autofix", "snapshots");
+        const manifest = await captureSnapshot(cwd, store, ["docker_compose.override.yml", ".env_local", "config", "missing.txt"]);
+        assert.deepEqual(manifest.entries.map((e) => e.path), ["docker_compose.override.yml", ".env_local", "config/app_settings.json"]);
+        assert.equal(manifest.entries[0].sha256, manifest.entries[1].sha256, "identical content shares one blob");
+        assert.equal(manifest.entries[0].size, 5);
+        assert.ok(typeof manifest.entries[0].mode === "number" && manifest.entries[0].mtime);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("undo restores underscore paths from the manifest and refuses corrupted blobs", async () => {
+        const { captureSnapshot, blobPath } = await import("../dist/core/snapshots.js");
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({ ".env_local": "KEEP=1\n", "docker_compose.override.yml": "a: 1\n" });
+        const store = path.join(cwd, ".autofix", "snapshots");
+        const snapshot = await captureSnapshot(cwd, store, [".env_local", "docker_compose.override.yml"]);
+        await writeFile(path.join(cwd, ".env_local"), "CHANGED=1\n");
+        await writeFile(path.join(cwd, "docker_compose.override.yml"), "a: 2\n");
+        await writeFile(blobPath(store, snapshot.entries[1].sha256), "tampered\n");
+
+        const reportPath = path.join(cwd, "report.json");
+        await writeFile(reportPath, JSON.stringify({
+            runId: "r", command: "run", startedAt: new Date().toISOString(), summary: {}, undo: [],
+            steps: [{ id: "s", title: "t", subsystem: "environment", phase: "environment", rationale: "t", commands: [],
+                destructive: false, irreversible: false, undoable: true, status: "success", snapshotPaths: [".env_local"], snapshot }],
+        }));
+        const { entries } = await undoLatest(reportPath, cwd);
+        assert.deepEqual(entries[0].restored, [path.join(cwd, ".env_local")]);
+        assert.equal(await readFile(path.join(cwd, ".env_local"), "utf8"), "KEEP=1\n");
+        assert.equal(entries[0].failed.length, 1);
+        assert.ok(entries[0].failed[0].includes("sha256"));
+        assert.equal(await readFile(path.join(cwd, "docker_compose.override.yml"), "utf8"), "a: 2\n", "corrupt blob must not be written");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("manifest entries that escape the project root are blocked", async () => {
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const cwd = await createFixture({});
+        const reportPath = path.join(cwd, "report.json");
+        const entry = { path: "../../tmp/evil", sha256: "0".repeat(64), size: 1, mode: 420, mtime: new Date().toISOString() };
+        await writeFile(reportPath, JSON.stringify({
+            runId: "r", command: "run", startedAt: new Date().toISOString(), summary: {}, undo: [],
+            steps: [{ id: "s", title: "t", subsystem: "node", phase: "node", rationale: "t", commands: [],
+                destructive: false, irreversible: false, undoable: true, status: "success",
+                snapshotPaths: [entry.path], snapshot: { store: path.join(cwd, "store"), entries: [entry] } }],
+        }));
+        const { entries } = await undoLatest(reportPath, cwd);
+        assert.ok(entries[0].failed[0].includes("blocked"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Snapshot size policy and directory archives", () => {
+    test("packDirectory/unpackDirectory round-trip nested files and long paths", async () => {
+        const { packDirectory, unpackDirectory } = await import("../dist/utils/tar.js");
+        const { readFile } = await import("node:fs/promises");
+        const longName = `${"deep/".repeat(25)}file.txt`;
+        const cwd = await createFixture({ "src/a.txt": "A\n", [`src/${longName}`]: "long\n" });
+        const archive = await packDirectory(path.join(cwd, "src"));
+        await unpackDirectory(archive, path.join(cwd, "out"));
+        assert.equal(await readFile(path.join(cwd, "out", "a.txt"), "utf8"), "A\n");
+        assert.equal(await readFile(path.join(cwd, "out", longName), "utf8"), "long\n");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("directory snapshots are archived and undo restores the whole directory", async () => {
+        const { captureSnapshot } = await import("../dist/core/snapshots.js");
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const { readFile } = await import("node:fs/promises");
+        const { existsSync } = await import("node:fs");
+        const cwd = await createFixture({ ".next/cache/a.json": "{\"a\":1}\n", ".next/BUILD_ID": "abc\n" });
+        const store = path.join(cwd, ".autofix", "snapshots");
+        const snapshot = await captureSnapshot(cwd, store, [".next"], { archiveDirectories: true });
+        assert.equal(snapshot.entries.length, 1);
+        assert.equal(snapshot.entries[0].kind, "archive");
+        assert.ok(snapshot.entries[0].unpackedSize >= 12);
+
+        await rm(path.join(cwd, ".next"), { recursive: true, force: true });
+        const reportPath = path.join(cwd, "report.json");
+        await writeFile(reportPath, JSON.stringify({
+            runId: "r", command: "run", startedAt: new Date().toISOString(), summary: {}, undo: [],
+            steps: [{ id: "node-clean-next-cache", title: "t", subsystem: "node", phase: "node", rationale: "t", commands: [],
+                destructive: false, irreversible: false, undoable: true, status: "success", snapshotPaths: [".next"], snapshot }],
+        }));
+        const preview = await undoLatest(reportPath, cwd, { dryRun: true });
+        assert.ok(preview.entries[0].preview.some((line) => line.includes("archive")));
+        assert.equal(existsSync(path.join(cwd, ".next")), false, "dry-run must not restore");
+
+        const { entries } = await undoLatest(reportPath, cwd);
+        assert.deepEqual(entries[0].restored, [path.join(cwd, ".next")]);
+        assert.equal(await readFile(path.join(cwd, ".next", "cache", "a.json"), "utf8"), "{\"a\":1}\n");
+        assert.equal(await readFile(path.join(cwd, ".next", "BUILD_ID"), "utf8"), "abc\n");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("snapshots over max_bytes are skipped and the step reports the measured size", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const cwd = await createFixture({ ".next/big.bin": "x".repeat(4096) });
+        const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false }), interactive: false };
+        const step = { id: "node-clean-next-cache", title: "t", subsystem: "node", phase: "node", rationale: "t",
+            commands: [{ bin: "node", args: ["-e", ""] }], destructive: false, irreversible: false, undoable: true, snapshotPaths: [".next"], status: "planned" };
+        const [result] = await executeSteps(ctx, [step], path.join(cwd, "store"), undefined, { snapshotPolicy: { max_bytes: 1024, archive_directories: true } });
+        assert.equal(result.status, "success");
+        assert.equal(result.undoable, false);
+        assert.equal(result.irreversible, true);
+        assert.match(result.irreversibleReason, /\.next is 4\.0 KB, over the 1\.0 KB snapshot limit/);
+        assert.equal(result.snapshot, undefined);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("node cache cleanups are undoable with the cache dir as snapshot path", async () => {
+        const { buildNodeSteps } = await import("../dist/subsystems/node.js");
+        const config = await loadDefaults();
+        config.node.caches.directories = [".turbo"];
+        const detection = { node: { detected: true, packageManager: "npm", hasNext: true, hasVite: false, lockfiles: ["package-lock.json"] }, issues: [] };
+        const steps = buildNodeSteps(detection, config, defaultFlags());
+        const next = steps.find((s) => s.id === "node-clean-next-cache");
+        const turbo = steps.find((s) => s.id === "node-clean-cache--turbo");
+        assert.equal(next.undoable, true);
+        assert.deepEqual(next.snapshotPaths, [".next"]);
+        assert.equal(turbo.undoable, true);
+        assert.deepEqual(turbo.snapshotPaths, [".turbo"]);
+    });
+});
+
+describe("v1.3: argv command model", () => {
+    test("runCommand passes arguments verbatim without a shell", async () => {
+        const { runCommand } = await import("../dist/utils/process.js");
+        const cwd = await createFixture({});
+        const result = await runCommand({ bin: "node", args: ["-e", "console.log(process.argv[1])", "$(whoami); echo pwned"] }, cwd);
+        assert.equal(result.success, true);
+        assert.equal(result.stdout.trim(), "$(whoami); echo pwned");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("pipelines feed stdout into the next stage and stdin is written", async () => {
+        const { runCommand } = await import("../dist/utils/process.js");
+        const cwd = await createFixture({});
+        const upper = { bin: "node", args: ["-e", "process.stdin.on('data', (d) => process.stdout.write(String(d).toUpperCase()))"] };
+        const result = await runCommand({ pipe: [{ bin: "node", args: ["-e", "process.stdin.pipe(process.stdout)"], stdin: "a=1\n" }, upper] }, cwd);
+        assert.equal(result.success, true);
+        assert.equal(result.stdout, "A=1\n");
+
+        const missing = await runCommand({ bin: "autofix-no-such-binary", args: [] }, cwd);
+        assert.equal(missing.success, false);
+        assert.equal(missing.code, 127);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("Windows .cmd shims are found through PATHEXT and run through cmd.exe with escaped arguments", async () => {
+        const { findWindowsShim, windowsShimCommand } = await import("../dist/utils/process.js");
+        const files = new Set(["C:\\nodejs\\npm.cmd", "C:\\nodejs\\node.exe"]);
+        const env = { Path: "C:\\tools;C:\\nodejs", PATHEXT: ".COM;.EXE;.BAT;.CMD" };
+        const exists = (file) => files.has(file);
+        assert.equal(findWindowsShim("npm", env, exists), "C:\\nodejs\\npm.cmd");
+        assert.equal(findWindowsShim("node", env, exists), undefined);
+        assert.equal(findWindowsShim("pnpm", env, exists), undefined);
+
+        const { bin, args } = windowsShimCommand("C:\\nodejs\\npm.cmd", ["run", "a b", "x&y", 'say "hi"', "trail\\"]);
+        assert.equal(bin, "cmd.exe");
+        assert.deepEqual(args, [
+            "/d", "/s", "/c",
+            '"C:\\nodejs\\npm.cmd ^"run^" ^"a^ b^" ^"x^&y^" ^"say^ \\^"hi\\^"^" ^"trail\\\\^""',
+        ]);
+    });
+
+    test("executor blocks binaries outside the allowlist, including xargs targets", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const cwd = await createFixture({});
+        const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false }), interactive: false };
+        const base = { title: "t", subsystem: "meta", phase: "ports", rationale: "t", destructive: false, irreversible: false, undoable: false, status: "planned" };
+        const [touch, xargs] = await executeSteps(ctx, [
+            { ...base, id: "a", commands: [{ bin: "touch", args: ["marker"] }] },
+            { ...base, id: "b", commands: [{ pipe: [{ bin: "node", args: ["-e", ""] }, { bin: "xargs", args: ["-0", "touch"] }] }] },
+        ], path.join(cwd, "store"));
+        assert.equal(touch.status, "failed");
+        assert.match(touch.error, /'touch' is not on the command allowlist/);
+        assert.equal(xargs.status, "failed");
+        const { existsSync } = await import("node:fs");
+        assert.equal(existsSync(path.join(cwd, "marker")), false);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("formatCommand renders argv and pipelines for display", async () => {
+        const { formatCommand, parseConfigCommand } = await import("../dist/core/commands.js");
+        assert.equal(formatCommand({ bin: "cp", args: ["/a b/.env.example", ".env"] }), "cp '/a b/.env.example' .env");
+        assert.equal(formatCommand({ pipe: [{ bin: "lsof", args: ["-ti", ":3000"] }, { bin: "xargs", args: ["kill", "-9"] }] }), "lsof -ti :3000 | xargs kill -9");
+        assert.deepEqual(parseConfigCommand("ruff check .").command, { bin: "ruff", args: ["check", "."] });
+        assert.equal(parseConfigCommand("rm -rf .").command, null);
+    });
+});
+
+describe("v1.3: In-process file actions", () => {
+    test("JSONC merge patch preserves comments and reports changed keys", async () => {
+        const { applyJsoncMergePatch } = await import("../dist/utils/jsonc.js");
+        const source = '{\n  // editor\n  "editor.tabSize": 4, // four\n  "old": true,\n  "nested": { "a": 1 },\n}\n';
+        const { text, changedKeys } = applyJsoncMergePatch(source, { "python.defaultInterpreterPath": ".venv", old: null, nested: { b: 2 }, "editor.tabSize": 4 });
+        assert.deepEqual(changedKeys, ["python.defaultInterpreterPath", "old", "nested/b"]);
+        assert.ok(text.includes("// editor") && text.includes("// four"));
+        assert.ok(!text.includes("\"old\""));
+        assert.ok(text.includes('"nested": { "a": 1, "b": 2 }'));
+        assert.ok(text.includes('"python.defaultInterpreterPath": ".venv"'));
+    });
+
+    test("malformed JSON reports a line and column instead of being overwritten", async () => {
+        const { runFileAction } = await import("../dist/core/fileActions.js");
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({ ".vscode/settings.json": "{\n  \"a\": 1\n  \"b\": 2\n}\n" });
+        await assert.rejects(
+            runFileAction(cwd, { kind: "json-merge", path: ".vscode/settings.json", patch: { c: 3 } }),
+            /settings\.json: Expected ',' or '}' at line 3, column 3/,
+        );
+        assert.equal(await readFile(path.join(cwd, ".vscode/settings.json"), "utf8"), "{\n  \"a\": 1\n  \"b\": 2\n}\n");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("append-keys adds only missing keys and refuses paths outside the root", async () => {
+        const { runFileAction } = await import("../dist/core/fileActions.js");
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({ ".env": "A=1" });
+        const change = await runFileAction(cwd, { kind: "append-keys", path: ".env", keys: ["A", "B", "C"] });
+        assert.deepEqual(change.keys, ["B", "C"]);
+        assert.equal(await readFile(path.join(cwd, ".env"), "utf8"), "A=1\nB=\nC=\n");
+        await assert.rejects(runFileAction(cwd, { kind: "delete", path: "../outside" }), /escapes the project root/);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("executor snapshots action targets so undo removes a copied .env", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const { buildEnvSteps } = await import("../dist/subsystems/environment.js");
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const { existsSync } = await import("node:fs");
+        const cwd = await createFixture({ ".env.example": "A=1\n" });
+        const detection = { environment: { hasEnv: false, hasEnvExample: true } };
+        const steps = await buildEnvSteps(cwd, detection, {}, {});
+        assert.deepEqual(steps[0].commands, []);
+        const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false }), interactive: false };
+        const [result] = await executeSteps(ctx, steps, path.join(cwd, "store"));
+        assert.equal(result.status, "success");
+        assert.equal(result.fileChanges[0].changed, true);
+        assert.equal(result.snapshot.entries[0].kind, "absent");
+        assert.equal(existsSync(path.join(cwd, ".env")), true);
+
+        const reportPath = path.join(cwd, "report.json");
+        await writeFile(reportPath, JSON.stringify({ runId: "r", command: "run", startedAt: new Date().toISOString(), summary: {}, undo: [], steps: [result] }));
+        const { entries } = await undoLatest(reportPath, cwd);
+        assert.deepEqual(entries[0].restored, [path.join(cwd, ".env")]);
+        assert.equal(existsSync(path.join(cwd, ".env")), false);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Streaming output, step logs and timeouts", () => {
+    test("runCommand streams chunks and kills commands that exceed timeoutMs", async () => {
+        const { runCommand } = await import("../dist/utils/process.js");
+        const cwd = await createFixture({});
+        const chunks = [];
+        const ok = await runCommand({ bin: "node", args: ["-e", "console.log('one'); console.error('two')"] }, cwd, { onOutput: (c) => chunks.push(c) });
+        assert.equal(ok.success, true);
+        assert.ok(chunks.join("").includes("one") && chunks.join("").includes("two"));
+
+        const slow = await runCommand({ bin: "node", args: ["-e", "setTimeout(() => {}, 10000)"] }, cwd, { timeoutMs: 200 });
+        assert.equal(slow.success, false);
+        assert.equal(slow.timedOut, true);
+        assert.equal(slow.code, 124);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("executor writes a per-step log and fails steps that hit their timeout", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({});
+        const ctx = { command: "run", cwd, runId: "run-1", flags: defaultFlags({ dryRun: false }), interactive: false };
+        const base = { title: "t", subsystem: "meta", phase: "checks", rationale: "t", destructive: false, irreversible: false, undoable: false, status: "planned" };
+        const timeouts = { default_seconds: 1, subsystems: {}, steps: { fast: 30 } };
+        const [fast, slow] = await executeSteps(ctx, [
+            { ...base, id: "fast", commands: [{ bin: "node", args: ["-e", "console.log('hello log')"] }] },
+            { ...base, id: "slow", commands: [{ bin: "node", args: ["-e", "setTimeout(() => {}, 10000)"] }] },
+        ], path.join(cwd, "store"), undefined, { logDir: path.join(cwd, "logs"), timeouts });
+        assert.equal(fast.status, "success");
+        assert.equal(fast.logPath, "logs/run-1/fast.log");
+        assert.match(await readFile(path.join(cwd, fast.logPath), "utf8"), /\$ node -e .*\nhello log\n/);
+        assert.equal(slow.status, "failed");
+        assert.equal(slow.error, "Timed out after 1s (timeouts.default_seconds)");
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Interrupted runs and resume", () => {
+    test("aborting runCommand kills the whole process tree", async () => {
+        const { runCommand } = await import("../dist/utils/process.js");
+        const cwd = await createFixture({});
+        // The grandchild shares the stage's stdout, so the command only settles once it is gone too.
+        const grandchild = "require('node:child_process').spawn(process.execPath, ['-e', 'setTimeout(() => {}, 30000)'], { stdio: 'inherit' }); setTimeout(() => {}, 30000)";
+        const controller = new AbortController();
+        setTimeout(() => controller.abort("SIGINT"), 500);
+        const started = Date.now();
+        const result = await runCommand({ bin: "node", args: ["-e", grandchild] }, cwd, { signal: controller.signal });
+        assert.equal(result.interrupted, true);
+        assert.equal(result.code, 130);
+        assert.ok(Date.now() - started < 10000);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("interrupted step is partial, later steps are skipped and resume runs only those", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const { resumeAutoFix } = await import("../dist/core/run.js");
+        const cwd = await createFixture({});
+        const controller = new AbortController();
+        const ctx = { command: "run", cwd, runId: "run-1", flags: defaultFlags({ dryRun: false }), interactive: false, signal: controller.signal };
+        const base = { title: "t", subsystem: "meta", phase: "checks", rationale: "t", destructive: false, irreversible: false, undoable: false, status: "planned" };
+        const steps = [
+            { ...base, id: "done", commands: [{ bin: "node", args: ["-e", ""] }] },
+            { ...base, id: "slow", commands: [{ bin: "node", args: ["-e", "setTimeout(() => {}, 30000)"] }] },
+            { ...base, id: "next", commands: [{ bin: "node", args: ["-e", "require('fs').writeFileSync('next-ran', '')"] }] },
+        ];
+        setTimeout(() => controller.abort("SIGINT"), 800);
+        const executed = await executeSteps(ctx, steps, path.join(cwd, "store"));
+        assert.deepEqual(executed.map((s) => s.status), ["success", "partial", "skipped"]);
+        assert.equal(executed[1].error, "Interrupted by SIGINT");
+
+        const source = {
+            runId: "run-1", command: "run", cwd, startedAt: new Date().toISOString(), flags: ctx.flags,
+            detection: { node: {}, python: {}, docker: {}, issues: [] }, steps: executed, summary: {}, undo: [],
+            interrupted: { signal: "SIGINT", stepId: "slow", remainingStepIds: ["slow", "next"] },
+        };
+        source.steps[1].commands = [{ bin: "node", args: ["-e", ""] }];
+        const config = await loadDefaults();
+        const { report } = await resumeAutoFix({ ...ctx, runId: "run-2", signal: undefined }, config, path.join(cwd, "reports"), source);
+        assert.equal(report.command, "resume");
+        assert.equal(report.resumeOf, "run-1");
+        assert.equal(report.interrupted, undefined);
+        assert.deepEqual(report.steps.map((s) => [s.id, s.status]), [["slow", "success"], ["next", "success"]]);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Forced quit", () => {
+    test("a second Ctrl-C kills running command groups and saves the partial report", async () => {
+        const { spawn } = await import("node:child_process");
+        const { readFile } = await import("node:fs/promises");
+        const { existsSync } = await import("node:fs");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ scripts: { hang: "node hang.js" } }),
+            // Ignores the SIGTERM sent on the first Ctrl-C, so only the forced quit can stop it.
+            "hang.js": "process.on('SIGTERM', () => {}); require('fs').writeFileSync('hang.pid', String(process.pid)); setInterval(() => {}, 1000);",
+            ".autofix.yml": "steps:\n  - id: hang\n    commands: [\"npm run hang\"]\n  - id: after\n    commands: [\"npm --version\"]\n",
+        });
+        const child = spawn("node", [CLI, "run", "--focus", "python", "--no-color"], { cwd, stdio: "ignore" });
+        const exited = new Promise((resolve) => child.on("exit", (code) => resolve(code)));
+        const pidFile = path.join(cwd, "hang.pid");
+        for (let i = 0; i < 200 && !existsSync(pidFile); i++) await new Promise((resolve) => setTimeout(resolve, 100));
+        const pid = Number(await readFile(pidFile, "utf8"));
+        child.kill("SIGINT");
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        child.kill("SIGINT");
+        assert.equal(await exited, 130);
+
+        const alive = () => {
+            try {
+                process.kill(pid, 0);
+                return true;
+            } catch {
+                return false;
+            }
+        };
+        for (let i = 0; i < 50 && alive(); i++) await new Promise((resolve) => setTimeout(resolve, 100));
+        assert.equal(alive(), false);
+        const report = JSON.parse(await readFile(path.join(cwd, ".autofix/reports/latest.json"), "utf8"));
+        assert.deepEqual(report.steps.map((s) => [s.id, s.status]), [["custom-hang", "partial"], ["custom-after", "skipped"]]);
+        assert.deepEqual(report.interrupted, { signal: "SIGINT", stepId: "custom-hang", remainingStepIds: ["custom-hang", "custom-after"] });
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Step dependency graph and parallel execution", () => {
+    const base = { title: "t", subsystem: "meta", phase: "checks", rationale: "t", destructive: false, irreversible: false, undoable: false, status: "planned" };
+
+    test("providers of a resource are serialized and dependents wait for every provider", async () => {
+        const { buildDependencyGraph } = await import("../dist/core/graph.js");
+        const graph = buildDependencyGraph([
+            { ...base, id: "install", provides: ["node"] },
+            { ...base, id: "venv", provides: ["python"] },
+            { ...base, id: "cache", provides: ["node"] },
+            { ...base, id: "lint", dependsOn: ["node", "missing"] },
+            { ...base, id: "report", dependsOn: ["venv"] },
+        ]);
+        assert.deepEqual(graph, [[], [], [0], [0, 2], [1]]);
+        assert.throws(
+            () => buildDependencyGraph([{ ...base, id: "a", dependsOn: ["b"] }, { ...base, id: "b", dependsOn: ["a"] }]),
+            /Step dependency cycle: a -> b -> a/,
+        );
+    });
+
+    test("plan links checks to their ecosystem and keeps Node and Python independent", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildPlan } = await import("../dist/core/planBuilder.js");
+        const { buildDependencyGraph } = await import("../dist/core/graph.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "x", scripts: { lint: "eslint ." } }),
+            "package-lock.json": "{}",
+            "pyproject.toml": "[project]\nname = \"x\"\n",
+        });
+        const config = await loadDefaults();
+        const steps = await buildPlan(cwd, await detectEnvironment(cwd, config), config, defaultFlags({ checks: ["lint"] }));
+        const graph = buildDependencyGraph(steps);
+        const ids = (index) => graph[index].map((i) => steps[i].id);
+        const venv = steps.findIndex((s) => s.id === "python-create-venv");
+        assert.ok(!ids(venv).some((id) => id.startsWith("node-")));
+        const lint = steps.findIndex((s) => s.id === "check-node-lint");
+        assert.ok(ids(lint).includes("node-install-deps"));
+        assert.ok(!ids(lint).some((id) => id.startsWith("python-")));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("custom checks-phase steps wait for the Node install", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildPlan } = await import("../dist/core/planBuilder.js");
+        const { buildDependencyGraph } = await import("../dist/core/graph.js");
+        const cwd = await createFixture({ "package.json": JSON.stringify({ name: "x" }), "package-lock.json": "{}" });
+        const config = { ...(await loadDefaults()), steps: [{ id: "prisma", commands: ["npx prisma generate"] }] };
+        const steps = await buildPlan(cwd, await detectEnvironment(cwd, config), config, defaultFlags());
+        const prisma = steps.findIndex((s) => s.id === "custom-prisma");
+        assert.ok(steps[prisma].dependsOn.includes("node"));
+        assert.ok(buildDependencyGraph(steps)[prisma].map((i) => steps[i].id).includes("node-install-deps"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("plugin steps wait for the Docker, Node and Python repairs", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildPlan } = await import("../dist/core/planBuilder.js");
+        const { buildDependencyGraph } = await import("../dist/core/graph.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "x" }),
+            "package-lock.json": "{}",
+            "pyproject.toml": "[project]\nname = \"x\"\n",
+        });
+        const config = await loadDefaults();
+        const plugin = { ...base, id: "terraform-refresh", subsystem: "terraform", phase: "plugins", commands: [] };
+        const steps = await buildPlan(cwd, await detectEnvironment(cwd, config), config, defaultFlags(), [plugin]);
+        const index = steps.findIndex((s) => s.id === "terraform-refresh");
+        const waitsFor = buildDependencyGraph(steps)[index].map((i) => steps[i].id);
+        assert.ok(waitsFor.includes("node-install-deps"));
+        assert.ok(waitsFor.includes("python-create-venv"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("independent steps overlap up to the jobs limit and record timestamps", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const cwd = await createFixture({});
+        const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false }), interactive: false };
+        const sleep = { bin: "node", args: ["-e", "setTimeout(() => {}, 600)"] };
+        const steps = [
+            { ...base, id: "a", provides: ["node"], commands: [sleep] },
+            { ...base, id: "b", provides: ["python"], commands: [sleep] },
+            { ...base, id: "c", dependsOn: ["node", "python"], commands: [{ bin: "node", args: ["-e", ""] }] },
+        ];
+        const [a, b, c] = await executeSteps(ctx, steps, path.join(cwd, "store"), undefined, { jobs: 2 });
+        assert.deepEqual([a.id, b.id, c.id], ["a", "b", "c"]);
+        assert.ok(Date.parse(b.startedAt) < Date.parse(a.finishedAt), "a and b should run concurrently");
+        assert.ok(Date.parse(c.startedAt) >= Math.max(Date.parse(a.finishedAt), Date.parse(b.finishedAt)));
+
+        const [x, y] = await executeSteps(ctx, steps.slice(0, 2), path.join(cwd, "store"), undefined, { jobs: 1 });
+        assert.ok(Date.parse(y.startedAt) >= Date.parse(x.finishedAt));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("a step that throws is recorded as failed and its dependents are skipped", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        // The snapshot store is a regular file, so capturing the snapshot throws.
+        const cwd = await createFixture({ "data.txt": "x", "store": "not a directory" });
+        const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false }), interactive: false };
+        const noop = { bin: "node", args: ["-e", ""] };
+        const steps = [
+            { ...base, id: "snap", provides: ["node"], snapshotPaths: ["data.txt"], undoable: true, commands: [noop] },
+            { ...base, id: "after", dependsOn: ["node"], commands: [noop] },
+            { ...base, id: "later", dependsOn: ["after"], commands: [noop] },
+            { ...base, id: "other", provides: ["python"], commands: [noop] },
+        ];
+        const [snap, after, later, other] = await executeSteps(ctx, steps, path.join(cwd, "store"), undefined, { jobs: 2 });
+        assert.equal(snap.status, "failed");
+        assert.match(snap.error, /^Step could not run: /);
+        assert.deepEqual([after.status, after.skippedReason], ["skipped", "Not run: prerequisite snap failed"]);
+        assert.deepEqual([later.status, later.skippedReason], ["skipped", "Not run: prerequisite after skipped"]);
+        assert.equal(other.status, "success");
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Plugins", () => {
+    const pluginSource = `
+export default {
+    name: "terraform",
+    binaries: ["true"],
+    detect: async () => ({ detected: true, issues: ["terraform state is stale"] }),
+    buildSteps: () => [
+        { id: "refresh", title: "Refresh state", rationale: "stale", commands: [{ bin: "true", args: [] }] },
+        { id: "bad", title: "Bad step", rationale: "x", commands: ["rm -rf /"] },
+    ],
+    verify: (cwd, detection, steps) => ({ ok: false, message: steps.map((s) => s.id).join(",") }),
+};
+`;
+
+    test("plugins from config and auto-fix-plugin-* dependencies are loaded; bad ones become issues", async () => {
+        const { loadPlugins } = await import("../dist/core/plugins.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "x", devDependencies: { "auto-fix-plugin-helm": "1.0.0" } }),
+            "node_modules/auto-fix-plugin-helm/package.json": JSON.stringify({ name: "auto-fix-plugin-helm", type: "module", exports: "./index.js" }),
+            "node_modules/auto-fix-plugin-helm/index.js": "export const plugin = () => ({ name: 'helm', detect: () => ({ detected: false }), buildSteps: () => [] });",
+            "tools/terraform.mjs": pluginSource,
+            "tools/broken.mjs": "export default { name: 'broken' };",
+        });
+        const config = { ...(await loadDefaults()), plugins: ["./tools/terraform.mjs", "./tools/broken.mjs", "../outside.mjs"] };
+        const { plugins, errors } = await loadPlugins(cwd, config);
+        assert.deepEqual(plugins.map((p) => p.plugin.name), ["terraform", "helm"]);
+        assert.equal(errors.length, 2);
+        assert.match(errors[0], /broken\.mjs could not be loaded: plugin 'broken' has no detect\(\) function/);
+        assert.match(errors[1], /outside the project root/);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("plugin steps run through the executor with their own allowlist and are verified", async () => {
+        const { runAutoFix } = await import("../dist/core/run.js");
+        const cwd = await createFixture({ "tools/terraform.mjs": pluginSource });
+        const config = { ...(await loadDefaults()), plugins: ["./tools/terraform.mjs"] };
+        const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false }), interactive: false };
+        const { report } = await runAutoFix(ctx, config, path.join(cwd, "reports"));
+        assert.ok(report.detection.issues.includes("terraform: terraform state is stale"));
+        assert.ok(report.summary.detectedEnvironment.includes("Plugin: terraform"));
+        const refresh = report.steps.find((s) => s.id === "terraform-refresh");
+        assert.equal(refresh.subsystem, "plugin:terraform");
+        assert.equal(refresh.status, "success");
+        const bad = report.steps.find((s) => s.id === "terraform-bad");
+        assert.equal(bad.status, "proposed");
+        assert.match(bad.proposedReason, /Invalid step from plugin terraform: commands must be/);
+        assert.deepEqual(report.plugins, [{
+            name: "terraform", source: "./tools/terraform.mjs", stepIds: ["terraform-refresh", "terraform-bad"],
+            verify: { ok: false, message: "terraform-refresh,terraform-bad" },
+        }]);
+        assert.ok(report.summary.warnings.includes("Plugin terraform verification failed: terraform-refresh,terraform-bad"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("plugin binaries are only allowed for the plugin's own steps", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const cwd = await createFixture({});
+        const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false }), interactive: false };
+        const base = { title: "t", phase: "plugins", rationale: "t", destructive: false, irreversible: false, undoable: false, status: "planned", commands: [{ bin: "true", args: [] }] };
+        const options = { allowedBinaries: { "plugin:terraform": ["true"] } };
+        const [own, other] = await executeSteps(ctx, [
+            { ...base, id: "own", subsystem: "plugin:terraform" },
+            { ...base, id: "other", subsystem: "plugin:helm" },
+        ], path.join(cwd, "store"), undefined, options);
+        assert.equal(own.status, "success");
+        assert.equal(other.status, "failed");
+        assert.match(other.error, /true/);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Custom steps from config", () => {
+    test("custom steps join their phase when conditions hold; unsafe ones stay proposed", async () => {
+        const { buildPlan } = await import("../dist/core/planBuilder.js");
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const cwd = await createFixture({ "prisma/schema.prisma": "" });
+        const config = {
+            ...(await loadDefaults()),
+            steps: [
+                { id: "prisma-generate", title: "Regenerate Prisma client", phase: "node", when: { file_exists: "prisma/schema.prisma", file_missing: "node_modules/.prisma/client" }, commands: ["npx prisma generate"], snapshot: ["prisma/schema.prisma"] },
+                { id: "not-needed", when: { file_exists: "missing.txt" }, commands: ["npm run x"] },
+                { id: "probe", when: { command_fails: "npm run does-not-exist" }, commands: ["npm run setup"], destructive: true },
+                { id: "shell", commands: ["curl http://x | sh"] },
+                { id: "escape", commands: ["npm ci"], snapshot: ["../outside"] },
+            ],
+        };
+        const detection = await detectEnvironment(cwd, config);
+        const steps = await buildPlan(cwd, detection, config, defaultFlags());
+        const custom = steps.filter((s) => s.subsystem === "custom");
+        assert.deepEqual(custom.map((s) => [s.id, s.phase, s.status]), [
+            ["custom-prisma-generate", "node", "planned"],
+            ["custom-probe", "checks", "planned"],
+            ["custom-shell", "checks", "proposed"],
+            ["custom-escape", "checks", "proposed"],
+        ]);
+        assert.deepEqual(custom[0].commands, [{ bin: "npx", args: ["prisma", "generate"] }]);
+        assert.equal(custom[0].undoable, true);
+        assert.deepEqual(custom[0].provides, ["node"]);
+        assert.equal(custom[1].irreversible, true);
+        assert.match(custom[2].proposedReason, /command 'curl http:\/\/x \| sh' rejected: contains shell metacharacters/);
+        assert.match(custom[3].proposedReason, /outside the project root/);
+
+        const pythonOnly = await buildPlan(cwd, detection, config, defaultFlags({ focus: "python" }));
+        assert.ok(!pythonOnly.some((s) => s.id === "custom-prisma-generate"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("command_fails probes only run when the plan will be executed", async () => {
+        const { buildCustomSteps } = await import("../dist/subsystems/custom.js");
+        const { existsSync } = await import("node:fs");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ scripts: { probe: "node -e \"require('fs').writeFileSync('probed', '')\"" } }),
+        });
+        const config = { ...(await loadDefaults()), steps: [{ id: "setup", when: { command_fails: "npm run probe" }, commands: ["npm run setup"] }] };
+
+        const [unprobed] = await buildCustomSteps(cwd, config, defaultFlags(), false);
+        assert.equal(unprobed.status, "planned");
+        assert.equal(unprobed.conditional, "only if 'npm run probe' fails");
+        assert.equal(existsSync(path.join(cwd, "probed")), false, "plan and doctor must not run the probe");
+
+        assert.deepEqual(await buildCustomSteps(cwd, config, defaultFlags()), [], "the probe succeeded, so the step is not needed");
+        assert.equal(existsSync(path.join(cwd, "probed")), true);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("a destructive custom step snapshots its declared paths and undo restores them", async () => {
+        const { buildCustomSteps } = await import("../dist/subsystems/custom.js");
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ scripts: { gen: "node -e \"require('fs').writeFileSync('gen/out.txt', 'new')\"" } }),
+            "gen/out.txt": "original",
+        });
+        const config = { ...(await loadDefaults()), steps: [{ id: "regen", commands: ["npm run gen"], destructive: true, snapshot: ["gen"] }] };
+        const planned = await buildCustomSteps(cwd, config, defaultFlags());
+        const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false, approve: true }), interactive: false };
+        const [executed] = await executeSteps(ctx, planned, path.join(cwd, "store"));
+        assert.equal(executed.status, "success");
+        assert.equal(executed.undoable, true);
+        assert.deepEqual(executed.snapshot.entries.map((e) => e.path), ["gen"]);
+        assert.equal(await readFile(path.join(cwd, "gen/out.txt"), "utf8"), "new");
+
+        const reportPath = path.join(cwd, "report.json");
+        await writeFile(reportPath, JSON.stringify({ steps: [executed] }));
+        await undoLatest(reportPath, cwd);
+        assert.equal(await readFile(path.join(cwd, "gen/out.txt"), "utf8"), "original");
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Config schema and validation", () => {
+    test("typos and bad values are reported with line, column and suggestions", async () => {
+        const { readConfig, loadConfig } = await import("../dist/config/loadConfig.js");
+        const cwd = await createFixture({
+            ".git": "",
+            ".autofix.yml": "pyhton:\n  venv_path: .venv\npython:\n  install:\n    prefer: pipx\nexecution:\n  jobs: 0\n",
+        });
+        const { issues } = await readConfig(cwd);
+        assert.deepEqual(issues.map((i) => [i.path, i.line, i.column, i.message]), [
+            ["pyhton", 1, 1, "unknown key 'pyhton' (did you mean 'python'?)"],
+            ["python.install.prefer", 5, 13, "must be one of uv, pip, poetry, pdm, pipenv, auto; got 'pipx' (did you mean 'pip'?)"],
+            ["execution.jobs", 7, 9, "must be at least 1"],
+        ]);
+        await assert.rejects(loadConfig(cwd), (error) => error.name === "ConfigError" && /\.autofix\.yml:1:1: error: pyhton/.test(error.message));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("sanitized values become located warnings", async () => {
+        const { loadConfig } = await import("../dist/config/loadConfig.js");
+        const cwd = await createFixture({
+            ".git": "",
+            ".autofix.yml": 'python:\n  tools:\n    lint:\n      - "ruff check ."\n      - "black . && rm -rf /"\n',
+        });
+        const { config, issues } = await loadConfig(cwd);
+        assert.deepEqual(config.python.tools.lint, ["ruff check ."]);
+        assert.equal(issues.length, 1);
+        assert.equal(issues[0].level, "warning");
+        assert.equal(issues[0].path, "python.tools.lint[1]");
+        assert.equal(issues[0].line, 5);
+        assert.match(issues[0].message, /removed 'black \. && rm -rf \/' \(contains shell metacharacters\)/);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("published schema is up to date and accepts the defaults", async () => {
+        const { readFile } = await import("node:fs/promises");
+        const { configSchema } = await import("../dist/config/schema.js");
+        const { validateValue } = await import("../dist/config/validate.js");
+        const published = JSON.parse(await readFile("schema/autofix.schema.json", "utf8"));
+        assert.deepEqual(published, configSchema, "run `npm run schema` to regenerate");
+        assert.deepEqual(validateValue(await loadDefaults(), configSchema), []);
+    });
+
+    test("config validate and config show --resolved", async () => {
+        const cwd = await createFixture({ ".git": "", ".autofix.yml": "node:\n  package_manger: pnpm\n" });
+        // Keep a developer's own ~/.config/auto-fix/config.yml out of the result.
+        const opts = { cwd, env: { ...process.env, XDG_CONFIG_HOME: path.join(cwd, "xdg") } };
+        const invalid = run(["config", "validate"], opts);
+        assert.equal(invalid.status, 1);
+        assert.match(invalid.stdout, /\.autofix\.yml:2:3: error: node\.package_manger: unknown key 'package_manger' \(did you mean 'package_manager'\?\)/);
+        await writeFile(path.join(cwd, ".autofix.yml"), "node:\n  package_manager: pnpm\n");
+        assert.equal(run(["config", "validate"], opts).status, 0);
+        const shown = JSON.parse(run(["config", "show", "--resolved", "--json"], opts).stdout);
+        assert.deepEqual(shown.files, [path.join(cwd, ".autofix.yml")]);
+        assert.equal(shown.config.node.package_manager, "pnpm");
+        assert.equal(shown.config.python.venv_path, ".venv");
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Layered configuration", () => {
+    test("user, repo, local, env and flag layers apply in order and record their origin", async () => {
+        const { readConfig, describeOrigins } = await import("../dist/config/loadConfig.js");
+        const cwd = await createFixture({
+            ".git": "",
+            "home/config.yml": "ports:\n  extra: [9230]\noutput:\n  verbosity: quiet\nnode:\n  package_manager: npm\n",
+            ".autofix.yml": "node:\n  package_manager: pnpm\n",
+            ".autofix.local.yml": "node:\n  package_manager: yarn\nexecution:\n  jobs: 8\n",
+        });
+        const env = { AUTOFIX_EXECUTION__JOBS: "2", AUTOFIX_PORTS__DEFAULT: "3000, 3001", AUTOFIX_DOCKER__PRUNE: "yes", PATH: "/bin" };
+        const loaded = await readConfig(cwd, { env, userConfigDir: path.join(cwd, "home"), flags: defaultFlags({ verbose: true }) });
+        assert.deepEqual(loaded.issues, []);
+        assert.equal(loaded.files.length, 3);
+        const { config, origins } = loaded;
+        assert.deepEqual(config.ports, { default: [3000, 3001], extra: [9230] });
+        assert.equal(config.node.package_manager, "yarn");
+        assert.equal(config.execution.jobs, 2);
+        assert.equal(config.docker.prune, true);
+        assert.equal(config.output.verbosity, "verbose");
+        assert.deepEqual(origins["ports.extra"], { layer: "user", source: "home/config.yml" });
+        assert.deepEqual(origins["node.package_manager"], { layer: "local", source: ".autofix.local.yml" });
+        assert.deepEqual(origins["execution.jobs"], { layer: "env", source: "AUTOFIX_EXECUTION__JOBS" });
+        assert.deepEqual(origins["output.verbosity"], { layer: "cli", source: "--verbose" });
+        const venv = describeOrigins(loaded).find((e) => e.path === "python.venv_path");
+        assert.deepEqual(venv, { path: "python.venv_path", value: ".venv", origin: { layer: "default" } });
+        assert.deepEqual(loaded.overrides.node, { package_manager: "yarn" });
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("unknown environment variables are warnings; bad values of known settings are errors", async () => {
+        const { readConfig, loadConfig } = await import("../dist/config/loadConfig.js");
+        const cwd = await createFixture({ ".git": "" });
+        const userConfigDir = path.join(cwd, "none");
+        const env = { AUTOFIX_EXECUTON__JOBS: "2", AUTOFIX_OUTPUT__VERBOSITY: "loud" };
+        const { issues, config } = await readConfig(cwd, { env, userConfigDir });
+        assert.deepEqual(issues.map((i) => [i.level, i.file, i.message]), [
+            ["warning", "AUTOFIX_EXECUTON__JOBS", "unknown setting, ignored (did you mean AUTOFIX_EXECUTION__JOBS?)"],
+            ["error", "AUTOFIX_OUTPUT__VERBOSITY", "must be one of quiet, normal, verbose; got 'loud'"],
+        ]);
+        assert.equal(config.output.verbosity, "normal");
+
+        const stray = await loadConfig(cwd, { env: { AUTOFIX_FOO: "1" }, userConfigDir });
+        assert.deepEqual(stray.issues.map((i) => [i.level, i.file, i.message]), [["warning", "AUTOFIX_FOO", "unknown setting, ignored (did you mean AUTOFIX_NODE?)"]]);
+        await assert.rejects(loadConfig(cwd, { env, userConfigDir }), (error) => error.name === "ConfigError");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("a run gitignores .autofix.local.yml", async () => {
+        const { ensureAutofixInGitignore } = await import("../dist/utils/fs.js");
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({ ".git/HEAD": "", ".gitignore": "node_modules\n.autofix/\n" });
+        assert.deepEqual(await ensureAutofixInGitignore(cwd), [".autofix.local.yml"]);
+        assert.equal(await readFile(path.join(cwd, ".gitignore"), "utf8"), "node_modules\n.autofix/\n.autofix.local.yml\n");
+        assert.deepEqual(await ensureAutofixInGitignore(cwd), []);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: init", () => {
+    test("suggests answers from lockfiles, pyproject tool sections and package.json scripts", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { suggestInitAnswers, renderInitConfig } = await import("../dist/config/init.js");
+        const { parseConfigFile } = await import("../dist/config/validate.js");
+        const { configSchema } = await import("../dist/config/schema.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "web", scripts: { dev: "vite --port 4000", lint: "eslint ." }, devDependencies: { vite: "5" } }),
+            "pnpm-lock.yaml": "lockfileVersion: 6\n",
+            "pyproject.toml": "[project]\nname = \"api\"\n\n[tool.poetry]\nname = \"api\"\n\n[tool.ruff]\nline-length = 100\n\n[tool.pytest.ini_options]\naddopts = \"-q\"\n",
+            "compose.yml": "services: {}\n",
+        });
+        const detection = await detectEnvironment(cwd, await loadDefaults());
+        const { pythonTools, ...answers } = await suggestInitAnswers(cwd, detection);
+        assert.deepEqual(answers, {
+            packageManager: "pnpm",
+            venvPath: ".venv",
+            pythonInstaller: "poetry",
+            composeFile: "compose.yml",
+            ports: [4000, 5173, 8000],
+            checks: ["lint", "format", "test"],
+        });
+        assert.deepEqual(pythonTools, { format: ["ruff format"], lint: ["ruff check ."], test: ["pytest -q"] });
+
+        const text = renderInitConfig(answers, pythonTools);
+        assert.match(text, /^# auto-fix configuration/);
+        const parsed = parseConfigFile(text, ".autofix.yml", configSchema);
+        assert.deepEqual(parsed.issues, []);
+        assert.deepEqual(parsed.value.ports.default, [4000, 5173, 8000]);
+        assert.equal(parsed.value.python.install.prefer, "poetry");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("init --yes writes .autofix.yml and never overwrites it", async () => {
+        const { readFile } = await import("node:fs/promises");
+        const cwd = await createFixture({ ".git/HEAD": "", "package.json": JSON.stringify({ name: "app" }), "yarn.lock": "" });
+        const opts = { cwd, env: { ...process.env, XDG_CONFIG_HOME: path.join(cwd, "xdg") } };
+
+        const refused = run(["init"], opts);
+        assert.equal(refused.status, 1);
+        assert.match(refused.stderr, /--yes/);
+
+        const first = run(["init", "--yes"], opts);
+        assert.equal(first.status, 0, first.stderr);
+        assert.match(await readFile(path.join(cwd, ".autofix.yml"), "utf8"), /package_manager: yarn/);
+        assert.equal(run(["config", "validate"], opts).status, 0);
+
+        const second = run(["init", "--yes"], opts);
+        assert.equal(second.status, 1);
+        assert.match(second.stderr, /already exists/);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Node engine checks", () => {
+    test("semver ranges", async () => {
+        const { satisfies, minVersion } = await import("../dist/utils/semver.js");
+        assert.equal(satisfies("v20.11.1", ">=18 <21"), true);
+        assert.equal(satisfies("22.0.0", ">=18 <21"), false);
+        assert.equal(satisfies("20.10.0", "^20.11"), false);
+        assert.equal(satisfies("18.9.9", "16 - 18"), true);
+        assert.equal(satisfies("19.0.0", "^16 || ^18"), false);
+        assert.equal(satisfies("18.4.0", "18.x"), true);
+        assert.equal(satisfies("18.4.0", "not a range"), false);
+        assert.deepEqual(minVersion(">20.1.2 || ^22"), [20, 1, 3]);
+    });
+
+    test("checks every Node source and suggests the installed version manager", async () => {
+        const { buildEngineSteps } = await import("../dist/subsystems/engines.js");
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "app", engines: { node: ">=1" }, volta: { node: "0.0.1" } }),
+            ".nvmrc": "lts/argon\n",
+            ".tool-versions": "python 3.12.1\nnodejs node\n",
+            "bin/fnm": "",
+        });
+        const detection = await detectEnvironment(cwd, await loadDefaults());
+        const env = { HOME: cwd, PATH: path.join(cwd, "bin") };
+        const [step] = await buildEngineSteps(cwd, detection, await loadDefaults(), defaultFlags(), env);
+        assert.equal(step.id, "engines-node-version-mismatch");
+        assert.match(step.title, /expected lts\/argon \(\.nvmrc\), 0\.0\.1 \(volta\.node\), running v/);
+        assert.equal(step.proposedReason, "Run: fnm use --install-if-missing 4");
+
+        const [fallback] = await buildEngineSteps(cwd, detection, await loadDefaults(), defaultFlags(), { HOME: cwd, PATH: "" });
+        assert.match(fallback.proposedReason, /^No version manager found .* volta pin node@4$/);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("flags a package manager that does not match packageManager", async () => {
+        const { buildEngineSteps } = await import("../dist/subsystems/engines.js");
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "app", packageManager: "npm@0.0.1+sha512.abc" }),
+            "package-lock.json": "{}",
+        });
+        const detection = await detectEnvironment(cwd, await loadDefaults());
+        const steps = await buildEngineSteps(cwd, detection, await loadDefaults(), defaultFlags());
+        const step = steps.find((s) => s.id === "engines-package-manager-mismatch");
+        assert.ok(step);
+        assert.match(step.title, /^npm version drift: expected 0\.0\.1 \(packageManager\), running \d+\./);
+        assert.equal(step.proposedReason, "Run: corepack enable && corepack prepare npm@0.0.1 --activate");
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Python version checks", () => {
+    test("PEP 440 specifiers", async () => {
+        const { satisfiesSpecifier, lowestAllowed } = await import("../dist/utils/pep440.js");
+        assert.equal(satisfiesSpecifier("3.11.7", ">=3.9,<3.13"), true);
+        assert.equal(satisfiesSpecifier("3.13.0", ">=3.9,<3.13"), false);
+        assert.equal(satisfiesSpecifier("3.11.2", "~=3.11"), true);
+        assert.equal(satisfiesSpecifier("4.0", "~=3.11"), false);
+        assert.equal(satisfiesSpecifier("3.12.1", "==3.12.*, !=3.12.1"), false);
+        assert.equal(satisfiesSpecifier("3.12.1", "^3.12"), null);
+        assert.equal(lowestAllowed(">=3.9, >=3.10, <3.13"), "3.10");
+    });
+
+    test("a venv on the wrong interpreter gets a recreate step; a matching venv gets none", async () => {
+        const { buildEngineSteps } = await import("../dist/subsystems/engines.js");
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const cwd = await createFixture({
+            "pyproject.toml": "[project]\nname = \"api\"\nrequires-python = \">=3.99\"\n",
+            ".venv/pyvenv.cfg": "home = /usr/bin\nversion = 3.8.10\n",
+            "bin/uv": "",
+        });
+        const env = { HOME: cwd, PATH: path.join(cwd, "bin") };
+        const detection = await detectEnvironment(cwd, await loadDefaults());
+        const steps = await buildEngineSteps(cwd, detection, await loadDefaults(), defaultFlags(), env);
+        const venv = steps.find((s) => s.id === "engines-python-venv-mismatch");
+        assert.equal(venv.title, "Virtual environment .venv uses Python 3.8.10: expected >=3.99 (requires-python)");
+        assert.equal(venv.proposedReason, "Run: uv python install 3.99 && uv python pin 3.99 && uv venv --python 3.99 .venv");
+        assert.ok(steps.some((s) => s.id === "engines-python-version-mismatch"));
+
+        await writeFile(path.join(cwd, "pyproject.toml"), "[project]\nrequires-python = \">=3.8\"\n");
+        await writeFile(path.join(cwd, ".python-version"), "3.8\n");
+        const matching = await buildEngineSteps(cwd, await detectEnvironment(cwd, await loadDefaults()), await loadDefaults(), defaultFlags(), env);
+        assert.deepEqual(matching.map((s) => s.id), []);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Python dependency managers", () => {
+    async function installFor(files, prefer = "uv") {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildPythonSteps } = await import("../dist/subsystems/python.js");
+        const { formatCommand } = await import("../dist/core/commands.js");
+        const cwd = await createFixture(files);
+        const config = await loadDefaults();
+        config.python.install.prefer = prefer;
+        const detection = await detectEnvironment(cwd, config);
+        const step = buildPythonSteps(detection, config, defaultFlags(), cwd).find((s) => s.id === "python-install-deps");
+        await rm(cwd, { recursive: true, force: true });
+        // Poetry and Pipenv get the venv as an absolute path.
+        return { manager: detection.python.manager, command: formatCommand(step.commands[0]).replace(`${path.join(cwd, ".venv")} `, "<cwd>/.venv ") };
+    }
+
+    test("uses the project's manager, frozen to its lockfile, installing into venv_path", async () => {
+        const pyproject = "[project]\nname = \"api\"\n";
+        assert.deepEqual(await installFor({ "pyproject.toml": `${pyproject}[tool.uv]\ndev-dependencies = []\n`, "uv.lock": "" }),
+            { manager: "uv", command: "UV_PROJECT_ENVIRONMENT=.venv uv sync --frozen" });
+        assert.deepEqual(await installFor({ "pyproject.toml": "[tool.poetry]\nname = \"api\"\n", "poetry.lock": "" }),
+            { manager: "poetry", command: "VIRTUAL_ENV=<cwd>/.venv poetry install --sync" });
+        assert.deepEqual(await installFor({ "pyproject.toml": `${pyproject}[build-system]\nbuild-backend = "pdm.backend"\n` }),
+            { manager: "pdm", command: "PDM_PYTHON=.venv/bin/python pdm install" });
+        assert.deepEqual(await installFor({ "Pipfile": "[packages]\n", "Pipfile.lock": "{}" }),
+            { manager: "pipenv", command: "VIRTUAL_ENV=<cwd>/.venv pipenv sync --dev" });
+    });
+
+    test("plain projects install requirements files or the project through the venv", async () => {
+        assert.deepEqual(await installFor({ "requirements.txt": "", "requirements-dev.txt": "" }),
+            { manager: undefined, command: "uv pip install --python .venv/bin/python -r requirements.txt -r requirements-dev.txt" });
+        assert.deepEqual(await installFor({ "pyproject.toml": "[project]\nname = \"api\"\n" }, "pip"),
+            { manager: undefined, command: ".venv/bin/python -m pip install -e ." });
+    });
+});
+
+describe("v1.3: Virtual environment health", () => {
+    test("a venv with a dangling interpreter symlink, missing home and old location is recreated", async () => {
+        const { symlink } = await import("node:fs/promises");
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildPythonSteps } = await import("../dist/subsystems/python.js");
+        const { formatCommand } = await import("../dist/core/commands.js");
+        const cwd = await createFixture({
+            "requirements.txt": "",
+            ".venv/pyvenv.cfg": "home = /nonexistent-autofix/bin\nversion = 3.11.4\ncommand = /nonexistent-autofix/bin/python3.11 -m venv /old/place/.venv\n",
+        });
+        await mkdir(path.join(cwd, ".venv/bin"), { recursive: true });
+        await symlink("/nonexistent-autofix/bin/python3.11", path.join(cwd, ".venv/bin/python"));
+        const config = await loadDefaults();
+        const detection = await detectEnvironment(cwd, config);
+        assert.deepEqual(detection.python.venvProblems.map((p) => p.kind), ["home-missing", "moved", "interpreter-broken"]);
+        assert.ok(detection.issues.includes("python virtual environment .venv: bin/python points to /nonexistent-autofix/bin/python3.11, which no longer exists"));
+
+        const steps = buildPythonSteps(detection, config, defaultFlags({ deep: true }));
+        const recreate = steps.find((s) => s.id === "python-recreate-venv");
+        assert.equal(formatCommand(recreate.commands[0]), "python3 -m venv --clear .venv");
+        assert.equal(recreate.destructive, true);
+        assert.ok(!steps.some((s) => s.id === "python-reset-venv"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("a venv path with spaces is not reported as moved", async () => {
+        const { checkVenvHealth } = await import("../dist/core/venvHealth.js");
+        const cwd = await createFixture({});
+        const project = path.join(cwd, "my project");
+        const cfg = (dir) => `home = /usr/bin\nversion = 3.12.1\ncommand = /usr/bin/python3 -m venv --upgrade-deps ${dir}\n`;
+        const kinds = async () => (await checkVenvHealth(project, ".venv")).map((p) => p.kind);
+        await mkdir(path.join(project, ".venv"), { recursive: true });
+
+        await writeFile(path.join(project, ".venv/pyvenv.cfg"), cfg(path.join(project, ".venv")));
+        assert.ok(!(await kinds()).includes("moved"));
+        await writeFile(path.join(project, ".venv/pyvenv.cfg"), "home = /usr/bin\ncommand = python3 -m venv .venv\n");
+        assert.ok(!(await kinds()).includes("moved"), "an unparseable command line is unknown, not moved");
+        await writeFile(path.join(project, ".venv/pyvenv.cfg"), cfg("/old place/.venv"));
+        assert.ok((await kinds()).includes("moved"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    const noPython = spawnSync("python3", ["--version"]).error ? "python3 is not installed" : false;
+    test("a venv without pip gets ensurepip when pip installs the dependencies", { skip: noPython }, async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildPythonSteps } = await import("../dist/subsystems/python.js");
+        const cwd = await createFixture({ "requirements.txt": "" });
+        assert.equal(spawnSync("python3", ["-m", "venv", "--without-pip", ".venv"], { cwd }).status, 0);
+        const config = await loadDefaults();
+        const detection = await detectEnvironment(cwd, config);
+        assert.deepEqual(detection.python.venvProblems.map((p) => p.kind), ["pip-missing"]);
+
+        config.python.install.prefer = "pip";
+        assert.ok(buildPythonSteps(detection, config, defaultFlags()).some((s) => s.id === "python-ensure-pip"));
+        config.python.install.prefer = "uv";
+        assert.ok(!buildPythonSteps(detection, config, defaultFlags()).some((s) => s.id === "python-ensure-pip"));
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Docker Compose health", () => {
+    test("parses compose ps output as an array or one object per line", async () => {
+        const { parseComposePs } = await import("../dist/core/composeHealth.js");
+        const entry = { Name: "shop-db-1", Service: "db", State: "running", Health: "healthy", ExitCode: 0, Image: "postgres:16", Publishers: [{ URL: "0.0.0.0", TargetPort: 5432, PublishedPort: 5432, Protocol: "tcp" }, { URL: "", TargetPort: 8080, PublishedPort: 0, Protocol: "tcp" }] };
+        const expected = [{ name: "shop-db-1", service: "db", state: "running", health: "healthy", exitCode: 0, image: "postgres:16", ports: ["0.0.0.0:5432->5432/tcp"] }];
+        assert.deepEqual(parseComposePs(JSON.stringify([entry])), expected);
+        assert.deepEqual(parseComposePs(`${JSON.stringify(entry)}\n`), expected);
+        assert.deepEqual(parseComposePs(""), []);
+    });
+
+    test("plans targeted steps from the live stack state and leaves healthy services alone", async () => {
+        const cwd = await createFixture({
+            "compose.yml": "services: {}\n",
+            "bin/docker": [
+                "#!/bin/sh",
+                "case \"$*\" in",
+                "  \"compose version\") echo 'Docker Compose version v2.27.0' ;;",
+                "  *\" config --format json\") echo '{\"name\":\"shop\",\"services\":{\"db\":{},\"api\":{\"ports\":[{\"target\":80,\"published\":\"8080\"}]},\"worker\":{},\"cache\":{},\"queue\":{}}}' ;;",
+                "  *\" ps --all --format json\") printf '%s\\n' \\",
+                "    '{\"Name\":\"shop-db-1\",\"Service\":\"db\",\"State\":\"running\",\"Health\":\"healthy\",\"Image\":\"postgres:16\"}' \\",
+                "    '{\"Name\":\"shop-api-1\",\"Service\":\"api\",\"State\":\"running\",\"Image\":\"shop-api\",\"Publishers\":[{\"URL\":\"0.0.0.0\",\"TargetPort\":80,\"PublishedPort\":8080,\"Protocol\":\"tcp\"}]}' \\",
+                "    '{\"Name\":\"shop-worker-1\",\"Service\":\"worker\",\"State\":\"exited\",\"ExitCode\":1,\"Image\":\"shop-worker\"}' \\",
+                "    '{\"Name\":\"shop-queue-1\",\"Service\":\"queue\",\"State\":\"restarting\",\"ExitCode\":137,\"Image\":\"rabbitmq:3\"}' ;;",
+                "  \"ps --all --filter\"*) printf 'shop-db-1\\tdb\\nshop-legacy-1\\tlegacy\\n' ;;",
+                "  inspect*) printf '/shop-db-1\\tsha256:old\\n/shop-api-1\\tsha256:api\\n' ;;",
+                "  *postgres:16) echo sha256:new ;;",
+                "  *shop-api) echo sha256:api ;;",
+                "  *) exit 1 ;;",
+                "esac",
+                "",
+            ].join("\n"),
+        });
+        await chmod(path.join(cwd, "bin/docker"), 0o755);
+        const env = { ...process.env, PATH: `${path.join(cwd, "bin")}${path.delimiter}${process.env.PATH}` };
+        const result = run(["plan", "--no-color"], { cwd, env });
+        assert.equal(result.status, 0, result.stderr);
+        assert.match(result.stdout, /- api: running \[0\.0\.0\.0:8080->80\/tcp\]/);
+        assert.match(result.stdout, /- db: running an outdated postgres:16 image/);
+        assert.match(result.stdout, /- shop-legacy-1: orphan container/);
+        assert.match(result.stdout, /docker-compose-start Start docker compose services: worker, cache/);
+        assert.match(result.stdout, /docker-compose-restart Restart unhealthy docker compose services: queue/);
+        assert.match(result.stdout, /docker-compose-recreate Recreate docker compose services: db/);
+        assert.match(result.stdout, /docker-compose-remove-orphans Remove orphan containers: shop-legacy-1 \[IRREVERSIBLE\]/);
+        assert.doesNotMatch(result.stdout, /docker-compose-down|docker-compose-rebuild/);
+        const planned = run(["plan", "--no-color", "--json"], { cwd, env }).stdout;
+        const orphans = JSON.parse(planned.slice(planned.indexOf("\n{\n") + 1)).steps.find((s) => s.id === "docker-compose-remove-orphans");
+        assert.equal(orphans.destructive, true, "orphans may be running, so removing them needs --deep or --approve");
+
+        const fresh = run(["plan", "--no-color", "--force-fresh"], { cwd, env });
+        assert.match(fresh.stdout, /docker-compose-down/);
+        assert.doesNotMatch(fresh.stdout, /docker-compose-restart/);
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("a healthy stack gets no docker steps", async () => {
+        const { buildDockerSteps } = await import("../dist/subsystems/docker.js");
+        const detection = {
+            docker: { detected: true, composeFile: "compose.yml", stack: { project: "shop", orphans: [], services: [{ service: "db", state: "running", health: "healthy", ports: [], diagnosis: "running, healthy" }] } },
+        };
+        assert.deepEqual(buildDockerSteps(detection, await loadDefaults(), defaultFlags()), []);
+    });
+});
+
+describe("v1.3: Compose files and profiles", () => {
+    test("resolves default, override and COMPOSE_FILE sets, project name and profiles", async () => {
+        const { resolveComposeProject, composeArgs } = await import("../dist/core/composeProject.js");
+        const cwd = await createFixture({
+            "compose.yaml": "name: shop\nservices:\n  db: {}\n",
+            "docker-compose.yml": "services: {}\n",
+            "compose.override.yml": "services:\n  debug:\n    profiles: [debug]\n",
+            "ci.yml": "services: {}\n",
+            ".env": "COMPOSE_PROFILES=debug\nCOMPOSE_PROJECT_NAME=from-dotenv\n",
+        });
+        const config = await loadDefaults();
+        config.docker.profiles = ["tools"];
+        const project = await resolveComposeProject(cwd, config, {});
+        assert.deepEqual(project.files, ["compose.yaml", "compose.override.yml"]);
+        assert.equal(project.projectName, "from-dotenv");
+        assert.deepEqual(project.profiles, ["debug", "tools"]);
+        assert.deepEqual(project.declaredServices, ["db", "debug"]);
+        assert.deepEqual(
+            composeArgs({ detected: true, composeFiles: project.files, projectName: project.projectName, profiles: project.profiles }),
+            ["compose", "-p", "from-dotenv", "-f", "compose.yaml", "-f", "compose.override.yml", "--profile", "debug", "--profile", "tools"],
+        );
+
+        const fromEnv = await resolveComposeProject(cwd, await loadDefaults(), { COMPOSE_FILE: "ci.yml;compose.yaml", COMPOSE_PATH_SEPARATOR: ";", COMPOSE_PROJECT_NAME: "CI Run" });
+        assert.deepEqual(fromEnv.files, ["ci.yml", "compose.yaml"]);
+        assert.equal(fromEnv.projectName, "cirun");
+
+        await writeFile(path.join(cwd, ".env"), "");
+        assert.equal((await resolveComposeProject(cwd, await loadDefaults(), {})).projectName, "shop");
+        await rm(cwd, { recursive: true, force: true });
+    });
+
+    test("COMPOSE_* variables apply to the root project, not to workspace members", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const cwd = await createFixture({
+            "package.json": JSON.stringify({ name: "root", workspaces: ["apps/*"] }),
+            "ci.yml": "services: {}\n",
+            "apps/api/package.json": JSON.stringify({ name: "api" }),
+            "apps/api/compose.yml": "services: {}\n",
+        });
+        const saved = { COMPOSE_FILE: process.env.COMPOSE_FILE, COMPOSE_PROJECT_NAME: process.env.COMPOSE_PROJECT_NAME };
+        Object.assign(process.env, { COMPOSE_FILE: "ci.yml", COMPOSE_PROJECT_NAME: "ci" });
+        try {
+            const det = await detectEnvironment(cwd, await loadDefaults());
+            assert.deepEqual([det.docker.composeFiles, det.docker.projectName], [["ci.yml"], "ci"]);
+            const api = det.packages.find((p) => p.name === "api").detection;
+            assert.deepEqual([api.docker.composeFiles, api.docker.projectName], [["compose.yml"], "api"]);
+            assert.ok(!det.issues.some((issue) => issue.includes("not found")));
+        } finally {
+            for (const [key, value] of Object.entries(saved)) {
+                if (value === undefined) delete process.env[key];
+                else process.env[key] = value;
+            }
+            await rm(cwd, { recursive: true, force: true });
+        }
+    });
+
+    test("a configured list selects exactly those files and every docker step uses them", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildDockerSteps } = await import("../dist/subsystems/docker.js");
+        const { formatCommand } = await import("../dist/core/commands.js");
+        const cwd = await createFixture({ "base.yml": "services: {}\n", "compose.override.yml": "services: {}\n" });
+        const config = await loadDefaults();
+        config.docker.compose_file = ["base.yml", "missing.yml"];
+        const detection = await detectEnvironment(cwd, config);
+        assert.deepEqual(detection.docker.composeFiles, ["base.yml"]);
+        assert.ok(detection.issues.includes("compose file missing.yml not found"));
+
+        detection.docker.stack = undefined;
+        const steps = buildDockerSteps(detection, config, defaultFlags());
+        const name = detection.docker.projectName;
+        assert.deepEqual(steps.map((s) => formatCommand(s.commands[0])), [
+            `docker compose -p ${name} -f base.yml down`,
+            `docker compose -p ${name} -f base.yml up -d --build`,
+        ]);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Scoped Docker cleanup", () => {
+    test("deep cleanup targets the project label and puts volumes behind their own confirmation", async () => {
+        const { buildDockerSteps } = await import("../dist/subsystems/docker.js");
+        const { parseDockerSize } = await import("../dist/core/composeHealth.js");
+        const { formatCommand } = await import("../dist/core/commands.js");
+        assert.equal(parseDockerSize("12kB (virtual 312MB)"), 12000);
+        assert.equal(parseDockerSize("1.5GB"), 1500000000);
+        assert.equal(parseDockerSize("N/A"), 0);
+
+        const resources = { containers: ["shop-db-1"], networks: ["shop_default"], images: ["abc123"], volumes: ["shop_pgdata"], reclaimableBytes: 3 * 1024 * 1024 };
+        const detection = {
+            docker: { detected: true, composeFiles: ["compose.yaml"], projectName: "shop", stack: { project: "shop", orphans: [], services: [], resources } },
+        };
+        const steps = buildDockerSteps(detection, await loadDefaults(), defaultFlags({ deep: true }));
+        const [cleanup, volumes] = steps;
+        assert.deepEqual(steps.map((s) => s.id), ["docker-prune", "docker-prune-volumes"]);
+        assert.equal(cleanup.title, "IRREVERSIBLE: Remove docker compose project shop resources (~3.0 MB reclaimable)");
+        assert.deepEqual(cleanup.commands.map(formatCommand), [
+            "docker compose -p shop -f compose.yaml down --remove-orphans --rmi local",
+            "docker image prune --all --force --filter label=com.docker.compose.project=shop",
+        ]);
+        assert.ok(!steps.some((s) => s.commands.some((c) => formatCommand(c).includes("system prune"))));
+        assert.equal(formatCommand(volumes.commands[0]), "docker volume rm shop_pgdata");
+        assert.match(volumes.confirmation, /shop_pgdata/);
+    });
+
+    test("a step with a confirmation is asked even with --approve and only proposed without a terminal", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const { existsSync } = await import("node:fs");
+        const cwd = await createFixture({});
+        const step = {
+            id: "c", title: "t", subsystem: "docker", phase: "docker", rationale: "t", destructive: true, irreversible: true, undoable: false, status: "planned",
+            confirmation: "Really?", commands: [{ bin: "node", args: ["-e", "require('fs').writeFileSync('ran', '')"] }],
+        };
+        const flags = defaultFlags({ dryRun: false, approve: true });
+        const [headless] = await executeSteps({ command: "run", cwd, runId: "r", flags, interactive: false }, [step], path.join(cwd, "store"));
+        assert.equal(headless.status, "proposed");
+        assert.equal(existsSync(path.join(cwd, "ran")), false);
+
+        const asked = [];
+        const hooks = { onStepStart() {}, onStepEnd() {}, onConfirm: async (question) => { asked.push(question); return true; } };
+        const [confirmed] = await executeSteps({ command: "run", cwd, runId: "r", flags, interactive: true }, [step], path.join(cwd, "store"), hooks);
+        assert.deepEqual(asked, ["Really?"]);
+        assert.equal(confirmed.status, "success");
+        assert.equal(existsSync(path.join(cwd, "ran")), true);
+        await rm(cwd, { recursive: true, force: true });
+    });
+});
+
+describe("v1.3: Docker volume snapshots", () => {
+    const fakeDocker = [
+        "#!/bin/sh",
+        "dir=$(dirname \"$0\")",
+        "echo \"$*\" >> \"$dir/calls.log\"",
+        "case \"$*\" in",
+        "  \"volume inspect --format\"*) echo '{\"com.docker.compose.project\":\"shop\"}' ;;",
+        "  \"volume inspect \"*) [ -f \"$dir/gone\" ] && exit 1; exit 0 ;;",
+        "  *\" du -sk /volume\") printf '12\\t/volume\\n' ;;",
+        "  *\" tar -czf /backup/volume.tar.gz \"*)",
+        "    for arg in \"$@\"; do case \"$arg\" in *:/backup) printf 'pgdata' > \"${arg%:/backup}/volume.tar.gz\" ;; esac; done ;;",
+        "  \"volume rm \"*) touch \"$dir/gone\" ;;",
+        "  \"volume create \"*) rm -f \"$dir/gone\" ;;",
+        "esac",
+        "",
+    ].join("\n");
+
+    async function withFakeDocker(fn) {
+        const cwd = await createFixture({ "bin/docker": fakeDocker });
+        await chmod(path.join(cwd, "bin/docker"), 0o755);
+        const originalPath = process.env.PATH;
+        process.env.PATH = `${path.join(cwd, "bin")}${path.delimiter}${originalPath}`;
+        try {
+            await fn(cwd);
+        } finally {
+            process.env.PATH = originalPath;
+            await rm(cwd, { recursive: true, force: true });
+        }
+    }
+
+    const volumeStep = {
+        id: "docker-prune-volumes", title: "t", subsystem: "docker", phase: "docker", rationale: "t", destructive: true, irreversible: false, undoable: true, status: "planned",
+        volumes: ["shop_pgdata"], commands: [{ bin: "docker", args: ["volume", "rm", "shop_pgdata"] }],
+    };
+
+    test("exports volumes before the step and re-imports them on undo", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        const { undoLatest } = await import("../dist/core/undo.js");
+        const { readFile } = await import("node:fs/promises");
+        const { createHash } = await import("node:crypto");
+        await withFakeDocker(async (cwd) => {
+            const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false, approve: true }), interactive: false };
+            const [executed] = await executeSteps(ctx, [volumeStep], path.join(cwd, "store"), undefined, { volumeSnapshots: { maxBytes: 0 } });
+            assert.equal(executed.status, "success");
+            const sha256 = createHash("sha256").update("pgdata").digest("hex");
+            assert.deepEqual(executed.snapshot.entries, [{
+                path: "shop_pgdata", kind: "volume", sha256, size: 6, unpackedSize: 12288, mode: 0, mtime: executed.snapshot.entries[0].mtime, labels: { "com.docker.compose.project": "shop" }, engine: "docker",
+            }]);
+
+            const reportPath = path.join(cwd, "report.json");
+            await writeFile(reportPath, JSON.stringify({ steps: [executed] }));
+            const preview = await undoLatest(reportPath, cwd, { dryRun: true });
+            assert.deepEqual(preview.entries[0].preview, ["docker volume shop_pgdata:", "  (contents will be replaced from snapshot: 12.0 KB, 6 B compressed)"]);
+            const { entries } = await undoLatest(reportPath, cwd);
+            assert.deepEqual(entries[0].restored, ["docker volume shop_pgdata"]);
+            const calls = await readFile(path.join(cwd, "bin/calls.log"), "utf8");
+            assert.match(calls, /^volume create --label com\.docker\.compose\.project=shop shop_pgdata$/m);
+            assert.match(calls, new RegExp(`^run --rm -v shop_pgdata:/volume -v \\S+:/backup:ro alpine:3 sh -c find /volume -mindepth 1 -delete && tar -xzf /backup/${sha256} -C /volume$`, "m"));
+        });
+    });
+
+    test("volumes over the size limit are not exported and the step is irreversible", async () => {
+        const { executeSteps } = await import("../dist/core/executor.js");
+        await withFakeDocker(async (cwd) => {
+            const ctx = { command: "run", cwd, runId: "r", flags: defaultFlags({ dryRun: false, approve: true }), interactive: false };
+            const [executed] = await executeSteps(ctx, [volumeStep], path.join(cwd, "store"), undefined, { volumeSnapshots: { maxBytes: 1000 } });
+            assert.equal(executed.status, "success");
+            assert.equal(executed.undoable, false);
+            assert.equal(executed.irreversible, true);
+            assert.equal(executed.irreversibleReason, "volume snapshot skipped: volumes take 12.0 KB (shop_pgdata 12.0 KB), over the 1000 B docker.volume_snapshot_max_bytes limit");
+        });
+    });
+});
+
+describe("v1.3: Container runtimes", () => {
+    async function withFakeRuntimes(bins, fn) {
+        const files = Object.fromEntries(Object.entries(bins).map(([name, script]) => [`bin/${name}`, `#!/bin/sh\n${script}\n`]));
+        const cwd = await createFixture({ "compose.yml": "services: {}\n", ...files });
+        for (const name of Object.keys(bins)) await chmod(path.join(cwd, "bin", name), 0o755);
+        const originalPath = process.env.PATH;
+        process.env.PATH = `${path.join(cwd, "bin")}${path.delimiter}${originalPath}`;
+        try {
+            await fn(cwd);
+        } finally {
+            process.env.PATH = originalPath;
+            await rm(cwd, { recursive: true, force: true });
+        }
+    }
+
+    // Every candidate fails unless a test overrides it, so runtimes installed on the machine do not interfere.
+    const absent = { docker: "exit 1", "docker-compose": "exit 1", podman: "exit 1", "podman-compose": "exit 1", nerdctl: "exit 1" };
+
+    test("auto picks the first compose implementation that answers and every docker step uses it", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        const { buildDockerSteps } = await import("../dist/subsystems/docker.js");
+        const { formatCommand } = await import("../dist/core/commands.js");
+        await withFakeRuntimes({ ...absent, "podman-compose": "exit 0" }, async (cwd) => {
+            const config = await loadDefaults();
+            const detection = await detectEnvironment(cwd, config);
+            assert.equal(detection.docker.runtime, "podman-compose");
+            const name = detection.docker.projectName;
+            assert.deepEqual(buildDockerSteps(detection, config, defaultFlags()).map((s) => formatCommand(s.commands[0])), [
+                `podman-compose -p ${name} -f compose.yml down`,
+                `podman-compose -p ${name} -f compose.yml up -d --build`,
+            ]);
+
+            detection.docker.stack = { project: name, orphans: ["old-1"], services: [], resources: { containers: [], networks: [], images: [], volumes: ["data"], reclaimableBytes: 0 } };
+            const steps = buildDockerSteps(detection, config, defaultFlags({ deep: true }));
+            assert.deepEqual(steps.flatMap((s) => s.commands.map(formatCommand)), [
+                "podman rm -f old-1",
+                `podman-compose -p ${name} -f compose.yml down --remove-orphans --rmi local`,
+                `podman image prune --all --force --filter label=com.docker.compose.project=${name}`,
+                "podman volume rm data",
+            ]);
+            assert.equal(steps.at(-1).containerEngine, "podman");
+        });
+    });
+
+    test("docker.runtime forces one implementation and a missing runtime is reported", async () => {
+        const { detectEnvironment } = await import("../dist/core/detectEnvironment.js");
+        await withFakeRuntimes({ ...absent, docker: "exit 0", nerdctl: "[ \"$*\" = \"compose version\" ]" }, async (cwd) => {
+            const config = await loadDefaults();
+            config.docker.runtime = "nerdctl";
+            assert.equal((await detectEnvironment(cwd, config)).docker.runtime, "nerdctl");
+
+            config.docker.runtime = "podman";
+            const forced = await detectEnvironment(cwd, config);
+            assert.equal(forced.docker.runtime, undefined);
+            assert.ok(forced.issues.includes("docker.runtime is podman but `podman compose` is not available"));
+        });
+        await withFakeRuntimes(absent, async (cwd) => {
+            const detection = await detectEnvironment(cwd, await loadDefaults());
+            assert.ok(detection.issues.includes("no container runtime found: install Docker, Podman or nerdctl with compose support, or set docker.runtime"));
+            assert.ok(!detection.issues.some((issue) => issue.includes("state may require refresh")));
+        });
+    });
+});